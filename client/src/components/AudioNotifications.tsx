@@ -4,19 +4,22 @@ import { Slider } from "@/components/ui/slider";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Button } from "@/components/ui/button";
 import { useAudio } from "@/hooks/use-audio";
+import { useStatusCatalogue } from "@/hooks/use-status-catalogue";
 
 export default function AudioNotifications() {
-  const { playSound, setVolume, volumes, isMuted, toggleMute } = useAudio();
+  const { playSound, playHotlistAlert, setVolume, resetVolumes, volumes, isMuted, toggleMute } = useAudio();
+  const { catalogue } = useStatusCatalogue();
   
   const handleVolumeChange = (status: string, value: number[]) => {
     setVolume(status, value[0]);
   };
 
+  // Un réglage par statut sonore du catalogue, plus l'alerte de liste de surveillance
   const statusTypes = [
-    { key: 'valid', label: 'Valide', color: 'bg-green-500' },
-    { key: 'expired', label: 'Expirée', color: 'bg-orange-500' },
-    { key: 'suspended', label: 'Suspendue', color: 'bg-red-500' },
-    { key: 'other', label: 'Autre', color: 'bg-gray-500' }
+    ...catalogue
+      .filter(status => status.sound)
+      .map(status => ({ key: status.id, label: status.label, color: status.color })),
+    { key: 'hotlist', label: 'Liste de surveillance', color: '#9333ea' }
   ];
 
   return (
@@ -29,7 +32,7 @@ export default function AudioNotifications() {
           {statusTypes.map((status) => (
             <div key={status.key} className="flex items-center justify-between">
               <div className="flex items-center">
-                <div className={`h-3 w-3 rounded-full ${status.color} mr-2`}></div>
+                <div className="h-3 w-3 rounded-full mr-2" style={{ backgroundColor: status.color }}></div>
                 <span>{status.label}</span>
               </div>
               <div className="flex items-center">
@@ -37,7 +40,7 @@ export default function AudioNotifications() {
                   size="icon"
                   variant="ghost" 
                   className="p-1 text-muted-foreground hover:text-foreground"
-                  onClick={() => playSound(status.key)}
+                  onClick={() => status.key === 'hotlist' ? playHotlistAlert() : playSound(status.key)}
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
@@ -46,7 +49,7 @@ export default function AudioNotifications() {
                 </Button>
                 <Slider 
                   className="ml-2 w-20"
-                  value={[volumes[status.key] || 80]} 
+                  value={[volumes[status.key] ?? 80]} 
                   min={0} 
                   max={100} 
                   step={1}
@@ -76,12 +79,7 @@ export default function AudioNotifications() {
               <Button 
                 variant="outline"
                 className="bg-background hover:bg-border/40 px-3 py-1 rounded text-sm"
-                onClick={() => {
-                  setVolume('valid', 80);
-                  setVolume('expired', 90);
-                  setVolume('suspended', 100);
-                  setVolume('other', 85);
-                }}
+                onClick={resetVolumes}
               >
                 Réinitialiser
               </Button>
@@ -0,0 +1,56 @@
+import { Button } from "@/components/ui/button";
+import { Siren } from "lucide-react";
+import { usePlateContext } from "@/contexts/PlateContext";
+import { getHotlistReasonLabel, getHotlistPriorityLabel } from "@/lib/hotlist-labels";
+
+export default function HotlistAlert() {
+  const { hotlistAlert, dismissHotlistAlert } = usePlateContext();
+
+  if (!hotlistAlert) return null;
+
+  const isUrgent = hotlistAlert.priority === 'critical' || hotlistAlert.priority === 'high';
+
+  return (
+    <div
+      role="alert"
+      className={`mb-6 rounded-lg border-2 p-4 shadow-lg ${
+        isUrgent ? 'border-red-500 bg-red-500/15 animate-pulse' : 'border-purple-500 bg-purple-500/10'
+      }`}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-start">
+          <Siren className={`h-8 w-8 mr-3 flex-shrink-0 ${isUrgent ? 'text-red-500' : 'text-purple-500'}`} />
+          <div>
+            <div className="font-bold text-lg">
+              Plaque sur liste de surveillance : <span className="font-mono">{hotlistAlert.plateNumber}</span>
+            </div>
+            <div className="text-sm text-muted-foreground">
+              Priorité {getHotlistPriorityLabel(hotlistAlert.priority).toLowerCase()}
+              {hotlistAlert.region && hotlistAlert.region !== 'Inconnu' && ` · ${hotlistAlert.region}`}
+              {hotlistAlert.cameraId && ` · caméra ${hotlistAlert.cameraId}`}
+              {` · ${hotlistAlert.receivedAt.toLocaleTimeString('fr-CA')}`}
+            </div>
+            <ul className="mt-2 space-y-1 text-sm">
+              {hotlistAlert.matches.map(match => (
+                <li key={match.entry.id}>
+                  <span className="font-semibold">{getHotlistReasonLabel(match.entry.reason)}</span>
+                  {` — ${match.hotlist.name} (${match.hotlist.source})`}
+                  {match.matchType === 'fuzzy' && (
+                    <span className="text-orange-500"> · correspondance approchée avec {match.entry.plateNumber}</span>
+                  )}
+                  {match.matchType === 'alternate' && (
+                    <span className="text-orange-500"> · lecture alternative {match.matchedPlateNumber}</span>
+                  )}
+                  {match.entry.notes && <div className="text-muted-foreground">{match.entry.notes}</div>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={dismissHotlistAlert}>
+          Acquitter
+        </Button>
+      </div>
+    </div>
+  );
+}
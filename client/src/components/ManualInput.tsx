@@ -4,14 +4,21 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Search, AlertCircle } from "lucide-react";
 import { usePlateContext } from "@/contexts/PlateContext";
-import { validatePlate } from "@/lib/plate-validator";
+import { validatePlate, inferPlateRegion } from "@/lib/plate-validator";
 import { apiRequest } from "@/lib/queryClient";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
+// Exemples affichés pour chaque pays ; la province ou l'État est déduit du format
+const FORMAT_HINTS: Record<string, string> = {
+  CA: "Formats canadiens acceptés: CBPC 344 (Ontario), ABC 1234 (Alberta), OPN 4BIZ (personnalisée)",
+  US: "Formats américains acceptés: ABC 1234 (New York, Texas), 7ABC123 (Californie), etc.",
+  FR: "Formats français acceptés: AB-123-CD (SIV), 1234 AB 56 (FNI)"
+};
+
 export default function ManualInput() {
   const [plateNumber, setPlateNumber] = useState("");
   const [format, setFormat] = useState("CA");
-  const { handlePlateDetection } = usePlateContext();
+  const { handlePlateDetection, permitZone } = usePlateContext();
 
   const validateManualPlate = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,8 +34,9 @@ export default function ManualInput() {
       
       const response = await apiRequest("POST", "/api/validate", { 
         plateNumber, 
-        region: format === "CA" ? "Canada" : "USA",
-        detectionType: "manual"
+        region: inferPlateRegion(plateNumber, format),
+        detectionType: "manual",
+        zone: permitZone
       });
       
       const plateData = await response.json();
@@ -67,9 +75,7 @@ export default function ManualInput() {
           <Alert variant="default" className="bg-muted/50 border-border mt-2 mb-3">
             <AlertCircle className="h-4 w-4 text-muted-foreground" />
             <AlertDescription className="text-xs text-muted-foreground ml-2">
-              {format === 'CA' 
-                ? "Formats acceptés pour l'Ontario: CBPC 344, OPN 4BIZ, GVAH 823" 
-                : "Formats acceptés pour les USA: AB12345, ABC123, etc."}
+              {FORMAT_HINTS[format]}
             </AlertDescription>
           </Alert>
         </div>
@@ -81,7 +87,7 @@ export default function ManualInput() {
             className={`px-3 py-1 bg-background border-border rounded-md text-sm hover:bg-border/30 ${format === 'CA' ? 'bg-border/30' : ''}`}
             onClick={() => setFormat('CA')}
           >
-            Ontario 🇨🇦
+            Canada 🇨🇦
           </Button>
           <Button 
             type="button" 
@@ -91,6 +97,14 @@ export default function ManualInput() {
           >
             États-Unis 🇺🇸
           </Button>
+          <Button 
+            type="button" 
+            variant="outline" 
+            className={`px-3 py-1 bg-background border-border rounded-md text-sm hover:bg-border/30 ${format === 'FR' ? 'bg-border/30' : ''}`}
+            onClick={() => setFormat('FR')}
+          >
+            France 🇫🇷
+          </Button>
         </div>
         
         <div className="mt-3 flex flex-wrap gap-2">
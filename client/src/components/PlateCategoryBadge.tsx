@@ -0,0 +1,12 @@
+import { getPlateCategoryLabel, getPlateCategoryClass } from "@/lib/plate-category-labels";
+
+// Badge de la catégorie d'une plaque (diplomatique, commerçant, moto...)
+export default function PlateCategoryBadge({ category, className = "" }: { category?: string | null; className?: string }) {
+  if (!category) return null;
+
+  return (
+    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getPlateCategoryClass(category)} ${className}`}>
+      {getPlateCategoryLabel(category)}
+    </span>
+  );
+}
@@ -1,58 +1,109 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Lock } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { usePlateContext } from "@/contexts/PlateContext";
-import { LicensePlate } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { EvidenceSession, LicensePlate, SightingWithEvidence } from "@shared/schema";
+import { getVehicleTypeFrenchLabel, formatVehicleDescription } from "@/lib/vehicle-labels";
+import StatusBadge from "@/components/StatusBadge";
+import PlateCategoryBadge from "@/components/PlateCategoryBadge";
+
+// Vignette de l'image de preuve, à défaut le recadrage de la plaque
+function getThumbnailUrl(scan: SightingWithEvidence): string | undefined {
+  const image = scan.evidence.find(evidence => evidence.kind === "thumbnail")
+    || scan.evidence.find(evidence => evidence.kind === "plate");
+  return image?.url;
+}
+
+// Ouverture d'une session d'accès aux images avec le code des opérateurs
+function EvidenceUnlock() {
+  const [code, setCode] = useState("");
+  const [invalid, setInvalid] = useState(false);
+
+  const unlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await apiRequest<EvidenceSession>("POST", "/api/evidence/session", { code });
+      setCode("");
+      setInvalid(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/evidence/session'] });
+    } catch (error) {
+      setInvalid(true);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-sm text-muted-foreground">
+          <Lock className="h-4 w-4 mr-1" />
+          Images
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        <form className="space-y-2" onSubmit={unlock}>
+          <Input
+            type="password"
+            placeholder="Code d'accès aux images"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          {invalid && <p className="text-xs text-destructive">Code d'accès invalide</p>}
+          <Button type="submit" size="sm" className="w-full">Afficher les images</Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
 
 export default function RecentScans() {
   const { setCurrentPlate, updatePlateStatus } = usePlateContext();
 
-  const { data: recentScans, isLoading, error } = useQuery<LicensePlate[]>({
+  const { data: recentScans, isLoading, error } = useQuery<SightingWithEvidence[]>({
     queryKey: ['/api/plates/recent'],
   });
+  const { data: evidenceSession } = useQuery<EvidenceSession>({
+    queryKey: ['/api/evidence/session'],
+  });
+  // Les images ne sont servies qu'aux sessions d'accès ouvertes
+  const showImages = evidenceSession?.authenticated === true;
 
   const handleViewDetails = (plate: LicensePlate) => {
     setCurrentPlate({
+      id: plate.id,
       plateNumber: plate.plateNumber,
       region: plate.region || "",
-      status: plate.status as any,
+      status: plate.status,
       detectedAt: new Date(plate.detectedAt),
-      details: plate.details || ""
+      details: plate.details || "",
+      alternates: plate.alternates || [],
+      confidence: plate.confidence ?? undefined,
+      readCount: plate.readCount,
+      vehicleType: plate.vehicleType,
+      vehicleMake: plate.vehicleMake,
+      vehicleModel: plate.vehicleModel,
+      vehicleColor: plate.vehicleColor,
+      registrationExpiresAt: plate.registrationExpiresAt,
+      ownerClass: plate.ownerClass,
+      registeredVehicle: plate.registeredVehicle,
+      category: plate.category
     });
-    updatePlateStatus(plate.status as any);
-  };
-
-  const getStatusBadgeClass = (status: string) => {
-    switch (status) {
-      case 'valid':
-        return 'bg-green-500/20 text-green-500';
-      case 'expired':
-        return 'bg-orange-500/20 text-orange-500';
-      case 'suspended':
-        return 'bg-red-500/20 text-red-500';
-      default:
-        return 'bg-gray-500/20 text-gray-500';
-    }
-  };
-
-  const getStatusText = (status: string) => {
-    switch (status) {
-      case 'valid':
-        return 'Valide';
-      case 'expired':
-        return 'Expirée';
-      case 'suspended':
-        return 'Suspendue';
-      default:
-        return 'Autre';
-    }
+    updatePlateStatus(plate.status);
   };
 
   return (
     <Card className="shadow-lg border-border overflow-hidden">
       <CardHeader className="border-b border-border flex flex-row justify-between items-center py-3 px-4">
         <CardTitle className="font-semibold text-lg">Plaques Récentes</CardTitle>
-        <Button variant="link" className="text-sm text-primary hover:underline">Voir Tout</Button>
+        <div className="flex items-center gap-2">
+          {evidenceSession && !showImages && recentScans?.some(scan => scan.evidence.length > 0) && <EvidenceUnlock />}
+          <Button variant="link" className="text-sm text-primary hover:underline">Voir Tout</Button>
+        </div>
       </CardHeader>
       <CardContent className="p-0">
         <div className="overflow-x-auto">
@@ -63,39 +114,57 @@ export default function RecentScans() {
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Heure</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Statut</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Type</th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Véhicule</th>
                 <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">Actions</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-border bg-background">
               {isLoading ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-muted-foreground">Chargement...</td>
+                  <td colSpan={6} className="px-6 py-4 text-center text-muted-foreground">Chargement...</td>
                 </tr>
               ) : error ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-muted-foreground">Erreur lors du chargement des données</td>
+                  <td colSpan={6} className="px-6 py-4 text-center text-muted-foreground">Erreur lors du chargement des données</td>
                 </tr>
               ) : recentScans && recentScans.length > 0 ? (
                 recentScans.map((scan) => (
                   <tr key={scan.id} className="hover:bg-background/40">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">{scan.plateNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <div className="flex items-center gap-3">
+                        {showImages && getThumbnailUrl(scan) && (
+                          <img
+                            src={getThumbnailUrl(scan)}
+                            alt={`Image de la plaque ${scan.plateNumber}`}
+                            className="h-10 w-16 rounded object-cover border border-border"
+                            loading="lazy"
+                          />
+                        )}
+                        <div>
+                          <div>{scan.plateNumber}</div>
+                          <PlateCategoryBadge category={scan.category} className="mt-1" />
+                        </div>
+                      </div>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                       {new Date(scan.detectedAt).toLocaleTimeString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`status-badge inline-flex items-center gap-1 px-2 py-1 rounded-full ${getStatusBadgeClass(scan.status)}`}>
-                        <span className={`h-2 w-2 rounded-full ${
-                          scan.status === 'valid' ? 'bg-green-500' :
-                          scan.status === 'expired' ? 'bg-orange-500' :
-                          scan.status === 'suspended' ? 'bg-red-500' :
-                          'bg-gray-500'
-                        }`}></span>
-                        {getStatusText(scan.status)}
-                      </span>
+                      <StatusBadge status={scan.status} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                       {scan.region || 'Inconnu'}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
+                      {scan.vehicleType || scan.vehicleMake ? (
+                        <div>
+                          <div>{getVehicleTypeFrenchLabel(scan.vehicleType)}</div>
+                          {formatVehicleDescription(scan) && (
+                            <div className="text-xs">{formatVehicleDescription(scan)}</div>
+                          )}
+                        </div>
+                      ) : 'N/A'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-muted-foreground">
                       <Button 
                         variant="link" 
@@ -109,7 +178,7 @@ export default function RecentScans() {
                 ))
               ) : (
                 <tr>
-                  <td colSpan={5} className="px-6 py-4 text-center text-muted-foreground">Aucune plaque récente</td>
+                  <td colSpan={6} className="px-6 py-4 text-center text-muted-foreground">Aucune plaque récente</td>
                 </tr>
               )}
             </tbody>
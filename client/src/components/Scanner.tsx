@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import Webcam from "react-webcam";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -6,12 +7,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Camera, Settings, AlertTriangle, Info } from "lucide-react";
 import { usePlateContext } from "@/contexts/PlateContext";
 import { apiRequest } from "@/lib/queryClient";
-import { LicensePlate } from "@shared/schema";
+import { LicensePlate, RecognitionFailure } from "@shared/schema";
+import { formatRecognitionError } from "@/lib/recognition-errors";
 import { Progress } from "@/components/ui/progress";
+import StatusBadge from "@/components/StatusBadge";
+import { useStatusCatalogue } from "@/hooks/use-status-catalogue";
 
-// Type pour la réponse de l'API de détection
-type ScanResponse = {
-  detected: boolean;
+// Plaque détectée dans l'image envoyée
+type ScanDetection = {
   confidence?: number;
   boundingBox?: {
     x: number;
@@ -19,7 +22,18 @@ type ScanResponse = {
     width: number;
     height: number;
   };
-} & Partial<LicensePlate>;
+} & LicensePlate;
+
+// Type pour la réponse de l'API de détection
+type ScanResponse = {
+  detected: boolean;
+  engine?: string;
+  profileId?: string;
+  detections: ScanDetection[];
+  // Échecs des moteurs ; error est présent si aucun moteur n'a pu analyser l'image
+  failures?: RecognitionFailure[];
+  error?: RecognitionFailure;
+};
 
 export default function Scanner() {
   const [isScannerActive, setIsScannerActive] = useState(false);
@@ -27,7 +41,26 @@ export default function Scanner() {
   const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([]);
   const [selectedCamera, setSelectedCamera] = useState<string | undefined>(undefined);
   const [lastConfidence, setLastConfidence] = useState<number | null>(null);
-  const { currentPlate, plateStatus, soundEnabled, webSocketConnected, toggleSound } = usePlateContext();
+  const [lastEngine, setLastEngine] = useState<string | null>(null);
+  const {
+    currentPlate,
+    currentDetections,
+    plateStatus,
+    soundEnabled,
+    webSocketConnected,
+    recognitionError,
+    permitZone,
+    toggleSound,
+    setRecognitionError,
+    setPermitZone
+  } = usePlateContext();
+  
+  const { getStatus } = useStatusCatalogue();
+  
+  // Stationnements pour lesquels des permis sont enregistrés
+  const { data: permitZones } = useQuery<{ zones: string[]; defaultZone: string | null }>({
+    queryKey: ['/api/permits/zones'],
+  });
   
   // Get list of available cameras
   useEffect(() => {
@@ -76,11 +109,34 @@ export default function Scanner() {
           setScanCount(prev => prev + 1);
           try {
             // Envoyer l'image au serveur pour traitement
-            const response = await apiRequest<ScanResponse>("POST", "/api/scan", { image: imageSrc });
+            const response = await apiRequest<ScanResponse>("POST", "/api/scan", {
+              image: imageSrc,
+              // Permet au serveur d'appliquer le profil de reconnaissance de cette caméra
+              cameraId: selectedCamera && selectedCamera !== "default" ? selectedCamera : undefined,
+              // Zone de stationnement contrôlée (vérification des permis)
+              zone: permitZone || undefined
+            });
+            
+            // Mise à jour de la confiance (meilleure plaque de l'image)
+            const confidences = (response?.detections || [])
+              .map(detection => detection.confidence)
+              .filter((confidence): confidence is number => confidence !== undefined);
+            if (confidences.length > 0) {
+              setLastConfidence(Math.max(...confidences));
+            }
+            
+            // Distinguer « aucune plaque » d'une panne ou d'une limitation de l'API
+            if (response?.error) {
+              setRecognitionError({ ...response.error, degraded: false });
+            } else if (response?.failures && response.failures.length > 0) {
+              setRecognitionError({ ...response.failures[0], degraded: true });
+            } else {
+              setRecognitionError(null);
+            }
             
-            // Mise à jour de la confiance de la détection
-            if (response && response.confidence !== undefined) {
-              setLastConfidence(response.confidence);
+            // Moteur de reconnaissance ayant traité l'image
+            if (response && response.engine) {
+              setLastEngine(response.engine);
             }
             
             // Si une plaque a été détectée, mettre à jour le temps de dernière détection
@@ -89,6 +145,11 @@ export default function Scanner() {
             }
           } catch (error) {
             console.error("Erreur lors de l'envoi de l'image:", error);
+            setRecognitionError({
+              code: "service_error",
+              message: error instanceof Error ? error.message : String(error),
+              degraded: false
+            });
           } finally {
             setIsProcessing(false);
           }
@@ -101,7 +162,7 @@ export default function Scanner() {
         clearInterval(captureInterval);
       }
     };
-  }, [isScannerActive, webcamRef, webSocketConnected, isProcessing]);
+  }, [isScannerActive, webcamRef, webSocketConnected, isProcessing, selectedCamera, permitZone, setRecognitionError]);
   
   // Video constraints
   const videoConstraints = {
@@ -170,6 +231,9 @@ export default function Scanner() {
                 value={lastConfidence * 100} 
                 className={`h-2 ${lastConfidence > 0.8 ? "text-green-500" : lastConfidence > 0.7 ? "text-yellow-500" : "text-red-500"}`}
               />
+              {lastEngine && (
+                <div className="text-xs text-muted-foreground mt-1">Moteur: {lastEngine}</div>
+              )}
             </div>
           )}
           
@@ -178,23 +242,13 @@ export default function Scanner() {
             <div className="absolute bottom-4 left-4 right-4 bg-background/80 p-2 rounded flex items-center justify-between text-sm">
               {currentPlate ? (
                 <>
-                  <div>Plaque détectée: <span className="font-mono font-bold">{currentPlate.plateNumber}</span></div>
-                  <div className={`status-badge ${
-                    plateStatus === 'valid' ? 'bg-green-500/20 text-green-500' :
-                    plateStatus === 'expired' ? 'bg-orange-500/20 text-orange-500' :
-                    plateStatus === 'suspended' ? 'bg-red-500/20 text-red-500' :
-                    'bg-gray-500/20 text-gray-500'
-                  } px-2 py-1 rounded flex items-center`}>
-                    <span className={`h-2 w-2 rounded-full mr-1 ${
-                      plateStatus === 'valid' ? 'bg-green-500' :
-                      plateStatus === 'expired' ? 'bg-orange-500' :
-                      plateStatus === 'suspended' ? 'bg-red-500' :
-                      'bg-gray-500'
-                    }`}></span>
-                    {plateStatus === 'valid' ? 'Valide' :
-                     plateStatus === 'expired' ? 'Expirée' :
-                     plateStatus === 'suspended' ? 'Suspendue' : 'Autre'}
+                  <div>
+                    Plaque détectée: <span className="font-mono font-bold">{currentPlate.plateNumber}</span>
+                    {currentDetections.length > 1 && (
+                      <span className="ml-2 text-muted-foreground">(+{currentDetections.length - 1} autre{currentDetections.length > 2 ? 's' : ''})</span>
+                    )}
                   </div>
+                  <StatusBadge status={plateStatus} className="rounded" />
                 </>
               ) : (
                 <div className="w-full text-center text-muted-foreground">
@@ -212,6 +266,17 @@ export default function Scanner() {
             </div>
           )}
           
+          {/* Recognition engine errors */}
+          {isScannerActive && webSocketConnected && recognitionError && (
+            <div className={`absolute top-1/2 left-0 right-0 mx-auto p-2 text-white text-center text-sm flex items-center justify-center ${
+              recognitionError.degraded ? 'bg-orange-500/80' : 'bg-red-500/80'
+            }`}>
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {formatRecognitionError(recognitionError)}
+              {recognitionError.degraded && ' — moteur de secours utilisé'}
+            </div>
+          )}
+          
           {/* Scan stats */}
           {isScannerActive && (
             <div className="absolute top-16 left-4 bg-background/60 px-2 py-1 rounded text-xs">
@@ -219,34 +284,31 @@ export default function Scanner() {
             </div>
           )}
           
-          {/* Bounding box overlay */}
-          {isScannerActive && currentPlate && currentPlate.boundingBox && (
-            <div 
-              className={`absolute border-2 ${
-                plateStatus === 'valid' ? 'border-green-500' :
-                plateStatus === 'expired' ? 'border-orange-500' :
-                plateStatus === 'suspended' ? 'border-red-500' :
-                'border-blue-500'
-              } rounded-sm`}
-              style={{
-                left: `${currentPlate.boundingBox.x}px`,
-                top: `${currentPlate.boundingBox.y}px`,
-                width: `${currentPlate.boundingBox.width}px`,
-                height: `${currentPlate.boundingBox.height}px`,
-                transform: 'scale(1)', // Adapté selon la mise à l'échelle de l'image
-                opacity: 0.7
-              }}
-            >
-              <div className={`absolute -top-6 left-0 text-xs px-2 py-1 rounded-t ${
-                plateStatus === 'valid' ? 'bg-green-500' :
-                plateStatus === 'expired' ? 'bg-orange-500' :
-                plateStatus === 'suspended' ? 'bg-red-500' :
-                'bg-blue-500'
-              } text-white`}>
-                {currentPlate.plateNumber}
+          {/* Bounding box overlay (une boîte par plaque détectée) */}
+          {isScannerActive && currentDetections
+            .filter(detection => detection.boundingBox)
+            .map((detection, index) => (
+              <div 
+                key={`${detection.plateNumber}-${index}`}
+                className="absolute border-2 rounded-sm"
+                style={{
+                  left: `${detection.boundingBox!.x}px`,
+                  top: `${detection.boundingBox!.y}px`,
+                  width: `${detection.boundingBox!.width}px`,
+                  height: `${detection.boundingBox!.height}px`,
+                  transform: 'scale(1)', // Adapté selon la mise à l'échelle de l'image
+                  opacity: 0.7,
+                  borderColor: getStatus(detection.status).color
+                }}
+              >
+                <div
+                  className="absolute -top-6 left-0 text-xs px-2 py-1 rounded-t text-white"
+                  style={{ backgroundColor: getStatus(detection.status).color }}
+                >
+                  {detection.plateNumber}
+                </div>
               </div>
-            </div>
-          )}
+            ))}
         </div>
         
         <div className="mt-4 flex justify-between">
@@ -296,6 +358,28 @@ export default function Scanner() {
                   )}
               </SelectContent>
             </Select>
+            
+            {permitZones && permitZones.zones.length > 0 && (
+              <>
+                <span className="ml-3 mr-2 text-sm text-muted-foreground">Zone:</span>
+                <Select
+                  value={permitZone || "none"}
+                  onValueChange={(value) => setPermitZone(value === "none" ? null : value)}
+                >
+                  <SelectTrigger className="w-32 bg-background border-border text-sm">
+                    <SelectValue placeholder="Aucune" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">
+                      {permitZones.defaultZone ? `Par défaut (${permitZones.defaultZone})` : "Aucune"}
+                    </SelectItem>
+                    {permitZones.zones.map(zone => (
+                      <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </>
+            )}
           </div>
         </div>
       </CardContent>
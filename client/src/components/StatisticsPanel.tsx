@@ -1,27 +1,106 @@
+import { useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useStatusCatalogue } from "@/hooks/use-status-catalogue";
+import type { StatsBucket, StatsSummary } from "@shared/schema";
 
-type StatsData = {
-  totalToday: number;
-  validCount: number;
-  expiredCount: number;
-  suspendedCount: number;
-  otherCount: number;
-  regionDistribution: {
-    region: string;
-    percentage: number;
-  }[];
-};
+type Period = "today" | "24h" | "7d" | "30d";
+
+const PERIODS: { id: Period; label: string }[] = [
+  { id: "today", label: "Aujourd'hui" },
+  { id: "24h", label: "24 dernières heures" },
+  { id: "7d", label: "7 derniers jours" },
+  { id: "30d", label: "30 derniers jours" }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Paramètres de /api/stats pour une période, dans le fuseau du navigateur.
+// Sans from ni to, le serveur prend la journée en cours.
+function getStatsUrl(period: Period): string {
+  const params = new URLSearchParams({
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    groupBy: `${period === "today" || period === "24h" ? "hour" : "day"},status,region,camera`
+  });
+  const now = new Date();
+
+  if (period === "24h") {
+    params.set("from", new Date(now.getTime() - 24 * HOUR_MS).toISOString());
+    params.set("to", now.toISOString());
+  } else if (period !== "today") {
+    const from = new Date(now);
+    from.setDate(from.getDate() - (period === "7d" ? 6 : 29));
+    from.setHours(0, 0, 0, 0);
+    const to = new Date(now);
+    to.setDate(to.getDate() + 1);
+    to.setHours(0, 0, 0, 0);
+    params.set("from", from.toISOString());
+    params.set("to", to.toISOString());
+  }
+
+  return `/api/stats?${params}`;
+}
+
+// « 14h » pour une tranche horaire, « 01/05 » pour un jour
+function formatBucketLabel(key: string | null): string {
+  if (!key) return "";
+  return key.includes("T") ? `${key.slice(11, 13)}h` : `${key.slice(8, 10)}/${key.slice(5, 7)}`;
+}
+
+function Distribution({ title, buckets, total }: { title: string; buckets: StatsBucket[]; total: number }) {
+  return (
+    <div className="mt-4 bg-background rounded-lg p-4 border border-border/70">
+      <h3 className="text-sm font-medium text-muted-foreground mb-2">{title}</h3>
+      <div className="space-y-2">
+        {buckets.map(bucket => {
+          const percentage = Math.min(100, Math.round((bucket.vehicles / total) * 100) || 0);
+          return (
+            <div key={bucket.key ?? ""}>
+              <div className="flex justify-between text-xs mb-1">
+                <span>{bucket.key || "Inconnu"}</span>
+                <span>{percentage}%</span>
+              </div>
+              <div className="w-full bg-border h-2 rounded-full overflow-hidden">
+                <div className="bg-primary h-full rounded-full" style={{ width: `${percentage}%` }}></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
 
 export default function StatisticsPanel() {
-  const { data: stats, isLoading } = useQuery<StatsData>({
-    queryKey: ['/api/stats'],
+  const [period, setPeriod] = useState<Period>("today");
+  // Bornes figées au choix de la période, pour que la requête reste en cache
+  const statsUrl = useMemo(() => getStatsUrl(period), [period]);
+  const { data: stats, isLoading } = useQuery<StatsSummary>({
+    queryKey: [statsUrl],
   });
+  const { catalogue } = useStatusCatalogue();
+
+  const series = stats?.groups.hour || stats?.groups.day || [];
+  const maxSightings = Math.max(1, ...series.map(bucket => bucket.sightings));
+  // Véhicules par statut observé sur la période
+  const statusCounts = Object.fromEntries((stats?.groups.status || []).map(bucket => [bucket.key, bucket.vehicles]));
+  const cameras = (stats?.groups.camera || []).filter(bucket => bucket.key);
 
   return (
     <Card className="shadow-lg border-border overflow-hidden">
-      <CardHeader className="border-b border-border py-3 px-4">
+      <CardHeader className="border-b border-border py-3 px-4 flex flex-row items-center justify-between space-y-0">
         <CardTitle className="font-semibold text-lg">Statistiques</CardTitle>
+        <Select value={period} onValueChange={value => setPeriod(value as Period)}>
+          <SelectTrigger className="w-44 bg-background border-border text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
       </CardHeader>
       <CardContent className="p-4">
         {isLoading ? (
@@ -32,39 +111,44 @@ export default function StatisticsPanel() {
           <>
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-background rounded-lg p-3 border border-border/70">
-                <div className="text-sm text-muted-foreground">Total Aujourd'hui</div>
-                <div className="text-xl font-bold mt-1">{stats.totalToday}</div>
-              </div>
-              <div className="bg-background rounded-lg p-3 border border-border/70">
-                <div className="text-sm text-muted-foreground">Actives</div>
-                <div className="text-xl font-bold mt-1 text-green-500">{stats.validCount}</div>
-              </div>
-              <div className="bg-background rounded-lg p-3 border border-border/70">
-                <div className="text-sm text-muted-foreground">Expirées</div>
-                <div className="text-xl font-bold mt-1 text-orange-500">{stats.expiredCount}</div>
+                <div className="text-sm text-muted-foreground">Observations</div>
+                <div className="text-xl font-bold mt-1">{stats.totalSightings}</div>
+                <div className="text-xs text-muted-foreground mt-1">{stats.uniqueVehicles} véhicule{stats.uniqueVehicles > 1 ? 's' : ''} distinct{stats.uniqueVehicles > 1 ? 's' : ''}</div>
               </div>
-              <div className="bg-background rounded-lg p-3 border border-border/70">
-                <div className="text-sm text-muted-foreground">Suspendues</div>
-                <div className="text-xl font-bold mt-1 text-red-500">{stats.suspendedCount}</div>
-              </div>
-            </div>
-            
-            <div className="mt-4 bg-background rounded-lg p-4 border border-border/70">
-              <h3 className="text-sm font-medium text-muted-foreground mb-2">Répartition par Origine</h3>
-              <div className="space-y-2">
-                {stats.regionDistribution.map((item, index) => (
-                  <div key={index}>
-                    <div className="flex justify-between text-xs mb-1">
-                      <span>{item.region}</span>
-                      <span>{item.percentage}%</span>
-                    </div>
-                    <div className="w-full bg-border h-2 rounded-full overflow-hidden">
-                      <div className="bg-primary h-full rounded-full" style={{ width: `${item.percentage}%` }}></div>
-                    </div>
+              {catalogue
+                .filter(status => (statusCounts[status.id] || 0) > 0)
+                .map(status => (
+                  <div key={status.id} className="bg-background rounded-lg p-3 border border-border/70">
+                    <div className="text-sm text-muted-foreground">{status.label}</div>
+                    <div className="text-xl font-bold mt-1" style={{ color: status.color }}>{statusCounts[status.id]}</div>
                   </div>
                 ))}
-              </div>
             </div>
+
+            {series.length > 0 && (
+              <div className="mt-4 bg-background rounded-lg p-4 border border-border/70">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Évolution</h3>
+                <div className="flex items-end gap-px h-24">
+                  {series.map(bucket => (
+                    <div
+                      key={bucket.key}
+                      className="flex-1 bg-primary rounded-t-sm min-h-px"
+                      style={{ height: `${(bucket.sightings / maxSightings) * 100}%` }}
+                      title={`${formatBucketLabel(bucket.key)} : ${bucket.sightings} observation${bucket.sightings > 1 ? 's' : ''}`}
+                    ></div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground mt-1">
+                  <span>{formatBucketLabel(series[0].key)}</span>
+                  <span>{formatBucketLabel(series[series.length - 1].key)}</span>
+                </div>
+              </div>
+            )}
+
+            <Distribution title="Répartition par Origine" buckets={stats.groups.region || []} total={stats.uniqueVehicles} />
+            {cameras.length > 1 && (
+              <Distribution title="Répartition par Caméra" buckets={cameras} total={stats.uniqueVehicles} />
+            )}
           </>
         ) : (
           <div className="h-64 flex items-center justify-center">
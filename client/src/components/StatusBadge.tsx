@@ -0,0 +1,18 @@
+import { useStatusCatalogue, withOpacity } from "@/hooks/use-status-catalogue";
+
+// Badge coloré d'un statut, tel que défini par le catalogue du serveur
+export default function StatusBadge({ status, className = "" }: { status: string; className?: string }) {
+  const { getStatus } = useStatusCatalogue();
+  const definition = getStatus(status);
+
+  return (
+    <span
+      className={`status-badge inline-flex items-center gap-1 px-2 py-1 rounded-full ${className}`}
+      style={{ backgroundColor: withOpacity(definition.color, 0.2), color: definition.color }}
+      title={definition.description}
+    >
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: definition.color }}></span>
+      {definition.label}
+    </span>
+  );
+}
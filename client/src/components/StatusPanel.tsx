@@ -1,37 +1,50 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { usePlateContext } from "@/contexts/PlateContext";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { LicensePlate } from "@shared/schema";
+import { getVehicleTypeFrenchLabel, getVehicleColorFrenchLabel } from "@/lib/vehicle-labels";
+import { useStatusCatalogue, getSeverityLabel, withOpacity } from "@/hooks/use-status-catalogue";
+import { getOwnerClassLabel, getDaysUntilExpiry, formatExpiryDelay, EXPIRY_WARNING_DAYS } from "@/lib/registration-labels";
+import PlateCategoryBadge from "@/components/PlateCategoryBadge";
 
 export default function StatusPanel() {
-  const { currentPlate, plateStatus } = usePlateContext();
+  const { currentPlate, plateStatus, handlePlateDetection } = usePlateContext();
+  const { getStatus } = useStatusCatalogue();
+  const statusDefinition = getStatus(plateStatus);
+  const daysUntilExpiry = currentPlate?.registrationExpiresAt
+    ? getDaysUntilExpiry(currentPlate.registrationExpiresAt)
+    : null;
 
-  const getStatusClass = () => {
-    switch (plateStatus) {
-      case 'valid':
-        return 'bg-green-500/10 border-green-500/20 text-green-500';
-      case 'expired':
-        return 'bg-orange-500/10 border-orange-500/20 text-orange-500';
-      case 'suspended':
-        return 'bg-red-500/10 border-red-500/20 text-red-500';
-      default:
-        return 'bg-gray-500/10 border-gray-500/20 text-gray-500';
+  // Remplacer la lecture retenue par une des alternatives proposées par le moteur
+  const selectCandidate = async (plateNumber: string) => {
+    if (currentPlate?.id === undefined) return;
+
+    try {
+      const updatedPlate = await apiRequest<LicensePlate>("POST", `/api/plates/${currentPlate.id}/select-candidate`, { plateNumber });
+      handlePlateDetection(updatedPlate);
+      queryClient.invalidateQueries({ queryKey: ['/api/plates/recent'] });
+    } catch (error) {
+      console.error("Error selecting candidate:", error);
     }
   };
 
+  // Icône selon la gravité du statut
   const getStatusIcon = () => {
-    switch (plateStatus) {
-      case 'valid':
+    switch (statusDefinition.severity) {
+      case 'ok':
         return (
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
           </svg>
         );
-      case 'expired':
+      case 'warning':
         return (
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
         );
-      case 'suspended':
+      case 'critical':
         return (
           <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
@@ -46,29 +59,25 @@ export default function StatusPanel() {
     }
   };
 
-  const getStatusText = () => {
-    switch (plateStatus) {
-      case 'valid':
-        return 'Valide';
-      case 'expired':
-        return 'Expirée';
-      case 'suspended':
-        return 'Suspendue';
+  const getPermitStatusText = () => {
+    switch (currentPlate?.permit?.status) {
+      case 'permitted':
+        return 'Autorisé';
+      case 'permit_expired':
+        return 'Permis expiré';
       default:
-        return 'Autre';
+        return 'Non autorisé';
     }
   };
 
-  const getStatusDescription = () => {
-    switch (plateStatus) {
-      case 'valid':
-        return 'Plaque en règle';
-      case 'expired':
-        return 'La plaque a expiré';
-      case 'suspended':
-        return 'La plaque est suspendue';
+  const getPermitStatusClass = () => {
+    switch (currentPlate?.permit?.status) {
+      case 'permitted':
+        return 'bg-green-500/20 text-green-500';
+      case 'permit_expired':
+        return 'bg-orange-500/20 text-orange-500';
       default:
-        return 'Statut inconnu';
+        return 'bg-red-500/20 text-red-500';
     }
   };
 
@@ -97,45 +106,126 @@ export default function StatusPanel() {
             </div>
             
             {/* Animated status indicator */}
-            <div className={`rounded-lg p-4 border mb-4 ${getStatusClass()}`}>
+            <div
+              className="rounded-lg p-4 border mb-4"
+              style={{
+                backgroundColor: withOpacity(statusDefinition.color, 0.1),
+                borderColor: withOpacity(statusDefinition.color, 0.2),
+                color: statusDefinition.color
+              }}
+            >
               <div className="flex items-center justify-between">
                 <div className="flex items-center">
-                  <div className={`rounded-full h-10 w-10 flex items-center justify-center bg-${plateStatus === 'valid' ? 'green' : plateStatus === 'expired' ? 'orange' : plateStatus === 'suspended' ? 'red' : 'gray'}-500/20`}>
+                  <div
+                    className="rounded-full h-10 w-10 flex items-center justify-center"
+                    style={{ backgroundColor: withOpacity(statusDefinition.color, 0.2) }}
+                  >
                     {getStatusIcon()}
                   </div>
                   <div className="ml-3">
-                    <h3 className="text-lg font-medium">{getStatusText()}</h3>
-                    <p className="text-sm text-muted-foreground">{getStatusDescription()}</p>
+                    <h3 className="text-lg font-medium">{statusDefinition.label}</h3>
+                    <p className="text-sm text-muted-foreground">{statusDefinition.description}</p>
                   </div>
                 </div>
                 <div className="text-right">
-                  <span className={`text-xs bg-${plateStatus === 'valid' ? 'green' : plateStatus === 'expired' ? 'orange' : plateStatus === 'suspended' ? 'red' : 'gray'}-500/20 px-2 py-1 rounded-full`}>
-                    {plateStatus === 'valid' ? '100%' : plateStatus === 'expired' ? '0%' : '0%'}
+                  <span
+                    className="text-xs px-2 py-1 rounded-full"
+                    style={{ backgroundColor: withOpacity(statusDefinition.color, 0.2) }}
+                  >
+                    {getSeverityLabel(statusDefinition.severity)}
                   </span>
                 </div>
               </div>
             </div>
             
+            {/* Immatriculation expirée ou sur le point d'expirer */}
+            {daysUntilExpiry !== null && daysUntilExpiry <= EXPIRY_WARNING_DAYS && (
+              <div className={`rounded-lg px-3 py-2 border mb-4 text-sm ${
+                daysUntilExpiry < 0
+                  ? 'bg-red-500/10 border-red-500/30 text-red-500'
+                  : 'bg-amber-500/10 border-amber-500/30 text-amber-500'
+              }`}>
+                {daysUntilExpiry < 0
+                  ? `Immatriculation ${formatExpiryDelay(daysUntilExpiry)}`
+                  : `Immatriculation à renouveler : ${formatExpiryDelay(daysUntilExpiry)}`}
+              </div>
+            )}
+            
+            {/* Permis de stationnement pour la zone contrôlée */}
+            {currentPlate.permit && (
+              <div className="rounded-lg p-3 border border-border mb-4">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Stationnement ({currentPlate.permit.zone}):</span>
+                  <span className={`text-xs px-2 py-1 rounded-full font-medium ${getPermitStatusClass()}`}>
+                    {getPermitStatusText()}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">{currentPlate.permit.details}</p>
+              </div>
+            )}
+            
             {/* Status details */}
             <div className="space-y-3">
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Province/État:</span>
                 <span className="font-medium">{currentPlate.region || 'Inconnu'}</span>
               </div>
+              {currentPlate.category && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Catégorie de plaque:</span>
+                  <PlateCategoryBadge category={currentPlate.category} />
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Date d'expiration:</span>
                 <span className="font-medium">
-                  {plateStatus === 'expired' 
-                    ? 'Expirée' 
-                    : plateStatus === 'valid' 
-                      ? new Date(new Date().setMonth(new Date().getMonth() + 6)).toLocaleDateString() 
-                      : 'N/A'}
+                  {currentPlate.registrationExpiresAt && daysUntilExpiry !== null ? (
+                    <>
+                      {currentPlate.registrationExpiresAt}
+                      <span className="ml-1 text-xs text-muted-foreground">({formatExpiryDelay(daysUntilExpiry)})</span>
+                    </>
+                  ) : 'N/A'}
                 </span>
               </div>
+              {currentPlate.ownerClass && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Propriétaire:</span>
+                  <span className="font-medium">{getOwnerClassLabel(currentPlate.ownerClass)}</span>
+                </div>
+              )}
+              {currentPlate.registeredVehicle && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Véhicule immatriculé:</span>
+                  <span className="font-medium">{currentPlate.registeredVehicle}</span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Type de véhicule:</span>
-                <span className="font-medium">Berline</span>
+                <span className="font-medium">{getVehicleTypeFrenchLabel(currentPlate.vehicleType)}</span>
               </div>
+              {(currentPlate.vehicleMake || currentPlate.vehicleModel) && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Marque/Modèle:</span>
+                  <span className="font-medium">
+                    {[currentPlate.vehicleMake, currentPlate.vehicleModel].filter(Boolean).join(' ')}
+                  </span>
+                </div>
+              )}
+              {currentPlate.vehicleColor && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Couleur:</span>
+                  <span className="font-medium">{getVehicleColorFrenchLabel(currentPlate.vehicleColor)}</span>
+                </div>
+              )}
+              {currentPlate.readCount !== undefined && currentPlate.readCount > 1 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Lectures consolidées:</span>
+                  <span className="font-medium">
+                    {currentPlate.readCount}
+                    {currentPlate.confidence != null && ` (${Math.round(currentPlate.confidence * 100)}%)`}
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Dernière vérification:</span>
                 <span className="font-medium">
@@ -144,17 +234,30 @@ export default function StatusPanel() {
               </div>
             </div>
             
+            {currentPlate.id !== undefined && currentPlate.alternates && currentPlate.alternates.length > 0 && (
+              <div className="mt-4 border-t border-border pt-4">
+                <h3 className="text-sm font-medium text-muted-foreground mb-2">Autres lectures possibles:</h3>
+                <div className="flex flex-wrap gap-2">
+                  {currentPlate.alternates.map((candidate) => (
+                    <Button
+                      key={candidate.plateNumber}
+                      variant="outline"
+                      size="sm"
+                      className="font-mono"
+                      onClick={() => selectCandidate(candidate.plateNumber)}
+                    >
+                      {candidate.plateNumber}
+                      <span className="ml-1 text-xs text-muted-foreground">{Math.round(candidate.score * 100)}%</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+            
             <div className="mt-4 border-t border-border pt-4">
               <h3 className="text-sm font-medium text-muted-foreground mb-2">Notes:</h3>
               <p className="text-sm">
-                {currentPlate.details || 
-                  (plateStatus === 'valid' 
-                    ? 'Aucune restriction trouvée. Véhicule en règle.' 
-                    : plateStatus === 'expired'
-                      ? 'La plaque a expiré. Renouvellement requis.'
-                      : plateStatus === 'suspended'
-                        ? 'Plaque suspendue. Action requise par les autorités.'
-                        : 'Information non disponible.')}
+                {currentPlate.details || statusDefinition.description}
               </p>
             </div>
           </>
@@ -1,42 +1,85 @@
 import { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { PlateStatus } from '@shared/schema';
+import { PlateStatus, PlateCandidate, RecognitionFailure, HotlistMatch, PermitCheckResult } from '@shared/schema';
 import { useAudio } from '@/hooks/use-audio';
 
 type PlateData = {
+  id?: number;
   plateNumber: string;
   region: string;
   status: PlateStatus;
   detectedAt: Date;
   details?: string;
   confidence?: number;
+  // Nombre d'images ayant contribué à la lecture consolidée
+  readCount?: number;
   boundingBox?: {
     x: number;
     y: number;
     width: number;
     height: number;
   };
+  alternates?: PlateCandidate[];
+  vehicleType?: string | null;
+  vehicleMake?: string | null;
+  vehicleModel?: string | null;
+  vehicleColor?: string | null;
+  // Immatriculation selon le registre
+  registrationExpiresAt?: string | null;
+  ownerClass?: string | null;
+  registeredVehicle?: string | null;
+  // Catégorie déduite du format (diplomatique, commerçant, moto...)
+  category?: string | null;
+  // Droit de stationner dans la zone contrôlée, si une zone est sélectionnée
+  permit?: PermitCheckResult;
+};
+
+// Dernière erreur des moteurs ; degraded indique qu'un moteur de secours a pris le relais
+export type RecognitionErrorState = RecognitionFailure & {
+  degraded: boolean;
+};
+
+// Plaque reconnue figurant sur une liste de surveillance, en attente d'acquittement
+export type HotlistAlertState = {
+  plateNumber: string;
+  region?: string | null;
+  cameraId?: string;
+  priority: string;
+  matches: HotlistMatch[];
+  receivedAt: Date;
 };
 
 type PlateContextType = {
   currentPlate: PlateData | null;
+  currentDetections: PlateData[];
   plateStatus: PlateStatus;
   soundEnabled: boolean;
   webSocketConnected: boolean;
+  recognitionError: RecognitionErrorState | null;
+  hotlistAlert: HotlistAlertState | null;
+  permitZone: string | null;
   setCurrentPlate: (plate: PlateData | null) => void;
   updatePlateStatus: (status: PlateStatus) => void;
   toggleSound: () => void;
   handlePlateDetection: (plateData: any) => void;
   setWebSocketConnected: (connected: boolean) => void;
+  setRecognitionError: (error: RecognitionErrorState | null) => void;
+  handleHotlistAlert: (alertData: any) => void;
+  dismissHotlistAlert: () => void;
+  setPermitZone: (zone: string | null) => void;
 };
 
 const PlateContext = createContext<PlateContextType | undefined>(undefined);
 
 export function PlateProvider({ children }: { children: ReactNode }) {
   const [currentPlate, setCurrentPlate] = useState<PlateData | null>(null);
+  const [currentDetections, setCurrentDetections] = useState<PlateData[]>([]);
   const [plateStatus, setPlateStatus] = useState<PlateStatus>('valid');
   const [soundEnabled, setSoundEnabled] = useState(true);
   const [webSocketConnected, setWebSocketConnected] = useState(false);
-  const { playSound } = useAudio();
+  const [recognitionError, setRecognitionError] = useState<RecognitionErrorState | null>(null);
+  const [hotlistAlert, setHotlistAlert] = useState<HotlistAlertState | null>(null);
+  const [permitZone, setPermitZone] = useState<string | null>(null);
+  const { playSound, playHotlistAlert } = useAudio();
   
   const updatePlateStatus = useCallback((status: PlateStatus) => {
     setPlateStatus(status);
@@ -49,16 +92,36 @@ export function PlateProvider({ children }: { children: ReactNode }) {
   const handlePlateDetection = useCallback((plateData: any) => {
     if (!plateData) return;
     
-    const newPlateData: PlateData = {
-      plateNumber: plateData.plateNumber,
-      region: plateData.region || "",
-      status: plateData.status || "valid",
-      detectedAt: new Date(),
-      details: plateData.details || "",
-      confidence: plateData.confidence,
-      boundingBox: plateData.boundingBox
-    };
+    // Une image peut contenir plusieurs plaques : accepter une détection ou une liste
+    const detections: PlateData[] = (Array.isArray(plateData) ? plateData : [plateData])
+      .filter((detection: any) => detection && detection.plateNumber)
+      .map((detection: any) => ({
+        id: detection.id,
+        plateNumber: detection.plateNumber,
+        region: detection.region || "",
+        status: detection.status || "valid",
+        detectedAt: new Date(),
+        details: detection.details || "",
+        confidence: detection.confidence ?? undefined,
+        readCount: detection.readCount,
+        boundingBox: detection.boundingBox,
+        alternates: detection.alternates || [],
+        vehicleType: detection.vehicleType,
+        vehicleMake: detection.vehicleMake,
+        vehicleModel: detection.vehicleModel,
+        vehicleColor: detection.vehicleColor,
+        registrationExpiresAt: detection.registrationExpiresAt,
+        ownerClass: detection.ownerClass,
+        registeredVehicle: detection.registeredVehicle,
+        category: detection.category,
+        permit: detection.permit
+      }));
+    
+    if (detections.length === 0) return;
     
+    const newPlateData = detections[0];
+    
+    setCurrentDetections(detections);
     setCurrentPlate(newPlateData);
     updatePlateStatus(newPlateData.status);
     
@@ -67,19 +130,50 @@ export function PlateProvider({ children }: { children: ReactNode }) {
       playSound(newPlateData.status);
     }
     
-    console.log('Plaque détectée:', newPlateData);
+    console.log('Plaques détectées:', detections);
   }, [soundEnabled, updatePlateStatus, playSound]);
   
+  const handleHotlistAlert = useCallback((alertData: any) => {
+    if (!alertData?.plate || !alertData.matches?.length) return;
+    
+    setHotlistAlert({
+      plateNumber: alertData.plate.plateNumber,
+      region: alertData.plate.region,
+      cameraId: alertData.cameraId,
+      priority: alertData.priority,
+      matches: alertData.matches,
+      receivedAt: new Date()
+    });
+    
+    if (soundEnabled) {
+      playHotlistAlert();
+    }
+    
+    console.warn('Alerte liste de surveillance:', alertData);
+  }, [soundEnabled, playHotlistAlert]);
+  
+  const dismissHotlistAlert = useCallback(() => {
+    setHotlistAlert(null);
+  }, []);
+  
   const value = {
     currentPlate,
+    currentDetections,
     plateStatus,
     soundEnabled,
     webSocketConnected,
+    recognitionError,
+    hotlistAlert,
+    permitZone,
     setCurrentPlate,
     updatePlateStatus,
     toggleSound,
     handlePlateDetection,
     setWebSocketConnected,
+    setRecognitionError,
+    handleHotlistAlert,
+    dismissHotlistAlert,
+    setPermitZone,
   };
   
   return <PlateContext.Provider value={value}>{children}</PlateContext.Provider>;
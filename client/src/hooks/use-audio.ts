@@ -1,5 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Howl } from 'howler';
+import { StatusSeverity } from '@shared/schema';
+import { useStatusCatalogue } from '@/hooks/use-status-catalogue';
 
 type SoundMap = {
   [key: string]: Howl;
@@ -9,41 +11,53 @@ type VolumeMap = {
   [key: string]: number;
 };
 
+// Volume initial d'un statut selon sa gravité
+const DEFAULT_VOLUMES: Record<StatusSeverity, number> = {
+  ok: 80,
+  info: 85,
+  warning: 90,
+  critical: 100
+};
+
+// Sirène des alertes de liste de surveillance, distincte des statuts
+const HOTLIST_SOUND_URL = 'https://assets.mixkit.co/active_storage/sfx/1008/1008-preview.mp3';
+const HOTLIST_VOLUME = 100;
+
 export function useAudio() {
+  const { catalogue } = useStatusCatalogue();
   const [sounds, setSounds] = useState<SoundMap>({});
-  const [volumes, setVolumes] = useState<VolumeMap>({
-    valid: 80,
-    expired: 90,
-    suspended: 100,
-    other: 85
-  });
+  const [volumes, setVolumes] = useState<VolumeMap>({ hotlist: HOTLIST_VOLUME });
   const [isMuted, setIsMuted] = useState(false);
   
-  // Initialize sounds
+  // Volumes par défaut des statuts du catalogue, sans écraser ceux déjà réglés
+  const getDefaultVolumes = useCallback((): VolumeMap => ({
+    ...Object.fromEntries(catalogue.map(status => [status.id, DEFAULT_VOLUMES[status.severity] ?? 85])),
+    hotlist: HOTLIST_VOLUME
+  }), [catalogue]);
+  
+  useEffect(() => {
+    setVolumes(prev => ({ ...getDefaultVolumes(), ...prev }));
+  }, [getDefaultVolumes]);
+  
+  // Initialize sounds (un son par statut du catalogue qui en définit un)
   useEffect(() => {
     const soundMap: SoundMap = {
-      valid: new Howl({
-        src: ['https://assets.mixkit.co/active_storage/sfx/2869/2869-preview.mp3'],
-        volume: volumes.valid / 100,
-        html5: true
-      }),
-      expired: new Howl({
-        src: ['https://assets.mixkit.co/active_storage/sfx/1864/1864-preview.mp3'],
-        volume: volumes.expired / 100,
-        html5: true
-      }),
-      suspended: new Howl({
-        src: ['https://assets.mixkit.co/active_storage/sfx/209/209-preview.mp3'],
-        volume: volumes.suspended / 100,
-        html5: true
-      }),
-      other: new Howl({
-        src: ['https://assets.mixkit.co/active_storage/sfx/2870/2870-preview.mp3'],
-        volume: volumes.other / 100,
+      hotlist: new Howl({
+        src: [HOTLIST_SOUND_URL],
+        volume: HOTLIST_VOLUME / 100,
         html5: true
       })
     };
     
+    catalogue.forEach(status => {
+      if (!status.sound) return;
+      soundMap[status.id] = new Howl({
+        src: [status.sound],
+        volume: (DEFAULT_VOLUMES[status.severity] ?? 85) / 100,
+        html5: true
+      });
+    });
+    
     setSounds(soundMap);
     
     return () => {
@@ -52,12 +66,14 @@ export function useAudio() {
         sound.stop();
       });
     };
-  }, []);
+  }, [catalogue]);
   
   // Update volume when it changes
   useEffect(() => {
     Object.entries(sounds).forEach(([key, sound]) => {
-      sound.volume(volumes[key] / 100);
+      if (volumes[key] !== undefined) {
+        sound.volume(volumes[key] / 100);
+      }
     });
   }, [volumes, sounds]);
   
@@ -71,6 +87,18 @@ export function useAudio() {
     }
   }, [sounds, isMuted]);
   
+  // Jouée deux fois de suite pour ne pas être confondue avec un statut
+  const playHotlistAlert = useCallback(() => {
+    if (isMuted) return;
+    
+    const sound = sounds.hotlist;
+    if (sound) {
+      sound.stop();
+      sound.once('end', () => sound.play());
+      sound.play();
+    }
+  }, [sounds, isMuted]);
+  
   const setVolume = useCallback((status: string, volume: number) => {
     setVolumes(prev => ({
       ...prev,
@@ -83,9 +111,13 @@ export function useAudio() {
     }
   }, [sounds]);
   
+  const resetVolumes = useCallback(() => {
+    setVolumes(getDefaultVolumes());
+  }, [getDefaultVolumes]);
+  
   const toggleMute = useCallback(() => {
     setIsMuted(prev => !prev);
   }, []);
   
-  return { playSound, setVolume, volumes, isMuted, toggleMute };
+  return { playSound, playHotlistAlert, setVolume, resetVolumes, volumes, isMuted, toggleMute };
 }
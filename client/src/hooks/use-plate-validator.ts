@@ -5,7 +5,7 @@ export function usePlateValidator() {
   const [isValid, setIsValid] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
-  const validate = useCallback((plateNumber: string, format: 'CA' | 'US' = 'CA') => {
+  const validate = useCallback((plateNumber: string, format: string = 'CA') => {
     try {
       const valid = validatePlate(plateNumber, format);
       setIsValid(valid);
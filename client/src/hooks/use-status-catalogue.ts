@@ -0,0 +1,47 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { StatusDefinition, StatusSeverity } from '@shared/schema';
+
+// Affichage d'un statut absent du catalogue (ou avant son chargement)
+const UNKNOWN_STATUS_COLOR = '#6b7280';
+
+const SEVERITY_LABELS: Record<StatusSeverity, string> = {
+  ok: 'Conforme',
+  info: 'Information',
+  warning: 'Attention',
+  critical: 'Critique'
+};
+
+export function getSeverityLabel(severity: StatusSeverity): string {
+  return SEVERITY_LABELS[severity] || severity;
+}
+
+/**
+ * Couleur du catalogue avec une opacité (0-1), pour les fonds et bordures des badges
+ */
+export function withOpacity(color: string, opacity: number): string {
+  const alpha = Math.round(opacity * 255).toString(16).padStart(2, '0');
+  return `${color}${alpha}`;
+}
+
+/**
+ * Catalogue des statuts défini par le serveur ; getStatus ne renvoie jamais undefined
+ */
+export function useStatusCatalogue() {
+  const { data: catalogue = [] } = useQuery<StatusDefinition[]>({
+    queryKey: ['/api/statuses'],
+  });
+
+  const getStatus = useCallback((id: string): StatusDefinition => {
+    return catalogue.find(status => status.id === id) || {
+      id,
+      label: id,
+      description: 'Statut inconnu',
+      severity: 'info',
+      color: UNKNOWN_STATUS_COLOR,
+      sound: null
+    };
+  }, [catalogue]);
+
+  return { catalogue, getStatus };
+}
@@ -0,0 +1,25 @@
+import { HotlistPriority, HotlistReason } from '@shared/schema';
+
+// Libellés français des motifs d'inscription sur une liste de surveillance
+const HOTLIST_REASON_LABELS: Record<HotlistReason, string> = {
+  'stolen': 'Véhicule volé',
+  'amber': 'Alerte Amber',
+  'bolo': 'Avis de recherche',
+  'other': 'Signalement'
+};
+
+// Libellés français des priorités d'alerte
+const HOTLIST_PRIORITY_LABELS: Record<HotlistPriority, string> = {
+  'low': 'Basse',
+  'medium': 'Moyenne',
+  'high': 'Haute',
+  'critical': 'Critique'
+};
+
+export function getHotlistReasonLabel(reason: string): string {
+  return HOTLIST_REASON_LABELS[reason as HotlistReason] || reason;
+}
+
+export function getHotlistPriorityLabel(priority: string): string {
+  return HOTLIST_PRIORITY_LABELS[priority as HotlistPriority] || priority;
+}
@@ -0,0 +1,31 @@
+import { PlateCategory } from '@shared/schema';
+
+// Libellés français des catégories de plaques
+const PLATE_CATEGORY_LABELS: Record<PlateCategory, string> = {
+  'standard': 'Standard',
+  'vanity': 'Personnalisée',
+  'commercial': 'Commerciale',
+  'motorcycle': 'Moto',
+  'diplomatic': 'Diplomatique',
+  'dealer': 'Commerçant',
+  'unknown': 'Format inconnu'
+};
+
+// Couleurs des badges : les catégories qui appellent un traitement particulier ressortent
+const PLATE_CATEGORY_CLASSES: Record<PlateCategory, string> = {
+  'standard': 'bg-muted text-muted-foreground',
+  'vanity': 'bg-sky-500/20 text-sky-500',
+  'commercial': 'bg-amber-500/20 text-amber-500',
+  'motorcycle': 'bg-teal-500/20 text-teal-500',
+  'diplomatic': 'bg-violet-500/20 text-violet-500',
+  'dealer': 'bg-orange-500/20 text-orange-500',
+  'unknown': 'bg-muted text-muted-foreground'
+};
+
+export function getPlateCategoryLabel(category: string): string {
+  return PLATE_CATEGORY_LABELS[category as PlateCategory] || category;
+}
+
+export function getPlateCategoryClass(category: string): string {
+  return PLATE_CATEGORY_CLASSES[category as PlateCategory] || PLATE_CATEGORY_CLASSES.unknown;
+}
@@ -1,23 +1,30 @@
-import { canadaLicensePlateSchema, usaLicensePlateSchema } from '@shared/schema';
+import { COUNTRY_REGION_NAMES, CountryCode, isValidPlateForRegion, resolvePlateRegion } from '@shared/plate-formats';
 
+/**
+ * Vérifie qu'une plaque respecte un format connu du pays ('CA', 'US', 'FR')
+ * ou de la région (province, État) indiquée
+ */
 export function validatePlate(plateNumber: string, format: string): boolean {
   if (!plateNumber) return false;
   
   try {
-    if (format === 'CA') {
-      const result = canadaLicensePlateSchema.safeParse({ plateNumber });
-      return result.success;
-    } else if (format === 'US') {
-      const result = usaLicensePlateSchema.safeParse({ plateNumber });
-      return result.success;
-    }
-    return false;
+    const region = COUNTRY_REGION_NAMES[format as CountryCode] || format;
+    return isValidPlateForRegion(plateNumber, region);
   } catch (error) {
     console.error('Validation error:', error);
     return false;
   }
 }
 
+/**
+ * Région à enregistrer pour une plaque saisie : la province ou l'État déduit
+ * du format si un seul convient, le pays sinon
+ */
+export function inferPlateRegion(plateNumber: string, format: string): string {
+  const region = COUNTRY_REGION_NAMES[format as CountryCode] || format;
+  return resolvePlateRegion(plateNumber, region).region;
+}
+
 export function generateRandomStatus(): 'valid' | 'expired' | 'suspended' | 'other' {
   const statuses = ['valid', 'expired', 'suspended', 'other'];
   const randomIndex = Math.floor(Math.random() * statuses.length);
@@ -0,0 +1,32 @@
+import { RecognitionErrorCode, RecognitionFailure } from '@shared/schema';
+
+// Libellés français des états d'erreur des moteurs de reconnaissance
+const RECOGNITION_ERROR_LABELS: Record<RecognitionErrorCode, string> = {
+  'not_configured': 'Aucun moteur de reconnaissance configuré',
+  'auth_failed': 'Clé API refusée',
+  'rate_limited': 'Trop de requêtes, API ralentie',
+  'quota_exceeded': 'Quota de l\'API épuisé',
+  'circuit_open': 'API en pause après des échecs répétés',
+  'timeout': 'L\'API ne répond pas',
+  'service_error': 'Service de reconnaissance indisponible',
+  'engine_error': 'Erreur du moteur de reconnaissance'
+};
+
+export function getRecognitionErrorLabel(code: RecognitionErrorCode): string {
+  return RECOGNITION_ERROR_LABELS[code] || RECOGNITION_ERROR_LABELS.engine_error;
+}
+
+/**
+ * Message affiché à l'opérateur, avec le délai avant nouvel essai s'il est connu
+ */
+export function formatRecognitionError(failure: RecognitionFailure): string {
+  const label = getRecognitionErrorLabel(failure.code);
+
+  if (failure.retryAfterMs && failure.retryAfterMs > 0) {
+    const seconds = Math.ceil(failure.retryAfterMs / 1000);
+    const delay = seconds >= 120 ? `${Math.ceil(seconds / 60)} min` : `${seconds} s`;
+    return `${label} (nouvel essai dans ${delay})`;
+  }
+
+  return label;
+}
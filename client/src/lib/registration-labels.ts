@@ -0,0 +1,40 @@
+import { OwnerClass } from '@shared/schema';
+
+// Libellés français des catégories de propriétaires
+const OWNER_CLASS_LABELS: Record<OwnerClass, string> = {
+  'individual': 'Particulier',
+  'company': 'Entreprise',
+  'rental': 'Location',
+  'government': 'Gouvernement',
+  'diplomatic': 'Corps diplomatique',
+  'other': 'Autre'
+};
+
+// Nombre de jours avant l'expiration à partir duquel l'opérateur est averti
+export const EXPIRY_WARNING_DAYS = 30;
+
+export function getOwnerClassLabel(ownerClass?: string | null): string {
+  if (!ownerClass) return 'Inconnu';
+  return OWNER_CLASS_LABELS[ownerClass as OwnerClass] || ownerClass;
+}
+
+/**
+ * Jours restants jusqu'à une date d'expiration « AAAA-MM-JJ » (négatif si elle est passée).
+ * L'immatriculation reste valide toute la journée d'expiration.
+ */
+export function getDaysUntilExpiry(expiresAt: string, today: Date = new Date()): number {
+  const [year, month, day] = expiresAt.split('-').map(Number);
+  const expiry = new Date(year, month - 1, day);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((expiry.getTime() - start.getTime()) / 86400000);
+}
+
+/**
+ * Délai lisible avant ou depuis l'expiration (ex: « dans 12 jours », « expirée depuis 3 jours »)
+ */
+export function formatExpiryDelay(days: number): string {
+  if (days === 0) return "expire aujourd'hui";
+  if (days === 1) return 'expire demain';
+  if (days > 0) return `dans ${days} jours`;
+  return days === -1 ? 'expirée depuis hier' : `expirée depuis ${-days} jours`;
+}
@@ -0,0 +1,52 @@
+// Libellés français des types de véhicules renvoyés par le moteur de reconnaissance
+const VEHICLE_TYPE_LABELS: Record<string, string> = {
+  'sedan': 'Berline',
+  'suv': 'VUS',
+  'pickup truck': 'Camionnette',
+  'van': 'Fourgonnette',
+  'big truck': 'Camion',
+  'bus': 'Autobus',
+  'motorcycle': 'Moto',
+  'unknown': 'Inconnu'
+};
+
+// Libellés français des couleurs de véhicules
+const VEHICLE_COLOR_LABELS: Record<string, string> = {
+  'black': 'Noir',
+  'blue': 'Bleu',
+  'brown': 'Brun',
+  'green': 'Vert',
+  'red': 'Rouge',
+  'silver': 'Argent',
+  'white': 'Blanc',
+  'yellow': 'Jaune',
+  'orange': 'Orange',
+  'gold': 'Or',
+  'purple': 'Violet',
+  'gray': 'Gris',
+  'grey': 'Gris',
+  'beige': 'Beige'
+};
+
+export function getVehicleTypeFrenchLabel(type?: string | null): string {
+  if (!type) return 'Inconnu';
+  return VEHICLE_TYPE_LABELS[type.toLowerCase()] || type;
+}
+
+export function getVehicleColorFrenchLabel(color?: string | null): string {
+  if (!color) return 'Inconnue';
+  return VEHICLE_COLOR_LABELS[color.toLowerCase()] || color;
+}
+
+/**
+ * Résumé court du véhicule (ex: "Toyota Corolla · Argent"), vide si rien n'est connu
+ */
+export function formatVehicleDescription(vehicle: {
+  vehicleMake?: string | null;
+  vehicleModel?: string | null;
+  vehicleColor?: string | null;
+}): string {
+  const makeModel = [vehicle.vehicleMake, vehicle.vehicleModel].filter(Boolean).join(' ');
+  const color = vehicle.vehicleColor ? getVehicleColorFrenchLabel(vehicle.vehicleColor) : '';
+  return [makeModel, color].filter(Boolean).join(' · ');
+}
@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import Header from "@/components/layout/Header";
 import Footer from "@/components/layout/Footer";
 import Scanner from "@/components/Scanner";
@@ -7,31 +7,49 @@ import RecentScans from "@/components/RecentScans";
 import StatusPanel from "@/components/StatusPanel";
 import StatisticsPanel from "@/components/StatisticsPanel";
 import AudioNotifications from "@/components/AudioNotifications";
+import HotlistAlert from "@/components/HotlistAlert";
 import { usePlateContext } from "@/contexts/PlateContext";
 import { useWebSocket } from "@/hooks/use-websocket";
 
 export default function Home() {
   const { connected, messages } = useWebSocket();
-  const { setWebSocketConnected, handlePlateDetection } = usePlateContext();
+  const { setWebSocketConnected, handlePlateDetection, setRecognitionError, handleHotlistAlert } = usePlateContext();
+  // Nombre de messages déjà traités : une alerte et une détection peuvent arriver ensemble
+  const processedCount = useRef(0);
   
   useEffect(() => {
     setWebSocketConnected(connected);
   }, [connected, setWebSocketConnected]);
   
   useEffect(() => {
-    if (messages.length > 0) {
-      const latestMessage = messages[messages.length - 1];
-      if (latestMessage.type === "PLATE_DETECTED" || latestMessage.type === "PLATE_VALIDATED") {
-        handlePlateDetection(latestMessage.data);
+    const newMessages = messages.slice(processedCount.current);
+    processedCount.current = messages.length;
+    
+    newMessages.forEach(message => {
+      if (message.type === "PLATE_DETECTED" || message.type === "PLATE_VALIDATED") {
+        handlePlateDetection(message.data);
+      } else if (message.type === "HOTLIST_ALERT") {
+        handleHotlistAlert(message.data);
+      } else if (message.type === "ERROR" && message.data?.code) {
+        // Panne d'un moteur de reconnaissance signalée par le serveur
+        setRecognitionError({
+          code: message.data.code,
+          engine: message.data.engine,
+          message: message.error || "",
+          degraded: Boolean(message.data.degraded),
+          retryAfterMs: message.data.retryAfterMs
+        });
       }
-    }
-  }, [messages, handlePlateDetection]);
+    });
+  }, [messages, handlePlateDetection, handleHotlistAlert, setRecognitionError]);
 
   return (
     <div className="min-h-screen flex flex-col bg-background">
       <Header />
       
       <main className="flex-1 container mx-auto px-4 py-6">
+        <HotlistAlert />
+        
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           
           <div className="lg:col-span-2 space-y-6">
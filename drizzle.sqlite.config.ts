@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Postes autonomes : même schéma que drizzle.config.ts, transposé pour SQLite
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./server/sqlite-schema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH || "data/anpr.sqlite",
+  },
+});
@@ -0,0 +1,81 @@
+CREATE TABLE "hotlist_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"hotlist_id" integer NOT NULL,
+	"plate_number" text NOT NULL,
+	"plate_key" text NOT NULL,
+	"region" text,
+	"reason" text NOT NULL,
+	"priority" text NOT NULL,
+	"notes" text,
+	"expires_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "hotlists" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"source" text NOT NULL,
+	"description" text,
+	"active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "license_plates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"plate_number" text NOT NULL,
+	"plate_key" text NOT NULL,
+	"region" text,
+	"status" text NOT NULL,
+	"detection_type" text NOT NULL,
+	"detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"details" text,
+	"alternates" jsonb,
+	"vehicle_type" text,
+	"vehicle_make" text,
+	"vehicle_model" text,
+	"vehicle_color" text,
+	"camera_id" text,
+	"zone" text,
+	"permit_status" text,
+	"registration_expires_at" date,
+	"owner_class" text,
+	"registered_vehicle" text,
+	"category" text,
+	"confidence" real,
+	"read_count" integer DEFAULT 1 NOT NULL,
+	"last_seen_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "permits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"plate_number" text NOT NULL,
+	"plate_key" text NOT NULL,
+	"region" text,
+	"zone" text,
+	"permit_type" text NOT NULL,
+	"holder_name" text,
+	"valid_from" timestamp with time zone DEFAULT now() NOT NULL,
+	"valid_until" timestamp with time zone,
+	"time_windows" jsonb,
+	"notes" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "plate_reads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"plate_id" integer NOT NULL,
+	"track_id" text NOT NULL,
+	"plate_number" text NOT NULL,
+	"region" text,
+	"confidence" real NOT NULL,
+	"bounding_box" jsonb,
+	"engine" text,
+	"camera_id" text,
+	"read_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "hotlist_entries" ADD CONSTRAINT "hotlist_entries_hotlist_id_hotlists_id_fk" FOREIGN KEY ("hotlist_id") REFERENCES "public"."hotlists"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "plate_reads" ADD CONSTRAINT "plate_reads_plate_id_license_plates_id_fk" FOREIGN KEY ("plate_id") REFERENCES "public"."license_plates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "hotlist_entries_plate_key_idx" ON "hotlist_entries" USING btree ("plate_key");--> statement-breakpoint
+CREATE INDEX "license_plates_plate_key_idx" ON "license_plates" USING btree ("plate_key");--> statement-breakpoint
+CREATE INDEX "permits_plate_key_idx" ON "permits" USING btree ("plate_key");
\ No newline at end of file
@@ -0,0 +1,46 @@
+CREATE TABLE "status_checks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"vehicle_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"details" text,
+	"registration_expires_at" date,
+	"owner_class" text,
+	"registered_vehicle" text,
+	"checked_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "vehicles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"plate_key" text NOT NULL,
+	"plate_number" text NOT NULL,
+	"region" text NOT NULL,
+	"category" text,
+	"first_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"last_seen_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vehicles_plate_key_region_unique" UNIQUE("plate_key","region")
+);
+--> statement-breakpoint
+ALTER TABLE "license_plates" ADD COLUMN "vehicle_id" integer;--> statement-breakpoint
+ALTER TABLE "license_plates" ADD COLUMN "status_check_id" integer;--> statement-breakpoint
+ALTER TABLE "status_checks" ADD CONSTRAINT "status_checks_vehicle_id_vehicles_id_fk" FOREIGN KEY ("vehicle_id") REFERENCES "public"."vehicles"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "status_checks_vehicle_id_idx" ON "status_checks" USING btree ("vehicle_id");--> statement-breakpoint
+ALTER TABLE "license_plates" ADD CONSTRAINT "license_plates_vehicle_id_vehicles_id_fk" FOREIGN KEY ("vehicle_id") REFERENCES "public"."vehicles"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "license_plates" ADD CONSTRAINT "license_plates_status_check_id_status_checks_id_fk" FOREIGN KEY ("status_check_id") REFERENCES "public"."status_checks"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "license_plates_vehicle_id_idx" ON "license_plates" USING btree ("vehicle_id");--> statement-breakpoint
+-- Reprise des observations existantes : un véhicule par clé normalisée et par région, avec le statut de sa dernière observation
+INSERT INTO "vehicles" ("plate_key", "plate_number", "region", "category", "first_seen_at", "last_seen_at")
+SELECT "plate_key", "plate_number", "vehicle_region", "category", "first_seen_at", "last_seen_at_max" FROM (
+	SELECT *,
+		COALESCE("region", 'Inconnu') AS "vehicle_region",
+		MIN("detected_at") OVER (PARTITION BY "plate_key", COALESCE("region", 'Inconnu')) AS "first_seen_at",
+		MAX(COALESCE("last_seen_at", "detected_at")) OVER (PARTITION BY "plate_key", COALESCE("region", 'Inconnu')) AS "last_seen_at_max",
+		ROW_NUMBER() OVER (PARTITION BY "plate_key", COALESCE("region", 'Inconnu') ORDER BY "detected_at" DESC, "id" DESC) AS "rank"
+	FROM "license_plates"
+) AS "latest" WHERE "rank" = 1;--> statement-breakpoint
+UPDATE "license_plates" SET "vehicle_id" = (SELECT "id" FROM "vehicles" WHERE "vehicles"."plate_key" = "license_plates"."plate_key" AND "vehicles"."region" = COALESCE("license_plates"."region", 'Inconnu'));--> statement-breakpoint
+INSERT INTO "status_checks" ("vehicle_id", "status", "details", "registration_expires_at", "owner_class", "registered_vehicle", "checked_at")
+SELECT "vehicle_id", "status", "details", "registration_expires_at", "owner_class", "registered_vehicle", "detected_at" FROM (
+	SELECT *, ROW_NUMBER() OVER (PARTITION BY "vehicle_id" ORDER BY "detected_at" DESC, "id" DESC) AS "rank"
+	FROM "license_plates"
+) AS "latest" WHERE "rank" = 1;--> statement-breakpoint
+UPDATE "license_plates" SET "status_check_id" = (SELECT "id" FROM "status_checks" WHERE "status_checks"."vehicle_id" = "license_plates"."vehicle_id");
@@ -0,0 +1,15 @@
+CREATE TABLE "purge_audits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"trigger" text NOT NULL,
+	"started_at" timestamp with time zone NOT NULL,
+	"completed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"sightings_deleted" integer DEFAULT 0 NOT NULL,
+	"reads_deleted" integer DEFAULT 0 NOT NULL,
+	"status_checks_deleted" integer DEFAULT 0 NOT NULL,
+	"vehicles_deleted" integer DEFAULT 0 NOT NULL,
+	"policies" jsonb NOT NULL,
+	"error" text
+);
+--> statement-breakpoint
+ALTER TABLE "license_plates" ADD COLUMN "hotlist_hit" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "license_plates_detected_at_idx" ON "license_plates" USING btree ("detected_at");
\ No newline at end of file
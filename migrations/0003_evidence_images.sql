@@ -0,0 +1,14 @@
+CREATE TABLE "evidence_images" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sighting_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"storage_key" text NOT NULL,
+	"sha256" text NOT NULL,
+	"content_type" text NOT NULL,
+	"byte_size" integer NOT NULL,
+	"captured_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "purge_audits" ADD COLUMN "images_deleted" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "evidence_images" ADD CONSTRAINT "evidence_images_sighting_id_license_plates_id_fk" FOREIGN KEY ("sighting_id") REFERENCES "public"."license_plates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "evidence_images_sighting_id_idx" ON "evidence_images" USING btree ("sighting_id");
\ No newline at end of file
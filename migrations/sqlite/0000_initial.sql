@@ -0,0 +1,80 @@
+CREATE TABLE `hotlist_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`hotlist_id` integer NOT NULL,
+	`plate_number` text NOT NULL,
+	`plate_key` text NOT NULL,
+	`region` text,
+	`reason` text NOT NULL,
+	`priority` text NOT NULL,
+	`notes` text,
+	`expires_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`hotlist_id`) REFERENCES `hotlists`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `hotlist_entries_plate_key_idx` ON `hotlist_entries` (`plate_key`);--> statement-breakpoint
+CREATE TABLE `hotlists` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`source` text NOT NULL,
+	`description` text,
+	`active` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `license_plates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`plate_number` text NOT NULL,
+	`plate_key` text NOT NULL,
+	`region` text,
+	`status` text NOT NULL,
+	`detection_type` text NOT NULL,
+	`detected_at` integer NOT NULL,
+	`details` text,
+	`alternates` text,
+	`vehicle_type` text,
+	`vehicle_make` text,
+	`vehicle_model` text,
+	`vehicle_color` text,
+	`camera_id` text,
+	`zone` text,
+	`permit_status` text,
+	`registration_expires_at` text,
+	`owner_class` text,
+	`registered_vehicle` text,
+	`category` text,
+	`confidence` real,
+	`read_count` integer DEFAULT 1 NOT NULL,
+	`last_seen_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `license_plates_plate_key_idx` ON `license_plates` (`plate_key`);--> statement-breakpoint
+CREATE TABLE `permits` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`plate_number` text NOT NULL,
+	`plate_key` text NOT NULL,
+	`region` text,
+	`zone` text,
+	`permit_type` text NOT NULL,
+	`holder_name` text,
+	`valid_from` integer NOT NULL,
+	`valid_until` integer,
+	`time_windows` text,
+	`notes` text,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `permits_plate_key_idx` ON `permits` (`plate_key`);--> statement-breakpoint
+CREATE TABLE `plate_reads` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`plate_id` integer NOT NULL,
+	`track_id` text NOT NULL,
+	`plate_number` text NOT NULL,
+	`region` text,
+	`confidence` real NOT NULL,
+	`bounding_box` text,
+	`engine` text,
+	`camera_id` text,
+	`read_at` integer NOT NULL,
+	FOREIGN KEY (`plate_id`) REFERENCES `license_plates`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,15 @@
+CREATE TABLE `purge_audits` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`trigger` text NOT NULL,
+	`started_at` integer NOT NULL,
+	`completed_at` integer NOT NULL,
+	`sightings_deleted` integer DEFAULT 0 NOT NULL,
+	`reads_deleted` integer DEFAULT 0 NOT NULL,
+	`status_checks_deleted` integer DEFAULT 0 NOT NULL,
+	`vehicles_deleted` integer DEFAULT 0 NOT NULL,
+	`policies` text NOT NULL,
+	`error` text
+);
+--> statement-breakpoint
+ALTER TABLE `license_plates` ADD `hotlist_hit` integer DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX `license_plates_detected_at_idx` ON `license_plates` (`detected_at`);
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `evidence_images` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`sighting_id` integer NOT NULL,
+	`kind` text NOT NULL,
+	`storage_key` text NOT NULL,
+	`sha256` text NOT NULL,
+	`content_type` text NOT NULL,
+	`byte_size` integer NOT NULL,
+	`captured_at` integer NOT NULL,
+	FOREIGN KEY (`sighting_id`) REFERENCES `license_plates`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `evidence_images_sighting_id_idx` ON `evidence_images` (`sighting_id`);--> statement-breakpoint
+ALTER TABLE `purge_audits` ADD `images_deleted` integer DEFAULT 0 NOT NULL;
\ No newline at end of file
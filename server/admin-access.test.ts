@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+import { hasAdminAccess } from './admin-access';
+
+function requestWithAuthorization(authorization?: string): Request {
+  return { headers: authorization === undefined ? {} : { authorization } } as Request;
+}
+
+// Exécute le test avec ADMIN_TOKEN et NODE_ENV donnés, puis restaure l'environnement
+function withEnvironment(env: { ADMIN_TOKEN?: string; NODE_ENV?: string }, run: () => void): void {
+  const saved = { ADMIN_TOKEN: process.env.ADMIN_TOKEN, NODE_ENV: process.env.NODE_ENV };
+  const apply = (values: typeof env) => {
+    for (const [name, value] of Object.entries(values)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  };
+
+  apply(env);
+  try {
+    run();
+  } finally {
+    apply(saved);
+  }
+}
+
+test("hasAdminAccess n'accepte que le jeton configuré", () => {
+  withEnvironment({ ADMIN_TOKEN: 'jeton-admin', NODE_ENV: 'development' }, () => {
+    assert.equal(hasAdminAccess(requestWithAuthorization('Bearer jeton-admin')), true);
+    assert.equal(hasAdminAccess(requestWithAuthorization('Bearer autre-jeton')), false);
+    assert.equal(hasAdminAccess(requestWithAuthorization('Basic jeton-admin')), false);
+    assert.equal(hasAdminAccess(requestWithAuthorization('Bearer')), false);
+    assert.equal(hasAdminAccess(requestWithAuthorization()), false);
+  });
+});
+
+test("hasAdminAccess sans jeton configuré n'ouvre l'administration qu'en développement", () => {
+  withEnvironment({ ADMIN_TOKEN: undefined, NODE_ENV: undefined }, () => {
+    assert.equal(hasAdminAccess(requestWithAuthorization()), true);
+  });
+  withEnvironment({ ADMIN_TOKEN: undefined, NODE_ENV: 'production' }, () => {
+    assert.equal(hasAdminAccess(requestWithAuthorization()), false);
+    assert.equal(hasAdminAccess(requestWithAuthorization('Bearer ')), false);
+  });
+});
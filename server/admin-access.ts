@@ -0,0 +1,30 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+/**
+ * Vérifie le jeton d'administration (en-tête « Authorization: Bearer <ADMIN_TOKEN> »),
+ * en temps constant. Sans ADMIN_TOKEN, les opérations d'administration ne sont
+ * ouvertes qu'en développement.
+ */
+export function hasAdminAccess(req: Request): boolean {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    // Même règle qu'Express : sans NODE_ENV, le serveur est en développement
+    return (process.env.NODE_ENV || 'development') === 'development';
+  }
+
+  const [scheme, token] = (req.headers.authorization || '').split(' ');
+  return scheme === 'Bearer' && token !== undefined && crypto.timingSafeEqual(digest(token), digest(adminToken));
+}
+
+// Réservé aux modifications des listes de surveillance, des permis et à la purge
+export function requireAdminAccess(req: Request, res: Response, next: NextFunction) {
+  if (!hasAdminAccess(req)) {
+    return res.status(401).json({ error: 'Administration requires an admin token' });
+  }
+  next();
+}
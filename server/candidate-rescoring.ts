@@ -0,0 +1,49 @@
+import { PlateCandidate } from '@shared/schema';
+import { COUNTRY_REGION_NAMES, getJurisdiction, getJurisdictionsForRegion, matchPlateFormats } from '@shared/plate-formats';
+
+// Pénalité appliquée à une lecture qui ne respecte aucun format du pays de la région
+const COUNTRY_MISMATCH_FACTOR = 0.5;
+// Pénalité appliquée à une lecture qui ne respecte aucun format standard de la région
+const REGION_MISMATCH_FACTOR = 0.85;
+
+/**
+ * Calcule le facteur d'adéquation (entre 0 et 1) d'une lecture avec la région.
+ * La lecture doit respecter un format du pays (de n'importe quelle juridiction si
+ * la région est inconnue) ; pour une province ou un État, un format standard de
+ * la juridiction départage en plus les confusions OCR (ex: B/8).
+ */
+export function getRegionFit(plateNumber: string, region: string): number {
+  const jurisdiction = getJurisdiction(region);
+  const countryRegion = jurisdiction ? COUNTRY_REGION_NAMES[jurisdiction.country] : region;
+
+  let fit = matchPlateFormats(plateNumber, getJurisdictionsForRegion(countryRegion)).length > 0
+    ? 1
+    : COUNTRY_MISMATCH_FACTOR;
+
+  if (jurisdiction && matchPlateFormats(plateNumber, [jurisdiction], ['standard']).length === 0) {
+    fit *= REGION_MISMATCH_FACTOR;
+  }
+
+  return fit;
+}
+
+/**
+ * Réordonne les lectures candidates selon leur score pondéré par l'adéquation
+ * avec les formats attendus de la région détectée.
+ * @returns Les candidats du plus probable au moins probable, avec leur score ajusté
+ */
+export function rescoreCandidates(candidates: PlateCandidate[], region: string): PlateCandidate[] {
+  const unique = new Map<string, PlateCandidate>();
+
+  for (const candidate of candidates) {
+    const plateNumber = candidate.plateNumber.toUpperCase();
+    const score = candidate.score * getRegionFit(plateNumber, region);
+    const existing = unique.get(plateNumber);
+
+    if (!existing || existing.score < score) {
+      unique.set(plateNumber, { plateNumber, score });
+    }
+  }
+
+  return Array.from(unique.values()).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,388 @@
+import { and, asc, count, countDistinct, desc, eq, gt, inArray, isNull, notExists, or, sql } from 'drizzle-orm';
+import {
+  licensePlates,
+  vehicles,
+  statusChecks,
+  plateReads,
+  hotlists,
+  hotlistEntries,
+  permits,
+  purgeAudits,
+  evidenceImages,
+  type LicensePlate,
+  type InsertLicensePlate,
+  type PlateRead,
+  type InsertPlateRead,
+  type Hotlist,
+  type InsertHotlist,
+  type HotlistEntry,
+  type InsertHotlistEntry,
+  type Permit,
+  type InsertPermit,
+  type PlateCategory,
+  type Vehicle,
+  type InsertVehicle,
+  type StatusCheck,
+  type InsertStatusCheck,
+  type PurgeAudit,
+  type InsertPurgeAudit,
+  type EvidenceImage,
+  type InsertEvidenceImage,
+  type StatsBucket
+} from '@shared/schema';
+import { migrateDatabase, type Database } from './db';
+import { SqlStorage } from './sql-storage';
+import type { IStorage } from './storage';
+import { normalizePlateKey } from './plate-normalization';
+import { toStatusCheck, isSameStatus } from './vehicle-records';
+import { sightingSearchCondition, sightingSearchOrder, type SightingSearch } from './sighting-search';
+import { sightingAggregationCondition, sightingGroupExpression, type SightingAggregation } from './sighting-stats';
+import { retentionRuleCondition, type SightingPurge, type SightingRetentionRule } from './retention';
+
+// Stockage PostgreSQL : règles de SqlStorage, transactions asynchrones
+export class DatabaseStorage extends SqlStorage implements IStorage {
+  constructor(private readonly db: Database) {
+    super();
+  }
+
+  async migrate(): Promise<void> {
+    await migrateDatabase(this.db);
+  }
+
+  // Rattache l'observation au véhicule et enregistre le statut constaté
+  async createLicensePlate(plateData: InsertLicensePlate): Promise<LicensePlate> {
+    const { sighting, vehicle: vehicleData, status } = this.prepareSighting(plateData);
+    const { values, set } = this.vehicleUpsert(vehicles, vehicleData);
+
+    return this.db.transaction(async tx => {
+      const [vehicle] = await tx.insert(vehicles).values(values)
+        .onConflictDoUpdate({ target: [vehicles.plateKey, vehicles.region], set })
+        .returning();
+      const [statusCheck] = await tx.insert(statusChecks).values(toStatusCheck(vehicle.id, status)).returning();
+      const [plate] = await tx.insert(licensePlates).values({
+        ...sighting,
+        plateKey: vehicle.plateKey,
+        vehicleId: vehicle.id,
+        statusCheckId: statusCheck.id
+      }).returning();
+      return plate;
+    });
+  }
+
+  // Une lecture corrigée peut désigner un autre véhicule ; un nouveau statut est enregistré
+  async updatePlate(id: number, data: Partial<InsertLicensePlate>): Promise<LicensePlate | undefined> {
+    return this.db.transaction(async tx => {
+      const [plate] = await tx.select().from(licensePlates).where(eq(licensePlates.id, id));
+      if (!plate) return undefined;
+
+      const { changes, vehicle: vehicleData, status } = this.prepareCorrection(plate, data);
+      const { values, set } = this.vehicleUpsert(vehicles, vehicleData);
+      const [vehicle] = await tx.insert(vehicles).values(values)
+        .onConflictDoUpdate({ target: [vehicles.plateKey, vehicles.region], set })
+        .returning();
+      const statusCheckId = vehicle.id !== plate.vehicleId || !isSameStatus(plate, status)
+        ? (await tx.insert(statusChecks).values(toStatusCheck(vehicle.id, status)).returning())[0].id
+        : plate.statusCheckId;
+
+      const [updatedPlate] = await tx.update(licensePlates).set({
+        ...changes,
+        plateKey: vehicle.plateKey,
+        vehicleId: vehicle.id,
+        statusCheckId
+      }).where(eq(licensePlates.id, id)).returning();
+      return updatedPlate;
+    });
+  }
+
+  // Supprime la liste et toutes ses entrées
+  async deleteHotlist(id: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      await tx.delete(hotlistEntries).where(eq(hotlistEntries.hotlistId, id));
+      const deleted = await tx.delete(hotlists).where(eq(hotlists.id, id)).returning({ id: hotlists.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Supprime les observations avec leurs lectures brutes et leurs images, puis les
+  // véhicules qui n'ont plus aucune observation avec leur historique de statuts
+  async purgeSightings(rule: SightingRetentionRule): Promise<SightingPurge> {
+    const condition = retentionRuleCondition(licensePlates, rule);
+
+    return this.db.transaction(async tx => {
+      const purgedIds = tx.select({ id: licensePlates.id }).from(licensePlates).where(condition);
+      const reads = await tx.delete(plateReads).where(inArray(plateReads.plateId, purgedIds)).returning({ id: plateReads.id });
+      const images = await tx.delete(evidenceImages).where(inArray(evidenceImages.sightingId, purgedIds)).returning({ storageKey: evidenceImages.storageKey });
+      const sightings = await tx.delete(licensePlates).where(condition).returning({ id: licensePlates.id });
+
+      const withoutSightings = notExists(tx.select({ id: licensePlates.id }).from(licensePlates)
+        .where(eq(licensePlates.vehicleId, vehicles.id)));
+      const orphanedIds = tx.select({ id: vehicles.id }).from(vehicles).where(withoutSightings);
+      const checks = await tx.delete(statusChecks).where(inArray(statusChecks.vehicleId, orphanedIds)).returning({ id: statusChecks.id });
+      const deletedVehicles = await tx.delete(vehicles).where(withoutSightings).returning({ id: vehicles.id });
+
+      return {
+        sightings: sightings.length,
+        reads: reads.length,
+        statusChecks: checks.length,
+        vehicles: deletedVehicles.length,
+        imageKeys: images.map(image => image.storageKey)
+      };
+    });
+  }
+
+  async getPlateById(id: number): Promise<LicensePlate | undefined> {
+    const [plate] = await this.db.select().from(licensePlates).where(eq(licensePlates.id, id));
+    return plate;
+  }
+
+  async getRecentPlates(limit: number, filter: { category?: PlateCategory } = {}): Promise<LicensePlate[]> {
+    return this.db.select().from(licensePlates)
+      .where(filter.category ? eq(licensePlates.category, filter.category) : undefined)
+      .orderBy(desc(licensePlates.detectedAt))
+      .limit(limit);
+  }
+
+  async getAllPlates(): Promise<LicensePlate[]> {
+    return this.db.select().from(licensePlates);
+  }
+
+  // Page de l'historique : filtres, tri puis observations après le curseur
+  async searchSightings(search: SightingSearch): Promise<LicensePlate[]> {
+    return this.db.select().from(licensePlates)
+      .where(sightingSearchCondition(licensePlates, search))
+      .orderBy(...sightingSearchOrder(licensePlates, search))
+      .limit(search.limit);
+  }
+
+  // Observations et véhicules distincts de la plage, par tranche
+  async aggregateSightings(aggregation: SightingAggregation): Promise<StatsBucket[]> {
+    return this.db.select({
+      key: sightingGroupExpression(licensePlates, aggregation, 'postgres'),
+      sightings: count(),
+      vehicles: countDistinct(licensePlates.vehicleId)
+    }).from(licensePlates)
+      .where(sightingAggregationCondition(licensePlates, aggregation))
+      // Regroupement sur la première colonne : ses paramètres ne seraient pas reconnus répétés
+      .groupBy(sql`1`);
+  }
+
+  // Crée le véhicule à sa première observation, puis met à jour son identité
+  async upsertVehicle(vehicleData: InsertVehicle): Promise<Vehicle> {
+    const { values, set } = this.vehicleUpsert(vehicles, vehicleData);
+    const [vehicle] = await this.db.insert(vehicles).values(values)
+      .onConflictDoUpdate({ target: [vehicles.plateKey, vehicles.region], set })
+      .returning();
+    return vehicle;
+  }
+
+  async getVehicle(id: number): Promise<Vehicle | undefined> {
+    const [vehicle] = await this.db.select().from(vehicles).where(eq(vehicles.id, id));
+    return vehicle;
+  }
+
+  // Sans région, le véhicule de cette clé vu le plus récemment, quelle que soit sa région
+  async getVehicleByKey(plateKey: string, region?: string | null): Promise<Vehicle | undefined> {
+    const [vehicle] = await this.db.select().from(vehicles)
+      .where(and(eq(vehicles.plateKey, plateKey), region ? eq(vehicles.region, region) : undefined))
+      .orderBy(desc(vehicles.lastSeenAt))
+      .limit(1);
+    return vehicle;
+  }
+
+  // Observations d'un véhicule, la plus récente en premier
+  async getVehicleSightings(vehicleId: number): Promise<LicensePlate[]> {
+    return this.db.select().from(licensePlates)
+      .where(eq(licensePlates.vehicleId, vehicleId))
+      .orderBy(desc(licensePlates.detectedAt), desc(licensePlates.id));
+  }
+
+  async createStatusCheck(checkData: InsertStatusCheck): Promise<StatusCheck> {
+    const [statusCheck] = await this.db.insert(statusChecks).values(checkData).returning();
+    return statusCheck;
+  }
+
+  // Historique des statuts d'un véhicule, le plus récent en premier
+  async getStatusChecks(vehicleId: number): Promise<StatusCheck[]> {
+    return this.db.select().from(statusChecks)
+      .where(eq(statusChecks.vehicleId, vehicleId))
+      .orderBy(desc(statusChecks.checkedAt), desc(statusChecks.id));
+  }
+
+  async createPlateRead(readData: InsertPlateRead): Promise<PlateRead> {
+    const [read] = await this.db.insert(plateReads).values(readData).returning();
+    return read;
+  }
+
+  async getPlateReads(plateId: number): Promise<PlateRead[]> {
+    return this.db.select().from(plateReads)
+      .where(eq(plateReads.plateId, plateId))
+      .orderBy(asc(plateReads.readAt));
+  }
+
+  async createEvidenceImage(imageData: InsertEvidenceImage): Promise<EvidenceImage> {
+    const [image] = await this.db.insert(evidenceImages).values(imageData).returning();
+    return image;
+  }
+
+  async getEvidenceImages(sightingId: number): Promise<EvidenceImage[]> {
+    return this.db.select().from(evidenceImages)
+      .where(eq(evidenceImages.sightingId, sightingId))
+      .orderBy(asc(evidenceImages.id));
+  }
+
+  async getHotlists(): Promise<Hotlist[]> {
+    return this.db.select().from(hotlists).orderBy(asc(hotlists.id));
+  }
+
+  async getHotlist(id: number): Promise<Hotlist | undefined> {
+    const [hotlist] = await this.db.select().from(hotlists).where(eq(hotlists.id, id));
+    return hotlist;
+  }
+
+  async createHotlist(hotlistData: InsertHotlist): Promise<Hotlist> {
+    const [hotlist] = await this.db.insert(hotlists).values(hotlistData).returning();
+    return hotlist;
+  }
+
+  async updateHotlist(id: number, data: Partial<InsertHotlist>): Promise<Hotlist | undefined> {
+    if (Object.keys(data).length === 0) {
+      return this.getHotlist(id);
+    }
+
+    const [hotlist] = await this.db.update(hotlists).set(data).where(eq(hotlists.id, id)).returning();
+    return hotlist;
+  }
+
+  async getHotlistEntries(hotlistId: number): Promise<HotlistEntry[]> {
+    return this.db.select().from(hotlistEntries)
+      .where(eq(hotlistEntries.hotlistId, hotlistId))
+      .orderBy(asc(hotlistEntries.id));
+  }
+
+  async getHotlistEntry(id: number): Promise<HotlistEntry | undefined> {
+    const [entry] = await this.db.select().from(hotlistEntries).where(eq(hotlistEntries.id, id));
+    return entry;
+  }
+
+  async createHotlistEntry(hotlistId: number, entryData: InsertHotlistEntry): Promise<HotlistEntry> {
+    const region = entryData.region || null;
+
+    const [entry] = await this.db.insert(hotlistEntries).values({
+      ...entryData,
+      hotlistId,
+      region,
+      plateKey: normalizePlateKey(entryData.plateNumber, region)
+    }).returning();
+
+    return entry;
+  }
+
+  async updateHotlistEntry(id: number, data: Partial<InsertHotlistEntry>): Promise<HotlistEntry | undefined> {
+    const entry = await this.getHotlistEntry(id);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    const plateNumber = data.plateNumber || entry.plateNumber;
+    const region = data.region !== undefined ? (data.region || null) : entry.region;
+
+    const [updatedEntry] = await this.db.update(hotlistEntries).set({
+      ...data,
+      plateNumber,
+      region,
+      plateKey: normalizePlateKey(plateNumber, region)
+    }).where(eq(hotlistEntries.id, id)).returning();
+
+    return updatedEntry;
+  }
+
+  async deleteHotlistEntry(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(hotlistEntries)
+      .where(eq(hotlistEntries.id, id))
+      .returning({ id: hotlistEntries.id });
+    return deleted.length > 0;
+  }
+
+  // Entrées des listes actives dont la date d'expiration n'est pas dépassée
+  async getActiveHotlistEntries(): Promise<HotlistEntry[]> {
+    const rows = await this.db.select({ entry: hotlistEntries })
+      .from(hotlistEntries)
+      .innerJoin(hotlists, eq(hotlistEntries.hotlistId, hotlists.id))
+      .where(and(
+        eq(hotlists.active, true),
+        or(isNull(hotlistEntries.expiresAt), gt(hotlistEntries.expiresAt, new Date()))
+      ));
+
+    return rows.map(row => row.entry);
+  }
+
+  async getPermits(filter: { zone?: string; plateKey?: string } = {}): Promise<Permit[]> {
+    return this.db.select().from(permits)
+      .where(and(
+        filter.zone !== undefined ? eq(permits.zone, filter.zone) : undefined,
+        filter.plateKey !== undefined ? eq(permits.plateKey, filter.plateKey) : undefined
+      ))
+      .orderBy(asc(permits.id));
+  }
+
+  async getPermit(id: number): Promise<Permit | undefined> {
+    const [permit] = await this.db.select().from(permits).where(eq(permits.id, id));
+    return permit;
+  }
+
+  async createPermit(permitData: InsertPermit): Promise<Permit> {
+    const region = permitData.region || null;
+
+    const [permit] = await this.db.insert(permits).values({
+      ...permitData,
+      region,
+      plateKey: normalizePlateKey(permitData.plateNumber, region)
+    }).returning();
+
+    return permit;
+  }
+
+  async updatePermit(id: number, data: Partial<InsertPermit>): Promise<Permit | undefined> {
+    const permit = await this.getPermit(id);
+
+    if (!permit) {
+      return undefined;
+    }
+
+    const plateNumber = data.plateNumber || permit.plateNumber;
+    const region = data.region !== undefined ? (data.region || null) : permit.region;
+
+    const [updatedPermit] = await this.db.update(permits).set({
+      ...data,
+      plateNumber,
+      region,
+      plateKey: normalizePlateKey(plateNumber, region)
+    }).where(eq(permits.id, id)).returning();
+
+    return updatedPermit;
+  }
+
+  async deletePermit(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(permits)
+      .where(eq(permits.id, id))
+      .returning({ id: permits.id });
+    return deleted.length > 0;
+  }
+
+  async countSightingsToPurge(rule: SightingRetentionRule): Promise<number> {
+    const [row] = await this.db.select({ total: count() }).from(licensePlates)
+      .where(retentionRuleCondition(licensePlates, rule));
+    return row.total;
+  }
+
+  async createPurgeAudit(auditData: InsertPurgeAudit): Promise<PurgeAudit> {
+    const [audit] = await this.db.insert(purgeAudits).values(auditData).returning();
+    return audit;
+  }
+
+  // Audits de purge, le plus récent en premier
+  async getPurgeAudits(limit: number): Promise<PurgeAudit[]> {
+    return this.db.select().from(purgeAudits).orderBy(desc(purgeAudits.id)).limit(limit);
+  }
+}
@@ -0,0 +1,26 @@
+import pg from 'pg';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import * as schema from '@shared/schema';
+
+// Dossier des migrations versionnées, générées par drizzle-kit (npm run db:generate)
+const MIGRATIONS_FOLDER = 'migrations';
+
+/**
+ * Ouvre un pool de connexions PostgreSQL (node-postgres, compatible avec une
+ * instance locale) et retourne le client Drizzle associé
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
+
+/**
+ * Applique les migrations qui ne l'ont pas encore été (suivies dans la table
+ * __drizzle_migrations)
+ */
+export async function migrateDatabase(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request } from 'express';
+
+process.env.EVIDENCE_SESSION_SECRET = 'secret-de-test';
+process.env.EVIDENCE_ACCESS_CODE = '4321';
+const {
+  initializeEvidenceAccess,
+  EvidenceAccessConfigurationError,
+  createSessionToken,
+  verifySessionToken,
+  checkAccessCode,
+  hasEvidenceAccess
+} = await import('./evidence-access');
+const { initializeEvidenceStore } = await import('./evidence-store');
+initializeEvidenceAccess();
+
+const HOUR_MS = 60 * 60 * 1000;
+const now = Date.UTC(2026, 9, 19, 12);
+
+function requestWithCookie(cookie?: string): Request {
+  return { headers: cookie === undefined ? {} : { cookie } } as Request;
+}
+
+test("verifySessionToken accepte un jeton jusqu'à son expiration", () => {
+  const token = createSessionToken(now);
+
+  assert.equal(verifySessionToken(token, now), true);
+  assert.equal(verifySessionToken(token, now + 11 * HOUR_MS), true);
+  assert.equal(verifySessionToken(token, now + 13 * HOUR_MS), false);
+});
+
+test('verifySessionToken refuse un jeton modifié ou mal formé', () => {
+  const [expires, signature] = createSessionToken(now).split('.');
+
+  assert.equal(verifySessionToken(`${Number(expires) + HOUR_MS}.${signature}`, now), false);
+  assert.equal(verifySessionToken(`${expires}.${signature.replace(/^./, signature[0] === '0' ? '1' : '0')}`, now), false);
+  assert.equal(verifySessionToken(`${expires}.`, now), false);
+  assert.equal(verifySessionToken('', now), false);
+  assert.equal(verifySessionToken('jeton', now), false);
+});
+
+test('checkAccessCode compare le code saisi au code configuré', () => {
+  assert.equal(checkAccessCode('4321'), true);
+  assert.equal(checkAccessCode('1234'), false);
+  assert.equal(checkAccessCode(''), false);
+});
+
+test('hasEvidenceAccess lit la session dans les cookies de la requête', () => {
+  const token = createSessionToken();
+
+  assert.equal(hasEvidenceAccess(requestWithCookie(`theme=sombre; evidence_session=${token}`)), true);
+  assert.equal(hasEvidenceAccess(requestWithCookie('evidence_session=1.abcd')), false);
+  assert.equal(hasEvidenceAccess(requestWithCookie()), false);
+});
+
+test("initializeEvidenceAccess signale la configuration manquante hors développement quand des images sont conservées", t => {
+  const nodeEnv = process.env.NODE_ENV;
+  t.after(() => {
+    if (nodeEnv === undefined) delete process.env.NODE_ENV;
+    else process.env.NODE_ENV = nodeEnv;
+    process.env.EVIDENCE_ACCESS_CODE = '4321';
+    initializeEvidenceStore('memory');
+    initializeEvidenceAccess();
+  });
+
+  process.env.NODE_ENV = 'production';
+  delete process.env.EVIDENCE_ACCESS_CODE;
+  initializeEvidenceStore('memory');
+  assert.doesNotThrow(() => initializeEvidenceAccess());
+
+  initializeEvidenceStore('sqlite');
+  assert.throws(() => initializeEvidenceAccess(), (error: unknown) =>
+    error instanceof EvidenceAccessConfigurationError && error.missing.join() === 'EVIDENCE_ACCESS_CODE');
+});
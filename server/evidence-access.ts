@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import type { Request, Response, NextFunction } from 'express';
+import { evidenceStore } from './evidence-store';
+
+// Durée d'une session d'accès aux images de preuve (une vacation par défaut)
+const EVIDENCE_SESSION_TTL_MS = parseInt(process.env.EVIDENCE_SESSION_TTL_MS || '43200000', 10);
+const SESSION_COOKIE = 'evidence_session';
+
+/**
+ * Erreur de démarrage : variables d'environnement manquantes pour servir les
+ * images de preuve hors développement
+ */
+export class EvidenceAccessConfigurationError extends Error {
+  constructor(public readonly missing: string[]) {
+    super(`Invalid configuration: ${missing.join(' and ')} must be set to serve evidence images outside development`);
+    this.name = 'EvidenceAccessConfigurationError';
+  }
+}
+
+type AccessSettings = { secret: string; accessCode: string | null };
+
+// Réglages lus par initializeEvidenceAccess() au démarrage
+let settings: AccessSettings | null = null;
+
+/**
+ * Lit la clé de signature des sessions et le code d'accès des opérateurs. Hors
+ * développement, les deux sont obligatoires dès que des images sont conservées :
+ * une clé tirée au démarrage fermerait toutes les sessions à chaque redémarrage.
+ */
+export function initializeEvidenceAccess(): void {
+  const secret = process.env.EVIDENCE_SESSION_SECRET;
+  const accessCode = process.env.EVIDENCE_ACCESS_CODE || null;
+  // Même règle qu'Express : sans NODE_ENV, le serveur est en développement
+  const isDevelopment = (process.env.NODE_ENV || 'development') === 'development';
+
+  if (evidenceStore && !isDevelopment) {
+    const missing = [
+      ...(secret ? [] : ['EVIDENCE_SESSION_SECRET']),
+      ...(accessCode ? [] : ['EVIDENCE_ACCESS_CODE'])
+    ];
+    if (missing.length > 0) {
+      throw new EvidenceAccessConfigurationError(missing);
+    }
+  }
+  if (evidenceStore && !accessCode) {
+    console.warn('EVIDENCE_ACCESS_CODE non défini : images de preuve accessibles sans authentification (développement)');
+  }
+
+  settings = { secret: secret || crypto.randomBytes(32).toString('hex'), accessCode };
+}
+
+function getSettings(): AccessSettings {
+  if (!settings) {
+    throw new Error('Evidence access is not initialized');
+  }
+  return settings;
+}
+
+function sign(expires: number): string {
+  return crypto.createHmac('sha256', getSettings().secret).update(`evidence-session:${expires}`).digest('hex');
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Jeton de session : date d'expiration et signature, sans état côté serveur
+ */
+export function createSessionToken(now = Date.now()): string {
+  const expires = now + EVIDENCE_SESSION_TTL_MS;
+  return `${expires}.${sign(expires)}`;
+}
+
+export function verifySessionToken(token: string, now = Date.now()): boolean {
+  const [expiresText, signature = ''] = token.split('.');
+  const expires = parseInt(expiresText, 10);
+  if (isNaN(expires) || expires < now) return false;
+
+  return safeEqual(Buffer.from(signature, 'hex'), Buffer.from(sign(expires), 'hex'));
+}
+
+/**
+ * Compare le code saisi au code d'accès, en temps constant
+ */
+export function checkAccessCode(code: string): boolean {
+  const { accessCode } = getSettings();
+  if (!accessCode) return true;
+
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return safeEqual(digest(code), digest(accessCode));
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const cookie of (req.headers.cookie || '').split(';')) {
+    const [key, ...value] = cookie.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+/**
+ * Vérifie que la requête porte une session d'accès valide. Sans code d'accès
+ * (développement uniquement), les images sont accessibles à tous.
+ */
+export function hasEvidenceAccess(req: Request): boolean {
+  if (!getSettings().accessCode) return true;
+
+  const token = readCookie(req, SESSION_COOKIE);
+  return token !== undefined && verifySessionToken(token);
+}
+
+export function requireEvidenceAccess(req: Request, res: Response, next: NextFunction) {
+  if (!hasEvidenceAccess(req)) {
+    return res.status(401).json({ error: 'Evidence access requires authentication' });
+  }
+  next();
+}
+
+// Cookie réservé à l'API, inaccessible aux scripts de la page
+export function openEvidenceSession(req: Request, res: Response): void {
+  res.cookie(SESSION_COOKIE, createSessionToken(), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: req.secure,
+    path: '/api',
+    maxAge: EVIDENCE_SESSION_TTL_MS
+  });
+}
+
+export function closeEvidenceSession(res: Response): void {
+  res.clearCookie(SESSION_COOKIE, { path: '/api' });
+}
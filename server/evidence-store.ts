@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { Buffer } from 'buffer';
+
+// Dossier des images de preuve du stockage local
+const DEFAULT_EVIDENCE_DIR = 'data/evidence';
+
+/**
+ * Stockage des images de preuve, indépendant de la base : les lignes
+ * evidence_images n'en conservent que la clé et l'empreinte
+ */
+export interface EvidenceStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Images conservées dans un dossier du poste ou du serveur
+export class LocalEvidenceStore implements EvidenceStore {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  // Une clé ne doit jamais désigner un fichier hors du dossier de stockage
+  private resolve(key: string): string {
+    const file = path.resolve(this.rootDir, key);
+    if (!file.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid evidence key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+/**
+ * Choisit le stockage selon EVIDENCE_STORE : « local » (dossier EVIDENCE_DIR)
+ * ou « none » (aucune image conservée). Par défaut, les images suivent la base :
+ * aucune avec le stockage en mémoire, dont les observations disparaissent à l'arrêt.
+ */
+function createEvidenceStore(storageDriver: string): EvidenceStore | null {
+  const driver = process.env.EVIDENCE_STORE || (storageDriver === 'memory' ? 'none' : 'local');
+
+  switch (driver) {
+    case 'none':
+      return null;
+    case 'local':
+      return new LocalEvidenceStore(process.env.EVIDENCE_DIR || DEFAULT_EVIDENCE_DIR);
+    default:
+      throw new Error(`Unknown evidence store: ${driver}`);
+  }
+}
+
+// Stockage des images choisi au démarrage, avec le pilote de la base
+export let evidenceStore: EvidenceStore | null = null;
+
+/**
+ * Appelé par initializeStorage() avec le pilote de stockage retenu
+ */
+export function initializeEvidenceStore(storageDriver: string): void {
+  evidenceStore = createEvidenceStore(storageDriver);
+}
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { Buffer } from 'buffer';
+import type { EvidenceImage, EvidenceKind, LicensePlate, SightingWithEvidence } from '@shared/schema';
+import type { IStorage } from './storage';
+import type { BoundingBox } from './recognition-provider';
+import { cropRegion } from './plate-detector';
+import { loadCanvas } from './native-modules';
+import { evidenceStore } from './evidence-store';
+
+const THUMBNAIL_WIDTH = 160;
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+
+/**
+ * Erreur levée quand une image ne correspond plus à l'empreinte enregistrée
+ */
+export class EvidenceIntegrityError extends Error {
+  constructor(public readonly image: EvidenceImage) {
+    super(`Evidence image ${image.storageKey} does not match its SHA-256 digest`);
+    this.name = 'EvidenceIntegrityError';
+  }
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function decodeDataUrl(image: string): { data: Buffer; contentType: string } {
+  const match = image.match(/^data:(image\/[\w.+-]+);base64,/);
+  return {
+    data: Buffer.from(match ? image.slice(match[0].length) : image, 'base64'),
+    contentType: match ? match[1] : 'image/jpeg'
+  };
+}
+
+async function storeImage(
+  storage: IStorage,
+  sightingId: number,
+  kind: EvidenceKind,
+  data: Buffer,
+  contentType: string
+): Promise<EvidenceImage> {
+  const digest = sha256(data);
+  const storageKey = `sightings/${sightingId}/${kind}-${digest}.${FILE_EXTENSIONS[contentType] || 'bin'}`;
+
+  await evidenceStore!.put(storageKey, data);
+  return storage.createEvidenceImage({
+    sightingId,
+    kind,
+    storageKey,
+    sha256: digest,
+    contentType,
+    byteSize: data.length
+  });
+}
+
+async function createThumbnail(frame: Buffer): Promise<Buffer> {
+  const { createCanvas, loadImage } = await loadCanvas();
+  const source = await loadImage(frame);
+  const scale = Math.min(1, THUMBNAIL_WIDTH / source.width);
+
+  const canvas = createCanvas(Math.round(source.width * scale), Math.round(source.height * scale));
+  canvas.getContext('2d').drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toBuffer('image/jpeg');
+}
+
+/**
+ * Conserve l'image complète ayant produit une observation, le recadrage de la
+ * plaque et une vignette. Le recadrage et la vignette demandent canvas : sans
+ * lui, seule l'image complète est gardée. Une erreur est journalisée sans
+ * interrompre la reconnaissance.
+ */
+export async function saveSightingEvidence(
+  storage: IStorage,
+  sightingId: number,
+  frameImage: string,
+  boundingBox?: BoundingBox
+): Promise<EvidenceImage[]> {
+  if (!evidenceStore) return [];
+
+  const saved: EvidenceImage[] = [];
+  const frame = decodeDataUrl(frameImage);
+
+  try {
+    saved.push(await storeImage(storage, sightingId, 'frame', frame.data, frame.contentType));
+  } catch (error) {
+    console.error(`Erreur lors de l'enregistrement de l'image de l'observation ${sightingId}:`, error);
+    return saved;
+  }
+
+  try {
+    if (boundingBox) {
+      const plate = decodeDataUrl((await cropRegion(frameImage, boundingBox)).image);
+      saved.push(await storeImage(storage, sightingId, 'plate', plate.data, plate.contentType));
+    }
+    saved.push(await storeImage(storage, sightingId, 'thumbnail', await createThumbnail(frame.data), 'image/jpeg'));
+  } catch (error) {
+    console.warn(`Recadrage ou vignette indisponible pour l'observation ${sightingId}:`,
+      error instanceof Error ? error.message : error);
+  }
+
+  return saved;
+}
+
+/**
+ * Lien vers une image de preuve ; la route exige une session d'accès aux images
+ */
+export function getEvidenceUrl(sightingId: number, kind: EvidenceKind): string {
+  return `/api/sightings/${sightingId}/image?kind=${kind}`;
+}
+
+/**
+ * Ajoute aux observations la liste de leurs images et les liens pour les afficher
+ */
+export async function withEvidence(storage: IStorage, plates: LicensePlate[]): Promise<SightingWithEvidence[]> {
+  return Promise.all(plates.map(async plate => ({
+    ...plate,
+    evidence: (await storage.getEvidenceImages(plate.id)).map(image => ({
+      kind: image.kind as EvidenceKind,
+      sha256: image.sha256,
+      url: getEvidenceUrl(plate.id, image.kind as EvidenceKind)
+    }))
+  })));
+}
+
+/**
+ * Lit une image de preuve en vérifiant qu'elle n'a pas été modifiée depuis la capture
+ */
+export async function readEvidenceImage(image: EvidenceImage): Promise<Buffer | undefined> {
+  const data = evidenceStore ? await evidenceStore.get(image.storageKey) : undefined;
+
+  if (data && sha256(data) !== image.sha256) {
+    throw new EvidenceIntegrityError(image);
+  }
+  return data;
+}
+
+/**
+ * Supprime du stockage les fichiers des images purgées, une fois leurs lignes
+ * supprimées. Une image déjà absente est ignorée.
+ */
+export async function deleteEvidenceBlobs(storageKeys: string[]): Promise<void> {
+  if (!evidenceStore) return;
+
+  for (const key of storageKeys) {
+    await evidenceStore.delete(key);
+  }
+}
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { HotlistPriority } from '@shared/schema';
+import { MemStorage } from './storage';
+import { matchHotlists } from './hotlist-matching';
+
+async function createStorage(entries: { plateNumber: string; priority: HotlistPriority; region?: string; expiresAt?: Date }[]) {
+  const storage = new MemStorage();
+  const hotlist = await storage.createHotlist({ name: 'Véhicules volés', source: 'test' });
+  for (const entry of entries) {
+    await storage.createHotlistEntry(hotlist.id, { reason: 'stolen', ...entry });
+  }
+  return storage;
+}
+
+test('matchHotlists retrouve une entrée malgré les confusions OCR', async () => {
+  const storage = await createStorage([{ plateNumber: 'CBPC 344', priority: 'high' }]);
+
+  const [match] = await matchHotlists(storage, 'C8PC344', 'Ontario');
+  assert.equal(match.matchType, 'exact');
+  assert.equal(match.distance, 0);
+});
+
+test('matchHotlists accepte une lecture à un caractère près', async () => {
+  const storage = await createStorage([{ plateNumber: 'CBPC 344', priority: 'high' }]);
+
+  const [match] = await matchHotlists(storage, 'CBPC 345');
+  assert.equal(match.matchType, 'fuzzy');
+  assert.equal(match.distance, 1);
+  assert.deepEqual(await matchHotlists(storage, 'CBPC 355'), []);
+});
+
+test('matchHotlists ne fait pas de correspondance approchée sur une clé courte', async () => {
+  const storage = await createStorage([{ plateNumber: 'AB12', priority: 'high' }]);
+
+  assert.deepEqual(await matchHotlists(storage, 'AB13'), []);
+});
+
+test('matchHotlists compare exactement les lectures alternatives', async () => {
+  const storage = await createStorage([{ plateNumber: 'XYZ 9876', priority: 'medium' }]);
+
+  const [match] = await matchHotlists(storage, 'ABC 1234', null, [{ plateNumber: 'XYZ 9876', score: 0.4 }]);
+  assert.equal(match.matchType, 'alternate');
+  assert.equal(match.matchedPlateNumber, 'XYZ 9876');
+});
+
+test('matchHotlists ignore les entrées expirées', async () => {
+  const storage = await createStorage([{ plateNumber: 'CBPC 344', priority: 'high', expiresAt: new Date(Date.now() - 1000) }]);
+
+  assert.deepEqual(await matchHotlists(storage, 'CBPC 344'), []);
+});
+
+test('matchHotlists classe par priorité, distance puis région', async () => {
+  const storage = await createStorage([
+    { plateNumber: 'CBPC 344', priority: 'medium', region: 'Québec' },
+    { plateNumber: 'CBPC 344', priority: 'medium', region: 'Ontario' },
+    { plateNumber: 'CBPC 345', priority: 'critical' },
+    { plateNumber: 'CBPC 344', priority: 'low' }
+  ]);
+
+  const matches = await matchHotlists(storage, 'CBPC 344', 'Ontario');
+  assert.deepEqual(
+    matches.map(match => [match.entry.priority, match.distance, match.entry.region]),
+    [['critical', 1, null], ['medium', 0, 'Ontario'], ['medium', 0, 'Québec'], ['low', 0, null]]
+  );
+});
@@ -0,0 +1,84 @@
+import type { HotlistMatch, HotlistPriority, PlateCandidate } from '@shared/schema';
+import type { IStorage } from './storage';
+import { normalizePlateKey, plateKeyDistance } from './plate-normalization';
+
+// Nombre maximal de caractères différents pour une correspondance approchée
+// (HOTLIST_FUZZY_MAX_DISTANCE, 1 par défaut ; 0 désactive la recherche approchée)
+const FUZZY_MAX_DISTANCE = parseInt(process.env.HOTLIST_FUZZY_MAX_DISTANCE || '1', 10);
+// En dessous de cette longueur, une clé à un caractère près désigne trop de plaques
+const FUZZY_MIN_KEY_LENGTH = 5;
+
+const PRIORITY_RANK: Record<HotlistPriority, number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+/**
+ * Rang d'une priorité, pour trier les alertes (la plus urgente en premier)
+ */
+export function hotlistPriorityRank(priority: string): number {
+  return PRIORITY_RANK[priority as HotlistPriority] ?? 0;
+}
+
+// Une entrée sans région ou de la région lue passe devant une entrée d'une autre région
+function regionRank(entryRegion: string | null, region?: string | null): number {
+  return !entryRegion || !region || entryRegion === region ? 0 : 1;
+}
+
+/**
+ * Compare une plaque reconnue aux entrées des listes de surveillance actives.
+ *
+ * La clé normalisée de la lecture est comparée exactement, puis à un caractère près
+ * (une lecture erronée d'un véhicule volé doit quand même alerter) ; les lectures
+ * alternatives du moteur ne sont comparées qu'exactement. Une entrée ne produit
+ * qu'une correspondance, la plus proche. La région ne filtre pas les entrées : elle
+ * départage seulement les correspondances de même priorité et de même distance.
+ */
+export async function matchHotlists(
+  storage: IStorage,
+  plateNumber: string,
+  region?: string | null,
+  alternates: PlateCandidate[] = []
+): Promise<HotlistMatch[]> {
+  const entries = await storage.getActiveHotlistEntries();
+  if (entries.length === 0) return [];
+
+  const hotlists = new Map((await storage.getHotlists()).map(hotlist => [hotlist.id, hotlist]));
+  const plateKey = normalizePlateKey(plateNumber, region);
+  const alternateKeys = alternates.map(alternate => ({
+    plateNumber: alternate.plateNumber,
+    plateKey: normalizePlateKey(alternate.plateNumber, region)
+  }));
+
+  const matches: HotlistMatch[] = [];
+
+  for (const entry of entries) {
+    const hotlist = hotlists.get(entry.hotlistId);
+    if (!hotlist) continue;
+
+    if (entry.plateKey === plateKey) {
+      matches.push({ entry, hotlist, matchType: 'exact', matchedPlateNumber: plateNumber, distance: 0 });
+      continue;
+    }
+
+    const alternate = alternateKeys.find(candidate => candidate.plateKey === entry.plateKey);
+    if (alternate) {
+      matches.push({ entry, hotlist, matchType: 'alternate', matchedPlateNumber: alternate.plateNumber, distance: 0 });
+      continue;
+    }
+
+    if (
+      FUZZY_MAX_DISTANCE > 0 &&
+      Math.min(plateKey.length, entry.plateKey.length) >= FUZZY_MIN_KEY_LENGTH &&
+      Math.abs(plateKey.length - entry.plateKey.length) <= FUZZY_MAX_DISTANCE
+    ) {
+      const distance = plateKeyDistance(plateKey, entry.plateKey);
+      if (distance <= FUZZY_MAX_DISTANCE) {
+        matches.push({ entry, hotlist, matchType: 'fuzzy', matchedPlateNumber: plateNumber, distance });
+      }
+    }
+  }
+
+  return matches.sort((a, b) =>
+    hotlistPriorityRank(b.entry.priority) - hotlistPriorityRank(a.entry.priority) ||
+    a.distance - b.distance ||
+    regionRank(a.entry.region, region) - regionRank(b.entry.region, region)
+  );
+}
@@ -0,0 +1,264 @@
+import fs from 'fs';
+import path from 'path';
+import { Buffer } from 'buffer';
+import type { Canvas, ImageData } from 'canvas';
+import { PreprocessingConfig } from '@shared/schema';
+import { loadCanvas, CanvasModule } from './native-modules';
+
+// Image intermédiaire produite par une étape, renvoyée en mode débogage
+export interface DebugImage {
+  stage: string;
+  image: string;
+}
+
+// Image prête pour l'OCR et transformation permettant de replacer les boîtes
+// dans le repère de l'image d'origine : original = offset + traité / scale
+export interface PreprocessingResult {
+  image: string;
+  offset: { x: number; y: number };
+  scale: number;
+  debugImages: DebugImage[];
+}
+
+// Angle maximal (en degrés) recherché pour le redressement automatique
+const MAX_DESKEW_ANGLE = 10;
+// Largeur de l'image réduite utilisée pour estimer l'inclinaison
+const DESKEW_SAMPLE_WIDTH = 320;
+
+/**
+ * Indique si au moins une étape de prétraitement est activée
+ */
+export function isPreprocessingEnabled(config: PreprocessingConfig): boolean {
+  return Boolean(config.roi || config.maxWidth || config.deskew ||
+    config.grayscale || config.normalizeContrast || config.sharpen);
+}
+
+function toDataUrl(canvas: Canvas): string {
+  return `data:image/jpeg;base64,${canvas.toBuffer('image/jpeg').toString('base64')}`;
+}
+
+function luminance(data: Uint8ClampedArray, index: number): number {
+  return 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+}
+
+/**
+ * Applique une fonction sur les pixels du canvas
+ */
+function transformPixels(canvas: Canvas, transform: (imageData: ImageData) => void) {
+  const context = canvas.getContext('2d');
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  transform(imageData);
+  context.putImageData(imageData, 0, 0);
+}
+
+function applyGrayscale(imageData: ImageData) {
+  const { data } = imageData;
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = luminance(data, i);
+    data[i] = data[i + 1] = data[i + 2] = gray;
+  }
+}
+
+/**
+ * Étire l'histogramme de luminance entre les 1er et 99e centiles
+ * (utile de nuit et en cas d'éblouissement)
+ */
+function applyContrastNormalization(imageData: ImageData) {
+  const { data } = imageData;
+  const histogram = new Array<number>(256).fill(0);
+  const pixelCount = data.length / 4;
+
+  for (let i = 0; i < data.length; i += 4) {
+    histogram[Math.round(luminance(data, i))]++;
+  }
+
+  let low = 0, high = 255, cumulated = 0;
+  for (let level = 0; level < 256; level++) {
+    cumulated += histogram[level];
+    if (cumulated <= pixelCount * 0.01) low = level;
+    if (cumulated < pixelCount * 0.99) high = level + 1;
+  }
+
+  if (high <= low) return;
+
+  const factor = 255 / (high - low);
+  for (let i = 0; i < data.length; i += 4) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[i + channel] = (data[i + channel] - low) * factor;
+    }
+  }
+}
+
+/**
+ * Renforce les contours avec un noyau de netteté 3x3
+ */
+function applySharpen(imageData: ImageData) {
+  const { data, width, height } = imageData;
+  const source = new Uint8ClampedArray(data);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        const i = index + channel;
+        data[i] = 5 * source[i]
+          - source[i - 4] - source[i + 4]
+          - source[i - width * 4] - source[i + width * 4];
+      }
+    }
+  }
+}
+
+/**
+ * Estime l'inclinaison du texte : l'angle qui maximise la variance de la
+ * projection horizontale des pixels sombres est celui où les lignes sont droites.
+ */
+function estimateSkewAngle(canvasModule: CanvasModule, canvas: Canvas): number {
+  const scale = Math.min(1, DESKEW_SAMPLE_WIDTH / canvas.width);
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+
+  const sample = canvasModule.createCanvas(width, height);
+  const context = sample.getContext('2d');
+  context.drawImage(canvas, 0, 0, width, height);
+  const { data } = context.getImageData(0, 0, width, height);
+
+  // Pixels sombres (seuil à la luminance moyenne)
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) total += luminance(data, i);
+  const threshold = total / (data.length / 4);
+
+  const points: [number, number][] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance(data, (y * width + x) * 4) < threshold) points.push([x, y]);
+    }
+  }
+
+  let bestAngle = 0;
+  let bestVariance = -1;
+
+  for (let angle = -MAX_DESKEW_ANGLE; angle <= MAX_DESKEW_ANGLE; angle++) {
+    const radians = angle * Math.PI / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Map<number, number>();
+
+    for (const [x, y] of points) {
+      const row = Math.round(y * cos - x * sin);
+      rows.set(row, (rows.get(row) || 0) + 1);
+    }
+
+    const counts = Array.from(rows.values());
+    const mean = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+    const variance = counts.reduce((sum, count) => sum + (count - mean) ** 2, 0) / counts.length;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      bestAngle = angle;
+    }
+  }
+
+  return bestAngle;
+}
+
+/**
+ * Prétraite une image avant l'OCR selon la configuration du profil :
+ * recadrage (ROI), réduction, redressement, niveaux de gris, contraste, netteté.
+ * @param debug - Conserver les images intermédiaires de chaque étape
+ */
+export async function preprocessImage(
+  imageBase64: string,
+  config: PreprocessingConfig,
+  debug = false
+): Promise<PreprocessingResult> {
+  const unchanged: PreprocessingResult = { image: imageBase64, offset: { x: 0, y: 0 }, scale: 1, debugImages: [] };
+
+  if (!isPreprocessingEnabled(config)) {
+    return unchanged;
+  }
+
+  const canvasModule = await loadCanvas();
+  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  const source = await canvasModule.loadImage(Buffer.from(base64Data, 'base64'));
+
+  const debugImages: DebugImage[] = [];
+  const keep = (stage: string, canvas: Canvas) => {
+    if (debug) debugImages.push({ stage, image: toDataUrl(canvas) });
+  };
+
+  // Recadrage sur la zone d'intérêt
+  const roi = config.roi || { x: 0, y: 0, width: 1, height: 1 };
+  const offset = {
+    x: Math.round(roi.x * source.width),
+    y: Math.round(roi.y * source.height)
+  };
+  const roiWidth = Math.max(1, Math.min(source.width - offset.x, Math.round(roi.width * source.width)));
+  const roiHeight = Math.max(1, Math.min(source.height - offset.y, Math.round(roi.height * source.height)));
+
+  // Réduction de la taille si l'image est plus large que maxWidth
+  const scale = config.maxWidth && roiWidth > config.maxWidth ? config.maxWidth / roiWidth : 1;
+  const width = Math.round(roiWidth * scale);
+  const height = Math.round(roiHeight * scale);
+
+  let canvas = canvasModule.createCanvas(width, height);
+  canvas.getContext('2d').drawImage(source, offset.x, offset.y, roiWidth, roiHeight, 0, 0, width, height);
+  if (config.roi || scale !== 1) keep('roi', canvas);
+
+  // Redressement (les boîtes renvoyées restent approximatives pour de petits angles)
+  if (config.deskew) {
+    const angle = estimateSkewAngle(canvasModule, canvas);
+    if (angle !== 0) {
+      const rotated = canvasModule.createCanvas(width, height);
+      const context = rotated.getContext('2d');
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+      context.translate(width / 2, height / 2);
+      context.rotate(-angle * Math.PI / 180);
+      context.drawImage(canvas, -width / 2, -height / 2);
+      canvas = rotated;
+    }
+    keep('deskew', canvas);
+  }
+
+  if (config.grayscale) {
+    transformPixels(canvas, applyGrayscale);
+    keep('grayscale', canvas);
+  }
+
+  if (config.normalizeContrast) {
+    transformPixels(canvas, applyContrastNormalization);
+    keep('contrast', canvas);
+  }
+
+  if (config.sharpen) {
+    transformPixels(canvas, applySharpen);
+    keep('sharpen', canvas);
+  }
+
+  if (debugImages.length > 0) {
+    await saveDebugImages(debugImages);
+  }
+
+  return { image: toDataUrl(canvas), offset, scale, debugImages };
+}
+
+/**
+ * Enregistre les images intermédiaires sur disque si PREPROCESSING_DEBUG_DIR est défini
+ */
+async function saveDebugImages(debugImages: DebugImage[]) {
+  const directory = process.env.PREPROCESSING_DEBUG_DIR;
+  if (!directory) return;
+
+  try {
+    await fs.promises.mkdir(directory, { recursive: true });
+    const prefix = new Date().toISOString().replace(/[:.]/g, '-');
+
+    await Promise.all(debugImages.map(({ stage, image }, index) => fs.promises.writeFile(
+      path.join(directory, `${prefix}-${index}-${stage}.jpg`),
+      Buffer.from(image.replace(/^data:image\/\w+;base64,/, ''), 'base64')
+    )));
+  } catch (error) {
+    console.error('Erreur lors de l\'enregistrement des images de débogage:', error);
+  }
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { initializeStorage, storage } from "./storage";
+import { startRetentionSchedule } from "./retention";
 
 const app = express();
 app.use(express.json({ limit: '50mb' }));
@@ -37,6 +39,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initializeStorage();
+  startRetentionSchedule(storage);
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
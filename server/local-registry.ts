@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { RegistrationRecord, registrationRecordSchema } from '@shared/schema';
+import { RegistryProvider, registryKey } from './registry-provider';
+import { normalizePlateKey } from './plate-normalization';
+import { isKnownStatus } from './status-catalogue';
+
+// Fichier chargé si REGISTRY_FILES n'est pas défini (données de démonstration)
+const DEFAULT_REGISTRY_FILE = 'server/data/registry.csv';
+
+// Correspondance entre les en-têtes CSV et les champs d'une fiche
+const CSV_COLUMNS: Record<string, keyof RegistrationRecord> = {
+  plate_number: 'plateNumber',
+  region: 'region',
+  status: 'status',
+  expires_at: 'expiresAt',
+  owner_class: 'ownerClass',
+  vehicle_description: 'vehicleDescription',
+  notes: 'notes'
+};
+
+let records: Map<string, RegistrationRecord> | null = null;
+
+/**
+ * Découpe une ligne CSV en champs (guillemets doubles et "" échappés acceptés)
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const character = line[i];
+
+    if (quoted) {
+      if (character === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (character === '"') {
+        quoted = false;
+      } else {
+        current += character;
+      }
+    } else if (character === '"') {
+      quoted = true;
+    } else if (character === ',') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += character;
+    }
+  }
+
+  fields.push(current);
+  return fields.map(field => field.trim());
+}
+
+/**
+ * Lit un fichier CSV avec une ligne d'en-tête (plate_number, region, status,
+ * expires_at, owner_class, vehicle_description, notes)
+ */
+function parseCsv(content: string): Record<string, string | null>[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0 && !line.startsWith('#'));
+  if (lines.length === 0) return [];
+
+  const headers = parseCsvLine(lines[0]).map(header => CSV_COLUMNS[header.toLowerCase()] || header);
+
+  return lines.slice(1).map(line => {
+    const values = parseCsvLine(line);
+    return Object.fromEntries(headers.map((header, index) => [header, values[index] || null]));
+  });
+}
+
+/**
+ * Charge les fiches des fichiers listés dans REGISTRY_FILES (CSV ou JSON,
+ * séparés par des virgules). Une fiche invalide est ignorée avec un avertissement.
+ */
+function loadRecords(): Map<string, RegistrationRecord> {
+  const loaded = new Map<string, RegistrationRecord>();
+  const files = (process.env.REGISTRY_FILES || DEFAULT_REGISTRY_FILE)
+    .split(',')
+    .map(file => file.trim())
+    .filter(file => file.length > 0);
+
+  for (const file of files) {
+    const filePath = path.resolve(file);
+
+    if (!fs.existsSync(filePath)) {
+      console.warn(`Fichier de registre introuvable: ${filePath}`);
+      continue;
+    }
+
+    try {
+      const content = fs.readFileSync(filePath, 'utf-8');
+      const entries: unknown[] = path.extname(filePath).toLowerCase() === '.json'
+        ? JSON.parse(content)
+        : parseCsv(content);
+
+      let count = 0;
+      for (const entry of entries) {
+        const result = registrationRecordSchema.safeParse(entry);
+        if (!result.success) {
+          console.warn(`Fiche de registre invalide ignorée dans ${file}:`, result.error.errors);
+          continue;
+        }
+        if (!isKnownStatus(result.data.status)) {
+          console.warn(`Fiche de registre ignorée dans ${file}: statut inconnu « ${result.data.status} »`);
+          continue;
+        }
+
+        const { plateNumber, region } = result.data;
+        loaded.set(registryKey(normalizePlateKey(plateNumber, region), region), result.data);
+        count++;
+      }
+
+      console.log(`${count} fiche(s) chargée(s) depuis le registre ${file}`);
+    } catch (error) {
+      console.error(`Erreur lors du chargement du registre ${file}:`, error);
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Recharge les fichiers du registre local (après une mise à jour des fichiers)
+ */
+export function reloadLocalRegistry(): number {
+  records = loadRecords();
+  return records.size;
+}
+
+/**
+ * Registre local : table en mémoire alimentée par des fichiers CSV/JSON. Une plaque
+ * est cherchée parmi les fiches de sa région, puis parmi les fiches sans région.
+ */
+export const localRegistryProvider: RegistryProvider = {
+  name: 'local',
+  lookup: async ({ plateKey, region }) => {
+    if (!records) {
+      records = loadRecords();
+    }
+    return records.get(registryKey(plateKey, region)) || records.get(registryKey(plateKey)) || null;
+  }
+};
@@ -0,0 +1,219 @@
+import express, { type Request, Response } from "express";
+import fs from "fs";
+import { createServer, type Server } from "http";
+import { pathToFileURL } from "url";
+import type { PlateRecognizerResult } from "./plate-recognizer-api";
+
+/**
+ * Serveur de simulation de l'API Plate Recognizer (et du SDK Snapshot sur site).
+ *
+ * Il rejoue une suite d'étapes scriptées : réponse JSON, erreur HTTP et/ou délai.
+ * Pour l'utiliser : `npm run mock:platerecognizer`, puis lancer l'application avec
+ * PLATE_RECOGNIZER_API_URL=http://localhost:8080/v1/plate-reader/
+ *
+ * Routes de pilotage :
+ * - POST /__mock__/script   remplace le script ({ steps: MockStep[], loop?: boolean })
+ * - GET  /__mock__/requests liste les requêtes reçues
+ * - POST /__mock__/reset    vide le script et l'historique
+ */
+
+// Étape scriptée : un statut HTTP, un délai et un corps de réponse
+export type MockStep = {
+  status?: number;
+  delayMs?: number;
+  body?: PlateRecognizerResult | Record<string, unknown>;
+};
+
+export type MockScript = {
+  steps: MockStep[];
+  loop?: boolean;
+};
+
+// Requête reçue, conservée pour les vérifications
+export type RecordedRequest = {
+  receivedAt: string;
+  path: string;
+  authorization?: string;
+  fields: Record<string, string>;
+  uploadSize: number;
+};
+
+export type MockServerOptions = {
+  script?: MockScript;
+  // Exiger un en-tête Authorization (comme l'API cloud) ; le SDK sur site n'en exige pas
+  requireToken?: boolean;
+};
+
+// Réponse renvoyée quand le script est épuisé : une plaque ontarienne
+export function createDefaultResult(): PlateRecognizerResult {
+  return {
+    results: [
+      {
+        box: { xmin: 480, ymin: 360, xmax: 760, ymax: 440 },
+        plate: "cbpc344",
+        region: { code: "ca-on", score: 0.92 },
+        score: 0.9,
+        candidates: [
+          { score: 0.9, plate: "cbpc344" },
+          { score: 0.81, plate: "c8pc344" }
+        ],
+        vehicle: { type: "Sedan", score: 0.85 }
+      }
+    ],
+    filename: "plate.jpg",
+    processing_time: 42.5,
+    version: 1,
+    camera_id: null,
+    timestamp: new Date().toISOString()
+  };
+}
+
+/**
+ * Extrait les champs texte et la taille du fichier d'une requête multipart/form-data
+ */
+function parseMultipart(body: Buffer, contentType: string): { fields: Record<string, string>; uploadSize: number } {
+  const fields: Record<string, string> = {};
+  let uploadSize = 0;
+
+  const boundaryMatch = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/);
+  if (!boundaryMatch) return { fields, uploadSize };
+
+  const boundary = `--${boundaryMatch[1] || boundaryMatch[2]}`;
+  const parts = body.toString("latin1").split(boundary).slice(1, -1);
+
+  for (const part of parts) {
+    const headerEnd = part.indexOf("\r\n\r\n");
+    if (headerEnd === -1) continue;
+
+    const headers = part.slice(0, headerEnd);
+    const content = part.slice(headerEnd + 4, part.length - 2);
+    const name = headers.match(/name="([^"]+)"/)?.[1];
+    if (!name) continue;
+
+    if (/filename="/.test(headers)) {
+      uploadSize = Buffer.byteLength(content, "latin1");
+    } else {
+      fields[name] = Buffer.from(content, "latin1").toString("utf-8");
+    }
+  }
+
+  return { fields, uploadSize };
+}
+
+/**
+ * Crée le serveur de simulation (sans le démarrer)
+ */
+export function createMockPlateRecognizerServer(options: MockServerOptions = {}): {
+  server: Server;
+  setScript: (script: MockScript) => void;
+  getRequests: () => RecordedRequest[];
+  reset: () => void;
+} {
+  const app = express();
+  let script: MockScript = options.script || { steps: [] };
+  let stepIndex = 0;
+  let requests: RecordedRequest[] = [];
+
+  const setScript = (next: MockScript) => {
+    script = next;
+    stepIndex = 0;
+  };
+
+  const reset = () => {
+    setScript({ steps: [] });
+    requests = [];
+  };
+
+  const nextStep = (): MockStep => {
+    if (script.steps.length === 0) return {};
+    if (stepIndex >= script.steps.length) {
+      if (!script.loop) return {};
+      stepIndex = 0;
+    }
+    return script.steps[stepIndex++];
+  };
+
+  const handlePlateReader = async (req: Request, res: Response) => {
+    const contentType = req.headers["content-type"] || "";
+    const parsed = Buffer.isBuffer(req.body) && contentType.startsWith("multipart/form-data")
+      ? parseMultipart(req.body, contentType)
+      : { fields: {}, uploadSize: Buffer.isBuffer(req.body) ? req.body.length : 0 };
+
+    requests.push({
+      receivedAt: new Date().toISOString(),
+      path: req.path,
+      authorization: req.headers.authorization,
+      ...parsed
+    });
+
+    if (options.requireToken && !req.headers.authorization?.startsWith("Token ")) {
+      return res.status(403).json({ detail: "Authentication credentials were not provided." });
+    }
+
+    const step = nextStep();
+
+    if (step.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, step.delayMs));
+    }
+
+    const status = step.status || 201;
+    const body = step.body || (status < 400 ? createDefaultResult() : { detail: "Mock error" });
+
+    // Le SDK renvoie le camera_id reçu, comme l'API cloud
+    if (status < 400 && "results" in body && parsed.fields.camera_id) {
+      res.status(status).json({ ...body, camera_id: parsed.fields.camera_id });
+      return;
+    }
+
+    res.status(status).json(body);
+  };
+
+  // L'API cloud et le SDK Snapshot exposent la même route (avec ou sans barre finale)
+  app.post(["/v1/plate-reader", "/v1/plate-reader/"], express.raw({ type: "*/*", limit: "50mb" }), handlePlateReader);
+
+  app.post("/__mock__/script", express.json(), (req, res) => {
+    if (!Array.isArray(req.body?.steps)) {
+      return res.status(400).json({ error: "steps array is required" });
+    }
+    setScript({ steps: req.body.steps, loop: Boolean(req.body.loop) });
+    res.json({ steps: script.steps.length, loop: script.loop });
+  });
+
+  app.get("/__mock__/requests", (_req, res) => {
+    res.json(requests);
+  });
+
+  app.post("/__mock__/reset", (_req, res) => {
+    reset();
+    res.status(204).end();
+  });
+
+  return {
+    server: createServer(app),
+    setScript,
+    getRequests: () => requests,
+    reset
+  };
+}
+
+// Lancement direct : tsx server/mock-plate-recognizer.ts
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.MOCK_PLATE_RECOGNIZER_PORT || "8080", 10);
+  const scriptFile = process.env.MOCK_PLATE_RECOGNIZER_SCRIPT;
+
+  const script: MockScript | undefined = scriptFile
+    ? JSON.parse(fs.readFileSync(scriptFile, "utf-8"))
+    : undefined;
+
+  const { server } = createMockPlateRecognizerServer({
+    script,
+    requireToken: process.env.MOCK_PLATE_RECOGNIZER_REQUIRE_TOKEN === "true"
+  });
+
+  server.listen(port, () => {
+    console.log(`Serveur de simulation Plate Recognizer sur http://localhost:${port}/v1/plate-reader/`);
+    if (script) {
+      console.log(`${script.steps.length} étape(s) chargée(s) depuis ${scriptFile}`);
+    }
+  });
+}
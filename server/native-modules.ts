@@ -0,0 +1,29 @@
+export type TfModule = typeof import('@tensorflow/tfjs-node');
+export type CanvasModule = typeof import('canvas');
+
+let tfPromise: Promise<TfModule> | null = null;
+let canvasPromise: Promise<CanvasModule> | null = null;
+
+/**
+ * Les modules natifs sont chargés à la demande pour que le serveur démarre
+ * même si tfjs-node ou canvas ne sont pas compilés sur la machine.
+ */
+export function loadTf(): Promise<TfModule> {
+  if (!tfPromise) {
+    tfPromise = import('@tensorflow/tfjs-node').catch(error => {
+      tfPromise = null;
+      throw error;
+    });
+  }
+  return tfPromise;
+}
+
+export function loadCanvas(): Promise<CanvasModule> {
+  if (!canvasPromise) {
+    canvasPromise = import('canvas').catch(error => {
+      canvasPromise = null;
+      throw error;
+    });
+  }
+  return canvasPromise;
+}
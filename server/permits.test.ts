@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertPermit } from '@shared/schema';
+import { MemStorage } from './storage';
+
+// Plages horaires lues à l'heure de Toronto (UTC-4 en octobre), quel que soit le fuseau du poste
+process.env.PERMIT_TIMEZONE = 'America/Toronto';
+const { checkPermit } = await import('./permits');
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const FRIDAY = 5;
+
+async function createStorage(...permits: Partial<InsertPermit>[]) {
+  const storage = new MemStorage();
+  for (const permit of permits) {
+    await storage.createPermit({
+      plateNumber: 'CBPC 344',
+      zone: 'A',
+      permitType: 'permit',
+      validFrom: new Date('2026-01-01T00:00:00Z'),
+      ...permit
+    });
+  }
+  return storage;
+}
+
+test('checkPermit autorise une plaque pendant une plage horaire', async () => {
+  const storage = await createStorage({ timeWindows: [{ days: WEEKDAYS, start: '08:00', end: '18:00' }] });
+
+  // Lundi 19 octobre 2026, 10 h à Toronto
+  const result = await checkPermit(storage, 'C8PC344', 'Ontario', 'A', new Date('2026-10-19T14:00:00Z'));
+  assert.equal(result.status, 'permitted');
+});
+
+test('checkPermit refuse une plaque hors de ses plages horaires', async () => {
+  const storage = await createStorage({ timeWindows: [{ days: WEEKDAYS, start: '08:00', end: '18:00' }] });
+
+  // Lundi, 19 h à Toronto ; samedi, 10 h
+  assert.equal((await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-19T23:00:00Z'))).status, 'not_permitted');
+  assert.equal((await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-24T14:00:00Z'))).status, 'not_permitted');
+});
+
+test("checkPermit rattache une plage qui passe minuit au jour où elle commence", async () => {
+  const storage = await createStorage({ timeWindows: [{ days: [FRIDAY], start: '22:00', end: '06:00' }] });
+
+  // Vendredi 23 h, samedi 3 h, puis vendredi 3 h (plage du jeudi, absente)
+  assert.equal((await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-24T03:00:00Z'))).status, 'permitted');
+  assert.equal((await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-24T07:00:00Z'))).status, 'permitted');
+  assert.equal((await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-23T07:00:00Z'))).status, 'not_permitted');
+});
+
+test('checkPermit applique un permis sans zone à toutes les zones', async () => {
+  const storage = await createStorage({ zone: null }, { plateNumber: 'XYZ 999', zone: 'B' });
+  const at = new Date('2026-10-19T14:00:00Z');
+
+  assert.equal((await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', at)).status, 'permitted');
+  assert.equal((await checkPermit(storage, 'XYZ 999', 'Ontario', 'A', at)).status, 'not_permitted');
+});
+
+test('checkPermit signale le permis échu le plus récemment', async () => {
+  const storage = await createStorage(
+    { validUntil: new Date('2026-03-01T00:00:00Z'), holderName: 'Ancien' },
+    { validUntil: new Date('2026-09-01T00:00:00Z'), holderName: 'Récent' }
+  );
+
+  const result = await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-19T14:00:00Z'));
+  assert.equal(result.status, 'permit_expired');
+  assert.equal(result.permit?.holderName, 'Récent');
+});
+
+test("checkPermit ne tient pas compte d'un permis pas encore valide", async () => {
+  const storage = await createStorage({ validFrom: new Date('2026-11-01T00:00:00Z') });
+
+  const result = await checkPermit(storage, 'CBPC 344', 'Ontario', 'A', new Date('2026-10-19T14:00:00Z'));
+  assert.equal(result.status, 'not_permitted');
+  assert.equal(result.permit, undefined);
+});
@@ -0,0 +1,108 @@
+import type { Permit, PermitCheckResult, PermitTimeWindow } from '@shared/schema';
+import type { IStorage } from './storage';
+import { normalizePlateKey } from './plate-normalization';
+
+// Fuseau horaire des plages horaires des permis (PERMIT_TIMEZONE, celui du serveur par défaut)
+const PERMIT_TIMEZONE = process.env.PERMIT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Stationnement contrôlé par défaut, si l'appel n'en précise pas (PERMIT_DEFAULT_ZONE)
+ */
+export function getDefaultPermitZone(): string | undefined {
+  return process.env.PERMIT_DEFAULT_ZONE || undefined;
+}
+
+/**
+ * Jour de la semaine (0 = dimanche) et heure « HH:MM » d'un instant dans le fuseau des permis
+ */
+function localTime(at: Date): { day: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: PERMIT_TIMEZONE,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at);
+
+  const part = (type: string) => parts.find(candidate => candidate.type === type)?.value || '';
+  return { day: WEEKDAYS.indexOf(part('weekday')), time: `${part('hour')}:${part('minute')}` };
+}
+
+/**
+ * Vérifie qu'un instant tombe dans une plage horaire. Une plage qui passe minuit
+ * (22:00-06:00) commence le jour indiqué et se termine le lendemain.
+ */
+function isInTimeWindow(window: PermitTimeWindow, day: number, time: string): boolean {
+  if (window.start <= window.end) {
+    return window.days.includes(day) && time >= window.start && time < window.end;
+  }
+
+  const previousDay = (day + 6) % 7;
+  return (window.days.includes(day) && time >= window.start) ||
+    (window.days.includes(previousDay) && time < window.end);
+}
+
+function describePermit(permit: Permit): string {
+  const label = permit.permitType === 'visitor' ? 'Laissez-passer visiteur' : 'Permis';
+  return permit.holderName ? `${label} (${permit.holderName})` : label;
+}
+
+/**
+ * Détermine si une plaque peut stationner dans une zone à un instant donné.
+ *
+ * Un permis s'applique à sa zone, ou à toutes les zones s'il n'en a pas. La plaque
+ * est autorisée si un permis est en cours de validité et, s'il a des plages horaires,
+ * si l'instant tombe dans l'une d'elles. À défaut, un permis échu donne permit_expired.
+ */
+export async function checkPermit(
+  storage: IStorage,
+  plateNumber: string,
+  region: string | null | undefined,
+  zone: string,
+  at: Date = new Date()
+): Promise<PermitCheckResult> {
+  const plateKey = normalizePlateKey(plateNumber, region);
+  const candidates = (await storage.getPermits({ plateKey }))
+    .filter(permit => !permit.zone || permit.zone === zone);
+  const checkedAt = at.toISOString();
+
+  const current = candidates.filter(permit =>
+    permit.validFrom <= at && (!permit.validUntil || permit.validUntil > at)
+  );
+  const { day, time } = localTime(at);
+
+  const permitted = current.find(permit =>
+    !permit.timeWindows?.length || permit.timeWindows.some(window => isInTimeWindow(window, day, time))
+  );
+  if (permitted) {
+    return { status: 'permitted', zone, details: `${describePermit(permitted)} valide`, permit: permitted, checkedAt };
+  }
+
+  if (current.length > 0) {
+    return {
+      status: 'not_permitted',
+      zone,
+      details: `${describePermit(current[0])} hors de ses plages horaires`,
+      permit: current[0],
+      checkedAt
+    };
+  }
+
+  // Le permis échu le plus récemment explique le refus
+  const expired = candidates
+    .filter(permit => permit.validUntil && permit.validUntil <= at)
+    .sort((a, b) => b.validUntil!.getTime() - a.validUntil!.getTime())[0];
+  if (expired) {
+    return {
+      status: 'permit_expired',
+      zone,
+      details: `${describePermit(expired)} expiré le ${expired.validUntil!.toLocaleDateString('fr-CA')}`,
+      permit: expired,
+      checkedAt
+    };
+  }
+
+  return { status: 'not_permitted', zone, details: 'Aucun permis pour cette zone', checkedAt };
+}
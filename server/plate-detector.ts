@@ -0,0 +1,217 @@
+import { Buffer } from 'buffer';
+import type { GraphModel, Tensor, Tensor2D, Tensor3D } from '@tensorflow/tfjs-node';
+import { BoundingBox } from './recognition-provider';
+import { loadTf, loadCanvas, TfModule } from './native-modules';
+
+// Région candidate trouvée par le détecteur, en coordonnées de l'image d'origine
+export interface DetectedRegion {
+  box: BoundingBox;
+  score: number;
+}
+
+// Largeur de travail pour la détection heuristique (les images sont réduites)
+const WORK_WIDTH = 480;
+// Nombre maximal de régions renvoyées par image
+const MAX_REGIONS = 5;
+// Score minimal pour qu'une région du modèle soit retenue
+const MODEL_MIN_SCORE = 0.4;
+// Marge ajoutée autour de chaque région avant le recadrage (en proportion)
+const CROP_PADDING = 0.1;
+
+let modelPromise: Promise<GraphModel> | null = null;
+
+function loadModel(tf: TfModule, modelPath: string): Promise<GraphModel> {
+  if (!modelPromise) {
+    console.log(`Chargement du modèle de localisation de plaques: ${modelPath}`);
+    modelPromise = tf.loadGraphModel(`file://${modelPath}`).catch(error => {
+      modelPromise = null;
+      throw error;
+    });
+  }
+  return modelPromise;
+}
+
+/**
+ * Indique si la détection locale des plaques est activée (PLATE_DETECTOR=heuristic|model)
+ */
+export function isPlateDetectorEnabled(): boolean {
+  const mode = process.env.PLATE_DETECTOR || 'off';
+  return mode === 'heuristic' || mode === 'model';
+}
+
+/**
+ * Détection avec un modèle entraîné (format TensorFlow Object Detection API :
+ * sorties detection_boxes normalisées [ymin, xmin, ymax, xmax] et detection_scores)
+ */
+async function detectWithModel(tf: TfModule, image: Tensor3D, modelPath: string): Promise<DetectedRegion[]> {
+  const model = await loadModel(tf, modelPath);
+  const [height, width] = image.shape;
+
+  const input = image.expandDims(0).toInt();
+  const outputs = await model.executeAsync(input, ['detection_boxes', 'detection_scores']) as Tensor[];
+  input.dispose();
+
+  const boxes = await outputs[0].array() as number[][][];
+  const scores = await outputs[1].array() as number[][];
+  outputs.forEach(output => output.dispose());
+
+  const regions: DetectedRegion[] = [];
+  boxes[0].forEach(([ymin, xmin, ymax, xmax], index) => {
+    const score = scores[0][index];
+    if (score < MODEL_MIN_SCORE) return;
+
+    regions.push({
+      score,
+      box: {
+        x: Math.round(xmin * width),
+        y: Math.round(ymin * height),
+        width: Math.round((xmax - xmin) * width),
+        height: Math.round((ymax - ymin) * height)
+      }
+    });
+  });
+
+  return regions;
+}
+
+/**
+ * Détection heuristique sans modèle : les caractères d'une plaque forment une zone
+ * dense en contours verticaux, de forme rectangulaire allongée.
+ */
+async function detectWithHeuristic(tf: TfModule, image: Tensor3D): Promise<DetectedRegion[]> {
+  const [originalHeight, originalWidth] = image.shape;
+  const scale = Math.min(1, WORK_WIDTH / originalWidth);
+  const height = Math.max(1, Math.round(originalHeight * scale));
+  const width = Math.max(2, Math.round(originalWidth * scale));
+
+  const mask = tf.tidy(() => {
+    const resized = tf.image.resizeBilinear(image.toFloat(), [height, width]);
+    const gray = resized.mul(tf.tensor1d([0.299, 0.587, 0.114])).sum(2) as Tensor2D;
+
+    // Gradient horizontal : met en évidence les traits verticaux des caractères
+    const gradient = gray.slice([0, 1], [height, width - 1])
+      .sub(gray.slice([0, 0], [height, width - 1]))
+      .abs();
+
+    const { mean, variance } = tf.moments(gradient);
+    const edges = gradient.greater(mean.add(variance.sqrt().mul(1.5))).toFloat();
+
+    // Étaler les contours horizontalement pour fusionner les caractères voisins
+    const smeared = tf.avgPool(edges.expandDims(2) as Tensor3D, [3, 17], 1, 'same');
+    return smeared.squeeze([2]).greater(0.25);
+  });
+
+  const maskWidth = width - 1;
+  const maskData = await mask.data();
+  mask.dispose();
+
+  const visited = new Uint8Array(maskData.length);
+  const regions: DetectedRegion[] = [];
+
+  // Composantes connexes sur le masque binaire
+  for (let start = 0; start < maskData.length; start++) {
+    if (!maskData[start] || visited[start]) continue;
+
+    let minX = maskWidth, minY = height, maxX = 0, maxY = 0, area = 0;
+    const stack = [start];
+    visited[start] = 1;
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % maskWidth;
+      const y = Math.floor(index / maskWidth);
+      area++;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < maskWidth - 1 ? index + 1 : -1,
+        y > 0 ? index - maskWidth : -1,
+        y < height - 1 ? index + maskWidth : -1
+      ];
+
+      for (const next of neighbours) {
+        if (next >= 0 && maskData[next] && !visited[next]) {
+          visited[next] = 1;
+          stack.push(next);
+        }
+      }
+    }
+
+    const boxWidth = maxX - minX + 1;
+    const boxHeight = maxY - minY + 1;
+    const aspectRatio = boxWidth / boxHeight;
+    const fillRatio = area / (boxWidth * boxHeight);
+
+    // Une plaque est nettement plus large que haute et raisonnablement remplie
+    if (aspectRatio < 2 || aspectRatio > 6.5) continue;
+    if (boxWidth < width * 0.05 || boxHeight < 8) continue;
+    if (fillRatio < 0.45) continue;
+
+    regions.push({
+      score: fillRatio,
+      box: {
+        x: Math.round(minX / scale),
+        y: Math.round(minY / scale),
+        width: Math.round(boxWidth / scale),
+        height: Math.round(boxHeight / scale)
+      }
+    });
+  }
+
+  return regions;
+}
+
+/**
+ * Localise les plaques dans une image et renvoie leurs boîtes englobantes
+ * @param imageBase64 - Image en base64 (avec ou sans préfixe data:image)
+ */
+export async function detectPlateRegions(imageBase64: string): Promise<DetectedRegion[]> {
+  const tf = await loadTf();
+  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  const image = tf.node.decodeImage(Buffer.from(base64Data, 'base64'), 3) as Tensor3D;
+
+  try {
+    const modelPath = process.env.PLATE_DETECTOR_MODEL_PATH;
+    const regions = process.env.PLATE_DETECTOR === 'model' && modelPath
+      ? await detectWithModel(tf, image, modelPath)
+      : await detectWithHeuristic(tf, image);
+
+    return regions
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_REGIONS);
+  } finally {
+    image.dispose();
+  }
+}
+
+/**
+ * Découpe une région de l'image (avec une marge) et la renvoie en base64 JPEG
+ * @returns L'image recadrée et la position du recadrage dans l'image d'origine
+ */
+export async function cropRegion(imageBase64: string, box: BoundingBox): Promise<{
+  image: string;
+  offset: BoundingBox;
+}> {
+  const { createCanvas, loadImage } = await loadCanvas();
+  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  const source = await loadImage(Buffer.from(base64Data, 'base64'));
+
+  const padX = Math.round(box.width * CROP_PADDING);
+  const padY = Math.round(box.height * CROP_PADDING);
+  const x = Math.max(0, box.x - padX);
+  const y = Math.max(0, box.y - padY);
+  const width = Math.min(source.width - x, box.width + padX * 2);
+  const height = Math.min(source.height - y, box.height + padY * 2);
+
+  const canvas = createCanvas(width, height);
+  canvas.getContext('2d').drawImage(source, x, y, width, height, 0, 0, width, height);
+
+  return {
+    image: `data:image/jpeg;base64,${canvas.toBuffer('image/jpeg').toString('base64')}`,
+    offset: { x, y, width, height }
+  };
+}
@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizePlateKey, plateKeyDistance } from './plate-normalization';
+
+test('normalizePlateKey ignore la casse, les espaces et les tirets', () => {
+  assert.equal(normalizePlateKey('cbpc-344', 'Ontario'), normalizePlateKey('CBPC 344', 'Ontario'));
+  assert.equal(normalizePlateKey(' AB-123-CD '), 'AB123CD');
+});
+
+test('normalizePlateKey corrige un caractère ambigu selon le type attendu à sa position', () => {
+  assert.equal(normalizePlateKey('C8PC 344', 'Ontario'), 'CBPC344');
+  assert.equal(normalizePlateKey('CBPC 3S4', 'Ontario'), 'CBPC354');
+  assert.equal(normalizePlateKey('A8-I23-CD', 'France'), 'AB123CD');
+  assert.equal(normalizePlateKey('C8PC 344', 'Canada'), 'CBPC344');
+});
+
+test("normalizePlateKey garde les caractères lus quand la région est inconnue", () => {
+  assert.equal(normalizePlateKey('C8PC 344'), 'C8PC344');
+  assert.equal(normalizePlateKey('C8PC 344', 'Inconnu'), 'C8PC344');
+  assert.notEqual(normalizePlateKey('SB123'), normalizePlateKey('58123'));
+  assert.notEqual(normalizePlateKey('BOB1'), normalizePlateKey('8081'));
+});
+
+test('normalizePlateKey ne corrige pas une plaque conforme à un autre format de la région', () => {
+  // Plaque commerciale ontarienne, qui ressemble à une plaque standard « ABIB 345 » mal lue
+  assert.equal(normalizePlateKey('AB 18345', 'Ontario'), 'AB18345');
+  // Aucun format standard ontarien de cinq caractères : pas de correction
+  assert.equal(normalizePlateKey('58123', 'Ontario'), '58123');
+});
+
+test('plateKeyDistance compte insertions, suppressions et substitutions', () => {
+  assert.equal(plateKeyDistance('ABC123', 'ABC123'), 0);
+  assert.equal(plateKeyDistance('ABC123', 'ABC124'), 1);
+  assert.equal(plateKeyDistance('ABC123', 'ABC1234'), 1);
+  assert.equal(plateKeyDistance('ABC123', 'BC123'), 1);
+  assert.equal(plateKeyDistance('', 'ABC'), 3);
+});
@@ -0,0 +1,86 @@
+import { compactPlate, getDisambiguationShapes, getJurisdictionsForRegion, matchPlateFormats } from '@shared/plate-formats';
+
+// Confusions OCR courantes entre lettres et chiffres
+const LETTER_TO_DIGIT: Record<string, string> = { O: '0', I: '1', B: '8', S: '5' };
+const DIGIT_TO_LETTER: Record<string, string> = { '0': 'O', '1': 'I', '8': 'B', '5': 'S' };
+
+const isLetter = (character: string) => character >= 'A' && character <= 'Z';
+const isDigit = (character: string) => character >= '0' && character <= '9';
+
+/**
+ * Vérifie qu'une plaque compacte peut correspondre à une forme, en admettant
+ * les caractères confondus (un 8 à une position de lettre peut être un B)
+ */
+function fitsShape(compact: string, shape: string): boolean {
+  if (compact.length !== shape.length) return false;
+
+  return Array.from(shape).every((kind, index) => {
+    const character = compact[index];
+    return kind === 'L'
+      ? isLetter(character) || character in DIGIT_TO_LETTER
+      : isDigit(character) || character in LETTER_TO_DIGIT;
+  });
+}
+
+/**
+ * Choisit la forme applicable : la seule forme standard de la région qui convient à
+ * la plaque. Aucune pour une région inconnue, ni pour une plaque déjà conforme à un
+ * format propre à la région (une plaque commerciale « AB 18345 » n'est pas une plaque
+ * standard mal lue) : elle est gardée telle quelle.
+ */
+function findShape(compact: string, region?: string | null): string | undefined {
+  const shapes = getDisambiguationShapes(region);
+  if (shapes.length === 0) return undefined;
+
+  const valid = matchPlateFormats(compact, getJurisdictionsForRegion(region))
+    .some(match => match.format.category !== 'vanity' && !match.format.generic);
+  if (valid) return undefined;
+
+  const matches = shapes.filter(shape => fitsShape(compact, shape));
+  return matches.length === 1 ? matches[0] : undefined;
+}
+
+/**
+ * Calcule la clé canonique d'une plaque, indépendante de la saisie et des
+ * confusions OCR : en Ontario, « CBPC 344 », « cbpc-344 » et « C8PC344 » donnent
+ * la même clé.
+ *
+ * Les espaces et tirets sont retirés. Un caractère ambigu (O/0, I/1, B/8, S/5) n'est
+ * corrigé que là où le format standard de la région attend l'autre type : un 8 à une
+ * position de lettre devient B, un B à une position de chiffre devient 8. Sans région
+ * connue ou sans format applicable, la clé garde les caractères lus.
+ */
+export function normalizePlateKey(plateNumber: string, region?: string | null): string {
+  const compact = compactPlate(plateNumber);
+  const shape = findShape(compact, region);
+  if (!shape) return compact;
+
+  return Array.from(compact).map((character, index) =>
+    shape[index] === 'L'
+      ? DIGIT_TO_LETTER[character] || character
+      : LETTER_TO_DIGIT[character] || character
+  ).join('');
+}
+
+/**
+ * Distance de Levenshtein entre deux clés (insertions, suppressions, substitutions)
+ */
+export function plateKeyDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length || !b.length) return Math.max(a.length, b.length);
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
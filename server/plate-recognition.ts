@@ -1,65 +1,294 @@
-import { PlateStatus } from '@shared/schema';
-import { recognizePlateWithAPI, validatePlateStatus, getStatusDetails } from './plate-recognizer-api';
+import { PlateStatus, PlateCandidate, RecognitionProfile, RecognitionFailure, RegistryLookupResult } from '@shared/schema';
+import { plateRecognizerProvider } from './plate-recognizer-api';
+import { lookupRegistration } from './registry';
+import { tesseractProvider } from './tesseract-recognizer';
+import { isPlateDetectorEnabled, detectPlateRegions, cropRegion } from './plate-detector';
+import { rescoreCandidates } from './candidate-rescoring';
+import { resolvePlateRegion } from '@shared/plate-formats';
+import { preprocessImage, PreprocessingResult, DebugImage } from './image-preprocessing';
+import {
+  registerRecognitionProvider,
+  getRecognitionProviders,
+  ProviderDetection,
+  BoundingBox,
+  VehicleInfo,
+  RecognitionOptions,
+  toRecognitionFailure
+} from './recognition-provider';
+
+// Enregistrer les moteurs disponibles
+registerRecognitionProvider(plateRecognizerProvider);
+registerRecognitionProvider(tesseractProvider);
+
+// Plaque reconnue et qualifiée (statut, détails) dans une image
+export interface PlateDetection {
+  plateNumber: string;
+  region: string;
+  // La lecture respecte un format connu de la région (donnée par le moteur ou déduite)
+  regionConfirmed: boolean;
+  status: PlateStatus;
+  details: string;
+  confidence: number;
+  boundingBox?: BoundingBox;
+  // Autres lectures possibles, de la plus probable à la moins probable
+  alternates: PlateCandidate[];
+  vehicle?: VehicleInfo;
+  // Fiche du registre d'immatriculation ayant déterminé le statut
+  registration: RegistryLookupResult;
+}
+
+// Résultat de la reconnaissance d'une image : une détection par plaque visible
+export interface RecognitionResult {
+  detected: boolean;
+  engine?: string;
+  profileId: string;
+  detections: PlateDetection[];
+  // Échecs des moteurs rencontrés pendant l'analyse (y compris ceux relayés par un moteur de secours)
+  failures: RecognitionFailure[];
+  // Présent si aucun moteur n'a pu analyser l'image : « aucune plaque » n'est alors pas fiable
+  error?: RecognitionFailure;
+  // Images intermédiaires du prétraitement (mode débogage uniquement)
+  debugImages?: DebugImage[];
+}
+
+// Résultat brut d'une analyse : moteur ayant répondu et échecs des moteurs essayés avant lui
+type FrameResult = {
+  engine?: string;
+  detections: ProviderDetection[];
+  failures: RecognitionFailure[];
+  // Indique si une image a été soumise aux moteurs
+  attempted: boolean;
+};
 
 /**
- * Fonction principale qui utilise l'API Plate Recognizer pour la détection et la reconnaissance
+ * Essaie chaque moteur dans l'ordre configuré jusqu'à obtenir une réponse.
+ * Un moteur indisponible ou en erreur passe la main au suivant.
  */
-export async function recognizeLicensePlate(imageData: string): Promise<{
-  detected: boolean;
-  plateNumber?: string;
-  region?: string;
-  status?: PlateStatus;
-  details?: string;
-  confidence?: number;
-  boundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
+async function recognizeWithProviders(imageData: string, options: RecognitionOptions): Promise<FrameResult> {
+  const failures: RecognitionFailure[] = [];
+
+  for (const provider of getRecognitionProviders()) {
+    if (!provider.isAvailable()) {
+      console.log(`Moteur ${provider.name} indisponible, passage au suivant`);
+      continue;
+    }
+
+    try {
+      const detections = await provider.recognize(imageData, options);
+      return { engine: provider.name, detections, failures, attempted: true };
+    } catch (error) {
+      console.error(`Erreur du moteur ${provider.name}, passage au suivant:`, error);
+      failures.push(toRecognitionFailure(provider.name, error));
+    }
+  }
+
+  console.error('Aucun moteur de reconnaissance n\'a pu traiter l\'image');
+  return { detections: [], failures, attempted: true };
+}
+
+/**
+ * Localise d'abord les plaques avec le détecteur local (si activé), puis envoie
+ * uniquement le recadrage de chaque plaque aux moteurs de reconnaissance.
+ * Sans détecteur, l'image complète est transmise telle quelle.
+ */
+async function recognizeFrame(imageData: string, options: RecognitionOptions): Promise<FrameResult> {
+  if (!isPlateDetectorEnabled()) {
+    return recognizeWithProviders(imageData, options);
+  }
+
+  let regions;
+  try {
+    regions = await detectPlateRegions(imageData);
+  } catch (error) {
+    console.error('Détecteur local indisponible, analyse de l\'image complète:', error);
+    return recognizeWithProviders(imageData, options);
+  }
+
+  console.log(`${regions.length} région(s) de plaque localisée(s)`);
+
+  let engine: string | undefined;
+  const detections: ProviderDetection[] = [];
+  const failures: RecognitionFailure[] = [];
+
+  for (const region of regions) {
+    const crop = await cropRegion(imageData, region.box);
+    const cropResult = await recognizeWithProviders(crop.image, options);
+    engine = engine || cropResult.engine;
+    failures.push(...cropResult.failures);
+
+    // Un recadrage ne contient qu'une plaque : garder la lecture la plus sûre
+    const [best] = cropResult.detections.sort((a, b) => b.confidence - a.confidence);
+    if (!best) continue;
+
+    // Replacer la boîte dans le repère de l'image d'origine
+    const boundingBox = best.boundingBox
+      ? {
+          x: best.boundingBox.x + crop.offset.x,
+          y: best.boundingBox.y + crop.offset.y,
+          width: best.boundingBox.width,
+          height: best.boundingBox.height
+        }
+      : region.box;
+
+    detections.push({ ...best, boundingBox });
+  }
+
+  // Aucune région localisée : les moteurs n'ont pas été sollicités, ce n'est pas un échec
+  return { engine, detections, failures, attempted: regions.length > 0 };
+}
+
+/**
+ * Choisit la lecture qui correspond le mieux aux formats de la région parmi
+ * les candidats du moteur, et conserve les autres comme alternatives.
+ */
+function selectBestCandidate(detection: ProviderDetection, region: string): {
+  plateNumber: string;
+  confidence: number;
+  alternates: PlateCandidate[];
+} {
+  const candidates = [
+    { plateNumber: detection.plateNumber, score: detection.confidence },
+    ...(detection.candidates || [])
+  ];
+
+  const [best, ...alternates] = rescoreCandidates(candidates, region);
+
+  // La confiance reste celle donnée par le moteur pour la lecture retenue
+  const original = candidates.find(candidate => candidate.plateNumber.toUpperCase() === best.plateNumber);
+
+  if (best.plateNumber !== detection.plateNumber.toUpperCase()) {
+    console.log(`Lecture ${detection.plateNumber} corrigée en ${best.plateNumber} selon le format de la région ${region}`);
+  }
+
+  return {
+    plateNumber: best.plateNumber,
+    confidence: original ? original.score : detection.confidence,
+    alternates
   };
-}> {
+}
+
+/**
+ * Replace une boîte de l'image prétraitée dans le repère de l'image d'origine
+ */
+function toOriginalBox(box: BoundingBox | undefined, preprocessing: PreprocessingResult): BoundingBox | undefined {
+  if (!box) return undefined;
+
+  return {
+    x: Math.round(preprocessing.offset.x + box.x / preprocessing.scale),
+    y: Math.round(preprocessing.offset.y + box.y / preprocessing.scale),
+    width: Math.round(box.width / preprocessing.scale),
+    height: Math.round(box.height / preprocessing.scale)
+  };
+}
+
+/**
+ * Choisit l'échec à présenter à l'opérateur : celui du moteur principal,
+ * sauf s'il n'est simplement pas configuré et qu'un secours a échoué autrement.
+ */
+function pickMainFailure(failures: RecognitionFailure[]): RecognitionFailure {
+  return failures.find(failure => failure.code !== 'not_configured')
+    || failures[0]
+    || { code: 'not_configured', message: 'Aucun moteur de reconnaissance disponible' };
+}
+
+/**
+ * Fonction principale qui utilise les moteurs de reconnaissance configurés pour la détection
+ * @param profile - Profil de reconnaissance (seuil, régions, mode, prétraitement) à appliquer
+ * @param options.cameraId - Caméra ayant capturé l'image, transmise aux moteurs
+ * @param options.debug - Renvoyer les images intermédiaires du prétraitement
+ */
+export async function recognizeLicensePlate(
+  imageData: string,
+  profile: RecognitionProfile,
+  { cameraId, debug = false }: { cameraId?: string; debug?: boolean } = {}
+): Promise<RecognitionResult> {
   try {
-    console.log('Début de la reconnaissance de plaque...');
-    
-    // Utiliser l'API Plate Recognizer pour détecter et reconnaître la plaque
-    const recognitionResult = await recognizePlateWithAPI(imageData);
-    
-    // Si aucune plaque n'est détectée, retourner résultat négatif
-    if (!recognitionResult.detected || !recognitionResult.plateNumber) {
-      console.log('Aucune plaque détectée');
-      return { detected: false };
+    console.log(`Début de la reconnaissance de plaque (profil ${profile.id})...`);
+
+    // Prétraiter l'image (recadrage, contraste...) ; en cas d'échec, utiliser l'image brute
+    let preprocessing: PreprocessingResult;
+    try {
+      preprocessing = await preprocessImage(imageData, profile.preprocessing, debug);
+    } catch (error) {
+      console.error('Erreur lors du prétraitement, image utilisée telle quelle:', error);
+      preprocessing = { image: imageData, offset: { x: 0, y: 0 }, scale: 1, debugImages: [] };
     }
-    
-    // Obtenir les informations de la plaque
-    const plateNumber = recognitionResult.plateNumber;
-    const region = recognitionResult.region || 'Inconnu';
-    const confidence = recognitionResult.confidence || 0;
-    const boundingBox = recognitionResult.boundingBox;
-    
-    console.log(`Plaque détectée: ${plateNumber}, Région: ${region}, Confiance: ${confidence}`);
-    
-    // Si la confiance est trop basse, considérer comme non détecté
-    if (confidence < 0.6) {
-      console.log('Confiance trop basse, plaque rejetée');
-      return { detected: false };
+
+    const options: RecognitionOptions = {
+      regions: profile.regions,
+      mode: profile.mode,
+      detectionMode: profile.detectionMode,
+      cameraId
+    };
+
+    // Localiser puis reconnaître les plaques avec le premier moteur disponible
+    const { engine, detections: rawDetections, failures, attempted } = await recognizeFrame(preprocessing.image, options);
+
+    // Aucun moteur n'a répondu : signaler l'échec plutôt qu'une absence de plaque
+    if (attempted && !engine) {
+      const error = pickMainFailure(failures);
+      console.error(`Reconnaissance impossible (${error.code}): ${error.message}`);
+      return { detected: false, profileId: profile.id, detections: [], failures, error };
+    }
+
+    const detections: PlateDetection[] = [];
+
+    for (const detection of rawDetections) {
+      const detectedRegion = detection.region || 'Inconnu';
+
+      console.log(`Plaque détectée par ${engine}: ${detection.plateNumber}, Région: ${detectedRegion}, Confiance: ${detection.confidence}`);
+
+      if (!detection.plateNumber) continue;
+
+      // Retenir le candidat le plus cohérent avec les formats de la région
+      const { plateNumber, confidence, alternates } = selectBestCandidate(detection, detectedRegion);
+
+      // Confirmer la région d'après le format, ou la déduire si le moteur ne donne que le pays
+      const { region, confirmed: regionConfirmed } = resolvePlateRegion(plateNumber, detectedRegion);
+      if (region !== detectedRegion) {
+        console.log(`Région de ${plateNumber} déduite du format: ${region}`);
+      } else if (!regionConfirmed) {
+        console.log(`Format de ${plateNumber} non reconnu pour la région ${region}`);
+      }
+
+      // Si la confiance est sous le seuil du profil, ignorer cette plaque
+      if (confidence < profile.minConfidence) {
+        console.log(`Confiance trop basse, plaque ${plateNumber} rejetée`);
+        continue;
+      }
+
+      // Déterminer le statut de la plaque et les détails auprès du registre
+      const registration = await lookupRegistration(plateNumber, region);
+
+      detections.push({
+        plateNumber,
+        region,
+        regionConfirmed,
+        status: registration.status,
+        details: registration.details,
+        registration,
+        confidence,
+        boundingBox: toOriginalBox(detection.boundingBox, preprocessing),
+        alternates,
+        vehicle: detection.vehicle
+      });
     }
-    
-    // Déterminer le statut de la plaque et les détails
-    const status = validatePlateStatus(plateNumber);
-    const details = getStatusDetails(status);
-    
-    // Retourner le résultat complet
+
+    if (detections.length === 0) {
+      console.log('Aucune plaque détectée');
+    }
+
     return {
-      detected: true,
-      plateNumber,
-      region,
-      status,
-      details,
-      confidence,
-      boundingBox
+      detected: detections.length > 0,
+      engine,
+      profileId: profile.id,
+      detections,
+      failures,
+      ...(debug ? { debugImages: preprocessing.debugImages } : {})
     };
   } catch (error) {
     console.error('Erreur lors de la reconnaissance de la plaque:', error);
-    return { detected: false };
+    const failure = toRecognitionFailure(undefined, error);
+    return { detected: false, profileId: profile.id, detections: [], failures: [failure], error: failure };
   }
-}
\ No newline at end of file
+}
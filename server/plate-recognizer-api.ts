@@ -1,10 +1,59 @@
-import { PlateStatus } from '@shared/schema';
-import fetch from 'node-fetch';
+import fetch, { FetchError } from 'node-fetch';
 import FormData from 'form-data';
 import { Buffer } from 'buffer';
+import { RecognitionProvider, ProviderDetection, RecognitionOptions, RecognitionError } from './recognition-provider';
+import { CircuitBreaker, CircuitState, retryWithBackoff } from './resilience';
+import { COUNTRY_REGION_NAMES, CountryCode, getJurisdiction } from '@shared/plate-formats';
+
+// URL par défaut de l'API cloud ; PLATE_RECOGNIZER_API_URL permet de viser le
+// SDK Snapshot installé sur site ou le serveur de simulation local
+const DEFAULT_API_URL = 'https://api.platerecognizer.com/v1/plate-reader/';
+
+// Délai maximal d'attente d'une réponse de l'API
+const REQUEST_TIMEOUT_MS = parseInt(process.env.PLATE_RECOGNIZER_TIMEOUT_MS || '10000', 10);
+// Nouvelles tentatives en cas d'erreur transitoire (réseau, 5xx, 429, délai dépassé)
+const MAX_RETRIES = parseInt(process.env.PLATE_RECOGNIZER_MAX_RETRIES || '2', 10);
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5000;
+// Le disjoncteur s'ouvre après ce nombre d'échecs consécutifs, pour 30 secondes
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.PLATE_RECOGNIZER_CIRCUIT_THRESHOLD || '5', 10);
+const CIRCUIT_RESET_TIMEOUT_MS = 30000;
+// Fréquence de consultation du quota de l'API cloud
+const QUOTA_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+// Pause appliquée si le quota est épuisé sans date de renouvellement connue
+const QUOTA_EXHAUSTED_BACKOFF_MS = 60 * 60 * 1000;
+
+// Erreurs transitoires : elles justifient une nouvelle tentative et comptent pour le disjoncteur
+const TRANSIENT_ERROR_CODES = ['rate_limited', 'service_error', 'timeout'];
+
+const circuitBreaker = new CircuitBreaker('platerecognizer', {
+  failureThreshold: CIRCUIT_FAILURE_THRESHOLD,
+  resetTimeoutMs: CIRCUIT_RESET_TIMEOUT_MS
+});
+
+// Consommation du quota mensuel de l'API cloud
+export interface QuotaStatus {
+  calls?: number;
+  limit?: number;
+  resetsOn?: string;
+  // Date (ms) jusqu'à laquelle les appels sont suspendus faute de quota
+  exhaustedUntil?: number;
+  checkedAt?: number;
+}
+
+const quota: QuotaStatus = {};
+
+// Réponse de l'endpoint /v1/statistics/ de l'API cloud
+interface PlateRecognizerStatistics {
+  usage: {
+    calls: number;
+    resets_on?: string;
+  };
+  total_calls: number;
+}
 
 // Interface pour les résultats de l'API Plate Recognizer
-interface PlateRecognizerResult {
+export interface PlateRecognizerResult {
   results: {
     box: {
       xmin: number;
@@ -26,6 +75,16 @@ interface PlateRecognizerResult {
       type: string;
       score: number;
     };
+    // Présents uniquement lorsque la requête inclut mmc=true
+    model_make?: {
+      make: string;
+      model: string;
+      score: number;
+    }[];
+    color?: {
+      color: string;
+      score: number;
+    }[];
   }[];
   filename: string;
   processing_time: number;
@@ -35,161 +94,295 @@ interface PlateRecognizerResult {
 }
 
 /**
- * Envoie une image à l'API Plate Recognizer pour reconnaissance
- * @param imageBase64 - Image en base64
- * @returns Résultat de la reconnaissance
+ * Retourne l'URL du service de lecture de plaques
  */
-export async function recognizePlateWithAPI(imageBase64: string): Promise<{
-  detected: boolean;
-  plateNumber?: string;
-  region?: string;
-  confidence?: number;
-  boundingBox?: {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-  };
-}> {
+export function getPlateRecognizerUrl(): string {
+  return process.env.PLATE_RECOGNIZER_API_URL || DEFAULT_API_URL;
+}
+
+/**
+ * Le SDK sur site et le serveur de simulation n'exigent pas de clé : seule l'API
+ * cloud en a besoin, quel que soit le chemin ou la version configurés. Une URL
+ * illisible est traitée comme celle du cloud.
+ */
+function isApiKeyRequired(): boolean {
   try {
-    // Extraire les données d'image réelles (sans le préfixe data:image)
-    const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
-    
-    // Obtenir la clé API depuis les variables d'environnement
-    const apiKey = process.env.PLATE_RECOGNIZER_API_KEY;
-    
-    if (!apiKey) {
-      console.error('Clé API Plate Recognizer non configurée');
-      throw new Error('Clé API Plate Recognizer non configurée');
+    return new URL(getPlateRecognizerUrl()).hostname === new URL(DEFAULT_API_URL).hostname;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Délai demandé par l'en-tête Retry-After (en secondes ou date HTTP), en millisecondes
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Marque le quota comme épuisé jusqu'à son renouvellement
+ */
+function markQuotaExhausted() {
+  const resetsOn = quota.resetsOn ? Date.parse(quota.resetsOn) : NaN;
+  quota.exhaustedUntil = !isNaN(resetsOn) && resetsOn > Date.now()
+    ? resetsOn
+    : Date.now() + QUOTA_EXHAUSTED_BACKOFF_MS;
+  console.warn(`Quota Plate Recognizer épuisé jusqu'au ${new Date(quota.exhaustedUntil).toISOString()}`);
+}
+
+/**
+ * Met à jour la consommation du quota via l'endpoint de statistiques de l'API cloud.
+ * L'appel est fait en arrière-plan et au plus toutes les 10 minutes.
+ */
+function refreshQuota(apiKey: string) {
+  if (quota.checkedAt && Date.now() - quota.checkedAt < QUOTA_CHECK_INTERVAL_MS) return;
+  quota.checkedAt = Date.now();
+
+  const statisticsUrl = new URL('../statistics/', getPlateRecognizerUrl()).toString();
+
+  fetch(statisticsUrl, { headers: { 'Authorization': `Token ${apiKey}` } })
+    .then(async response => {
+      if (!response.ok) {
+        throw new Error(`statut ${response.status}`);
+      }
+
+      const statistics = await response.json() as PlateRecognizerStatistics;
+      quota.calls = statistics.usage.calls;
+      quota.limit = statistics.total_calls;
+      quota.resetsOn = statistics.usage.resets_on;
+
+      console.log(`Quota Plate Recognizer: ${quota.calls}/${quota.limit} appels utilisés`);
+      if (quota.limit > 0 && quota.calls >= quota.limit) {
+        markQuotaExhausted();
+      } else {
+        quota.exhaustedUntil = undefined;
+      }
+    })
+    .catch(error => {
+      console.warn('Impossible de consulter le quota Plate Recognizer:', error.message);
+    });
+}
+
+/**
+ * Envoie une requête (une seule tentative) et classe les échecs par type d'erreur
+ */
+async function sendPlateReaderRequest(formData: FormData, apiKey: string | undefined): Promise<PlateRecognizerResult> {
+  const apiUrl = getPlateRecognizerUrl();
+  let response;
+  try {
+    console.log(`Envoi de la requête à l'API Plate Recognizer (${apiUrl})...`);
+    response = await fetch(apiUrl, {
+      method: 'POST',
+      headers: apiKey ? { 'Authorization': `Token ${apiKey}` } : {} as Record<string, string>,
+      body: formData,
+      timeout: REQUEST_TIMEOUT_MS
+    });
+  } catch (error) {
+    if (error instanceof FetchError && error.type === 'request-timeout') {
+      throw new RecognitionError('timeout', `L'API Plate Recognizer n'a pas répondu en ${REQUEST_TIMEOUT_MS} ms`);
     }
-    
-    // Utiliser une approche simple avec l'API file upload de Plate Recognizer
-    // Convertir base64 en buffer pour l'envoyer comme un fichier
-    const imageBuffer = Buffer.from(base64Data, 'base64');
-    
-    // Créer un form-data avec la librairie form-data
+    throw new RecognitionError('service_error', `API Plate Recognizer injoignable: ${error instanceof Error ? error.message : error}`);
+  }
+  
+  if (response.ok) {
+    return await response.json() as PlateRecognizerResult;
+  }
+  
+  const errorText = await response.text();
+  console.error(`Erreur de l'API Plate Recognizer: ${response.status} ${errorText}`);
+  
+  if (response.status === 429) {
+    throw new RecognitionError(
+      'rate_limited',
+      'Trop de requêtes envoyées à l\'API Plate Recognizer',
+      parseRetryAfter(response.headers.get('retry-after'))
+    );
+  }
+  
+  // L'API cloud répond 402 ou 403 lorsque le quota de lectures est épuisé
+  if (response.status === 402 || (response.status === 403 && /quota|credit|limit|exceed/i.test(errorText))) {
+    markQuotaExhausted();
+    throw new RecognitionError('quota_exceeded', 'Quota de l\'API Plate Recognizer épuisé', quota.exhaustedUntil! - Date.now());
+  }
+  
+  if (response.status === 401 || response.status === 403) {
+    throw new RecognitionError('auth_failed', 'Clé API Plate Recognizer refusée');
+  }
+  
+  if (response.status >= 500) {
+    throw new RecognitionError('service_error', `Erreur du service Plate Recognizer: ${response.status}`);
+  }
+  
+  throw new RecognitionError('engine_error', `Erreur de l'API Plate Recognizer: ${response.status}`);
+}
+
+/**
+ * État de santé du client : disjoncteur et consommation du quota
+ */
+export function getPlateRecognizerHealth(): {
+  circuit: CircuitState;
+  retryAfterMs: number;
+  quota: QuotaStatus;
+} {
+  return {
+    circuit: circuitBreaker.getState(),
+    retryAfterMs: circuitBreaker.getRetryAfterMs(),
+    quota: { ...quota }
+  };
+}
+
+/**
+ * Convertit un code de région Plate Recognizer en nom complet
+ */
+function getRegionName(regionCode: string): string {
+  const jurisdiction = getJurisdiction(regionCode);
+  if (jurisdiction) {
+    return jurisdiction.name;
+  }
+
+  // Code sans juridiction connue : se contenter du pays
+  const country = regionCode.split('-')[0].toUpperCase();
+  return COUNTRY_REGION_NAMES[country as CountryCode] || 'Inconnu';
+}
+
+/**
+ * Envoie une image à l'API Plate Recognizer pour reconnaissance
+ * @param imageBase64 - Image en base64
+ * @param options - Régions, mode et type de détection issus du profil de reconnaissance
+ * @returns Toutes les plaques reconnues dans l'image
+ * @throws RecognitionError si la clé API est absente, le quota épuisé, le disjoncteur
+ *   ouvert ou si l'API échoue après les nouvelles tentatives
+ */
+export async function recognizePlateWithAPI(imageBase64: string, options: RecognitionOptions): Promise<ProviderDetection[]> {
+  // Extraire les données d'image réelles (sans le préfixe data:image)
+  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  
+  // Obtenir la clé API depuis les variables d'environnement
+  const apiKey = process.env.PLATE_RECOGNIZER_API_KEY;
+  
+  if (!apiKey && isApiKeyRequired()) {
+    console.error('Clé API Plate Recognizer non configurée');
+    throw new RecognitionError('not_configured', 'Clé API Plate Recognizer non configurée');
+  }
+  
+  // Quota épuisé : inutile d'appeler l'API avant son renouvellement
+  if (quota.exhaustedUntil && quota.exhaustedUntil > Date.now()) {
+    throw new RecognitionError('quota_exceeded', 'Quota de l\'API Plate Recognizer épuisé', quota.exhaustedUntil - Date.now());
+  }
+  
+  if (!circuitBreaker.canRequest()) {
+    throw new RecognitionError(
+      'circuit_open',
+      'API Plate Recognizer temporairement désactivée après des échecs répétés',
+      circuitBreaker.getRetryAfterMs()
+    );
+  }
+  
+  if (apiKey && isApiKeyRequired()) {
+    refreshQuota(apiKey);
+  }
+  
+  // Utiliser une approche simple avec l'API file upload de Plate Recognizer
+  // Convertir base64 en buffer pour l'envoyer comme un fichier
+  const imageBuffer = Buffer.from(base64Data, 'base64');
+  
+  // Le flux form-data ne peut être lu qu'une fois : le reconstruire à chaque tentative
+  const buildFormData = () => {
     const formData = new FormData();
     formData.append('upload', imageBuffer, 'plate.jpg');
-    formData.append('regions', 'fr,ca-on,ca-qc,us');
+    if (options.regions.length > 0) {
+      formData.append('regions', options.regions.join(','));
+    }
+    if (options.cameraId) {
+      formData.append('camera_id', options.cameraId);
+    }
+    // Demander la marque, le modèle et la couleur du véhicule
+    formData.append('mmc', 'true');
     
-    // Configuration pour le mode et seuils de confiance
+    // Configuration pour le mode (le mode précis est celui par défaut de l'API)
     const configObj = {
-      mode: 'fast',
-      detection_mode: 'vehicle'
+      ...(options.mode === 'fast' ? { mode: 'fast' } : {}),
+      detection_mode: options.detectionMode
     };
     formData.append('config', JSON.stringify(configObj));
-    
-    // Construire les options de la requête
-    const requestOptions = {
-      method: 'POST',
-      headers: {
-        'Authorization': `Token ${apiKey}`
-      },
-      body: formData
-    };
-    
-    // Envoyer la requête à l'API Plate Recognizer
-    console.log('Envoi de la requête à l\'API Plate Recognizer...');
-    const response = await fetch('https://api.platerecognizer.com/v1/plate-reader/', requestOptions);
-    
-    // Vérifier la réponse
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Erreur de l'API Plate Recognizer: ${response.status} ${errorText}`);
-      return { detected: false };
-    }
-    
-    // Analyser la réponse JSON
-    const data = await response.json() as PlateRecognizerResult;
-    
-    // Si aucun résultat n'est trouvé, retourner détection négative
-    if (!data.results || data.results.length === 0) {
-      return { detected: false };
-    }
-    
-    // Obtenir le meilleur résultat (le premier)
-    const bestResult = data.results[0];
-    
-    // Extraire les informations pertinentes
-    const plateNumber = bestResult.plate;
-    const confidence = bestResult.score;
-    const regionCode = bestResult.region?.code || 'unknown';
-    
-    // Convertir le code de région en nom complet
-    let region = 'Inconnu';
-    if (regionCode.includes('fr')) {
-      region = 'France';
-    } else if (regionCode === 'ca-on') {
-      region = 'Ontario';
-    } else if (regionCode === 'ca-qc') {
-      region = 'Québec';
-    } else if (regionCode.includes('ca')) {
-      region = 'Canada';
-    } else if (regionCode.includes('us')) {
-      region = 'États-Unis';
+    return formData;
+  };
+  
+  let data: PlateRecognizerResult;
+  try {
+    data = await retryWithBackoff(() => sendPlateReaderRequest(buildFormData(), apiKey), {
+      retries: MAX_RETRIES,
+      baseDelayMs: RETRY_BASE_DELAY_MS,
+      maxDelayMs: RETRY_MAX_DELAY_MS,
+      shouldRetry: error => error instanceof RecognitionError && TRANSIENT_ERROR_CODES.includes(error.code),
+      getRetryAfterMs: error => error instanceof RecognitionError ? error.retryAfterMs : undefined
+    });
+    circuitBreaker.recordSuccess();
+  } catch (error) {
+    // Seules les pannes du service ouvrent le disjoncteur : une clé refusée ou un
+    // quota épuisé prouvent au contraire que l'API répond
+    if (error instanceof RecognitionError && TRANSIENT_ERROR_CODES.includes(error.code)) {
+      circuitBreaker.recordFailure();
+    } else {
+      circuitBreaker.recordSuccess();
     }
+    throw error;
+  }
+  
+  if (quota.calls !== undefined) {
+    quota.calls++;
+  }
+  
+  // Si aucun résultat n'est trouvé, retourner une liste vide
+  if (!data.results || data.results.length === 0) {
+    return [];
+  }
+  
+  // Convertir chaque résultat (un par véhicule) en détection
+  return data.results.map(result => {
+    const regionName = getRegionName(result.region?.code || 'unknown');
     
     // Extraire les coordonnées de la boîte englobante
     const boundingBox = {
-      x: bestResult.box.xmin,
-      y: bestResult.box.ymin,
-      width: bestResult.box.xmax - bestResult.box.xmin,
-      height: bestResult.box.ymax - bestResult.box.ymin
+      x: result.box.xmin,
+      y: result.box.ymin,
+      width: result.box.xmax - result.box.xmin,
+      height: result.box.ymax - result.box.ymin
     };
     
-    console.log(`Plaque détectée: ${plateNumber} (${region}) avec une confiance de ${confidence}`);
+    console.log(`Plaque détectée: ${result.plate} (${regionName}) avec une confiance de ${result.score}`);
     
     return {
-      detected: true,
-      plateNumber,
-      region,
-      confidence,
-      boundingBox
+      plateNumber: result.plate,
+      region: regionName,
+      confidence: result.score,
+      boundingBox,
+      candidates: (result.candidates || []).map(candidate => ({
+        plateNumber: candidate.plate,
+        score: candidate.score
+      })),
+      vehicle: {
+        type: result.vehicle?.type,
+        make: result.model_make?.[0]?.make,
+        model: result.model_make?.[0]?.model,
+        color: result.color?.[0]?.color
+      }
     };
-    
-  } catch (error) {
-    console.error('Erreur lors de la reconnaissance par API:', error);
-    return { detected: false };
-  }
+  });
 }
 
 /**
- * Valide une plaque d'immatriculation (pour les plaques saisies manuellement)
- * Détermine si la plaque est valide, expirée, etc. basé sur des règles définies
+ * Moteur de reconnaissance basé sur l'API cloud Plate Recognizer
  */
-export function validatePlateStatus(plateNumber: string): PlateStatus {
-  // Dans une vraie application, cette fonction ferait une requête à une base de données
-  // de plaques d'immatriculation pour vérifier le statut réel
-  
-  // Pour cette démo, nous utilisons une logique simplifiée basée sur le dernier caractère
-  const lastChar = plateNumber.charAt(plateNumber.length - 1);
-  const lastDigit = parseInt(lastChar, 10);
-  
-  if (isNaN(lastDigit)) {
-    return "other";
-  } else if (lastDigit >= 7) {
-    return "valid";
-  } else if (lastDigit >= 4) {
-    return "expired";
-  } else if (lastDigit >= 2) {
-    return "suspended";
-  } else {
-    return "other";
-  }
-}
-
-/**
- * Génère des détails explicatifs pour un statut de plaque donné
- */
-export function getStatusDetails(status: PlateStatus): string {
-  switch (status) {
-    case "valid":
-      return "Plaque en règle - Véhicule standard";
-    case "expired":
-      return "La plaque a expiré - Renouvellement requis";
-    case "suspended":
-      return "La plaque est suspendue - Consulter les autorités";
-    default:
-      return "Information non disponible - Statut indéterminé";
-  }
-}
\ No newline at end of file
+export const plateRecognizerProvider: RecognitionProvider = {
+  name: 'platerecognizer',
+  isAvailable: () => Boolean(process.env.PLATE_RECOGNIZER_API_KEY) || !isApiKeyRequired(),
+  recognize: recognizePlateWithAPI
+};
@@ -0,0 +1,97 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { PlateDetection } from './plate-recognition';
+import type { BoundingBox } from './recognition-provider';
+import { trackDetections, lockTrackForPlate } from './plate-tracker';
+
+const box: BoundingBox = { x: 100, y: 200, width: 120, height: 40 };
+
+function detection(plateNumber: string, confidence: number, boundingBox: BoundingBox | undefined = box): PlateDetection {
+  return {
+    plateNumber,
+    region: 'Ontario',
+    regionConfirmed: true,
+    status: 'valid',
+    details: '',
+    confidence,
+    boundingBox,
+    alternates: [],
+    registration: { found: true, status: 'valid', details: '', checkedAt: '2026-10-19T12:00:00.000Z' }
+  };
+}
+
+// Lecture consolidée de chaque image, pour une caméra donnée
+function trackFrames(cameraId: string, frames: PlateDetection[][]) {
+  return frames.map(frame => trackDetections(cameraId, frame));
+}
+
+test('le vote retient le caractère le plus lu à chaque position et garde les autres lectures', () => {
+  const frames = trackFrames('vote', [
+    [detection('ABC 123', 0.9)],
+    [detection('A8C 123', 0.6)],
+    [detection('ABC 128', 0.5)],
+    [detection('ABC 123', 0.8)]
+  ]);
+
+  const [{ track, consolidated }] = frames[3];
+  assert.equal(new Set(frames.map(([result]) => result.track.id)).size, 1);
+  assert.equal(track.reads.length, 4);
+  assert.equal(consolidated.plateNumber, 'ABC 123');
+  assert.equal(consolidated.readCount, 4);
+  assert.equal(consolidated.region, 'Ontario');
+  assert.ok(consolidated.confidence > 0.9);
+  assert.deepEqual(consolidated.alternates.map(alternate => alternate.plateNumber), ['A8C 123', 'ABC 128']);
+});
+
+test('la longueur est votée avant les caractères', () => {
+  const [, , [{ consolidated }]] = trackFrames('longueur', [
+    [detection('ABC 123', 0.6)],
+    [detection('ABC 1234', 0.9)],
+    [detection('ABC 123', 0.7)]
+  ]);
+
+  assert.equal(consolidated.plateNumber, 'ABC 123');
+  assert.deepEqual(consolidated.alternates.map(alternate => alternate.plateNumber), ['ABC 1234']);
+});
+
+test("deux plaques d'une même image suivent des pistes distinctes, jamais partagées entre caméras", () => {
+  const otherBox = { x: 600, y: 220, width: 120, height: 40 };
+  const [first, second] = trackFrames('pistes', [
+    [detection('ABC 123', 0.9), detection('XYZ 789', 0.9, otherBox)],
+    [detection('XYZ 789', 0.8, otherBox), detection('ABC 123', 0.8)]
+  ]);
+
+  assert.notEqual(first[0].track.id, first[1].track.id);
+  assert.equal(second[0].track.id, first[1].track.id);
+  assert.equal(second[1].track.id, first[0].track.id);
+
+  const [[elsewhere]] = trackFrames('autre-camera', [[detection('ABC 123', 0.9)]]);
+  assert.notEqual(elsewhere.track.id, first[0].track.id);
+  assert.equal(elsewhere.consolidated.readCount, 1);
+});
+
+test("une piste sans lecture pendant le délai est close", t => {
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 9, 19, 12) });
+  t.after(() => mock.timers.reset());
+
+  const [[before]] = trackFrames('delai', [[detection('ABC 123', 0.9)]]);
+  mock.timers.tick(9_000);
+  const [[within]] = trackFrames('delai', [[detection('ABC 123', 0.9)]]);
+  mock.timers.tick(11_000);
+  const [[after]] = trackFrames('delai', [[detection('ABC 123', 0.9)]]);
+
+  assert.equal(within.track.id, before.track.id);
+  assert.notEqual(after.track.id, before.track.id);
+  assert.equal(after.consolidated.readCount, 1);
+});
+
+test("la lecture corrigée par l'opérateur n'est plus remplacée par le vote", () => {
+  const [[{ track }]] = trackFrames('correction', [[detection('ABC 128', 0.9)]]);
+  track.plateId = 4242;
+  lockTrackForPlate(4242, 'ABC 123');
+
+  const [[{ consolidated }]] = trackFrames('correction', [[detection('ABC 123', 0.5)]]);
+  assert.equal(consolidated.plateNumber, 'ABC 123');
+  assert.equal(consolidated.readCount, 2);
+  assert.deepEqual(consolidated.alternates, []);
+});
@@ -0,0 +1,243 @@
+import { PlateCandidate } from '@shared/schema';
+import { BoundingBox } from './recognition-provider';
+import type { PlateDetection } from './plate-recognition';
+import { normalizePlateKey, plateKeyDistance } from './plate-normalization';
+
+// Une piste sans nouvelle lecture depuis ce délai est close (le véhicule est parti)
+const TRACK_TIMEOUT_MS = parseInt(process.env.PLATE_TRACK_TIMEOUT_MS || '10000', 10);
+// Nombre maximal de lectures conservées par piste pour le vote
+const MAX_VOTING_READS = 20;
+// Recouvrement minimal des boîtes pour rattacher une lecture à une piste
+const MIN_BOX_OVERLAP = 0.3;
+// Similarité minimale des textes lorsque les boîtes se recouvrent
+const MIN_TEXT_SIMILARITY_WITH_OVERLAP = 0.4;
+// Similarité minimale des textes seuls (boîtes absentes ou véhicule déplacé)
+const MIN_TEXT_SIMILARITY = 0.7;
+
+// Lecture d'une plaque dans une image, telle que prise en compte par le vote
+interface TrackRead {
+  plateNumber: string;
+  confidence: number;
+  region: string;
+  boundingBox?: BoundingBox;
+}
+
+// Suite de lectures d'une même plaque sur des images consécutives d'une caméra
+export interface PlateTrack {
+  id: string;
+  cameraId: string;
+  reads: TrackRead[];
+  lastBox?: BoundingBox;
+  lastSeenAt: number;
+  // Observation enregistrée pour cette piste (créée à la première lecture)
+  plateId?: number;
+  // Lecture consolidée connue lors de la dernière mise à jour
+  plateNumber?: string;
+  // Lecture imposée par l'opérateur : le vote ne la remplace plus
+  lockedPlateNumber?: string;
+  // Entrées de listes de surveillance déjà signalées pour ce véhicule
+  alertedHotlistEntryIds?: number[];
+}
+
+// Résultat du vote sur l'ensemble des lectures d'une piste
+export interface ConsolidatedRead {
+  plateNumber: string;
+  region: string;
+  confidence: number;
+  readCount: number;
+  // Autres lectures observées, pondérées par leur part des votes
+  alternates: PlateCandidate[];
+}
+
+const tracks = new Map<string, PlateTrack>();
+let nextTrackId = 1;
+
+/**
+ * Proportion de recouvrement de deux boîtes (intersection sur union)
+ */
+function boxOverlap(a: BoundingBox, b: BoundingBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Similarité de deux lectures (1 - distance de Levenshtein normalisée)
+ */
+function textSimilarity(a: string, b: string): number {
+  if (!a.length || !b.length) return a === b ? 1 : 0;
+  return 1 - plateKeyDistance(a, b) / Math.max(a.length, b.length);
+}
+
+/**
+ * Score d'association d'une lecture à une piste (0 si elles ne correspondent pas)
+ */
+function matchScore(track: PlateTrack, read: TrackRead): number {
+  // Comparer les clés normalisées : une confusion O/0 ou B/8 n'est pas une différence
+  const lastRead = track.reads[track.reads.length - 1];
+  const similarity = textSimilarity(
+    normalizePlateKey(track.plateNumber || lastRead.plateNumber, lastRead.region),
+    normalizePlateKey(read.plateNumber, read.region)
+  );
+
+  if (track.lastBox && read.boundingBox) {
+    const overlap = boxOverlap(track.lastBox, read.boundingBox);
+    if (overlap >= MIN_BOX_OVERLAP && similarity >= MIN_TEXT_SIMILARITY_WITH_OVERLAP) {
+      return overlap + similarity;
+    }
+  }
+
+  return similarity >= MIN_TEXT_SIMILARITY ? similarity : 0;
+}
+
+/**
+ * Vote caractère par caractère, pondéré par la confiance de chaque lecture.
+ * La longueur retenue est d'abord votée ; seules les lectures de cette longueur
+ * participent ensuite au vote de chaque position.
+ */
+function voteReads(reads: TrackRead[]): ConsolidatedRead {
+  const weightOf = (read: TrackRead) => Math.max(read.confidence, 0.01);
+
+  const lengthVotes = new Map<number, number>();
+  for (const read of reads) {
+    lengthVotes.set(read.plateNumber.length, (lengthVotes.get(read.plateNumber.length) || 0) + weightOf(read));
+  }
+  const [length] = Array.from(lengthVotes.entries()).sort((a, b) => b[1] - a[1])[0];
+  const voters = reads.filter(read => read.plateNumber.length === length);
+
+  let plateNumber = '';
+  let agreement = 0;
+
+  for (let position = 0; position < length; position++) {
+    const votes = new Map<string, number>();
+    let total = 0;
+    for (const read of voters) {
+      const character = read.plateNumber[position];
+      votes.set(character, (votes.get(character) || 0) + weightOf(read));
+      total += weightOf(read);
+    }
+
+    const [character, weight] = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0];
+    plateNumber += character;
+    agreement += weight / total;
+  }
+  agreement /= Math.max(length, 1);
+
+  // Les lectures identiques au consensus se renforcent mutuellement ; à défaut,
+  // la confiance moyenne est pondérée par l'accord entre les lectures
+  const exactMatches = voters.filter(read => read.plateNumber === plateNumber);
+  const combined = 1 - exactMatches.reduce((product, read) => product * (1 - read.confidence), 1);
+  const averageConfidence = voters.reduce((sum, read) => sum + read.confidence, 0) / voters.length;
+  const confidence = Math.min(0.99, Math.max(combined, averageConfidence * agreement));
+
+  // Région la plus fréquente parmi les lectures connues
+  const regionVotes = new Map<string, number>();
+  for (const read of reads) {
+    if (read.region && read.region !== 'Inconnu') {
+      regionVotes.set(read.region, (regionVotes.get(read.region) || 0) + weightOf(read));
+    }
+  }
+  const [region] = Array.from(regionVotes.entries()).sort((a, b) => b[1] - a[1])[0] || ['Inconnu'];
+
+  // Autres lectures, avec leur part du poids total
+  const totalWeight = reads.reduce((sum, read) => sum + weightOf(read), 0);
+  const alternateWeights = new Map<string, number>();
+  for (const read of reads) {
+    if (read.plateNumber === plateNumber) continue;
+    alternateWeights.set(read.plateNumber, (alternateWeights.get(read.plateNumber) || 0) + weightOf(read));
+  }
+  const alternates = Array.from(alternateWeights.entries())
+    .map(([candidate, weight]) => ({ plateNumber: candidate, score: weight / totalWeight }))
+    .sort((a, b) => b.score - a.score);
+
+  return { plateNumber, region, confidence, readCount: reads.length, alternates };
+}
+
+/**
+ * Ferme les pistes sans lecture récente
+ */
+function pruneTracks(now: number) {
+  for (const [id, track] of Array.from(tracks.entries())) {
+    if (now - track.lastSeenAt > TRACK_TIMEOUT_MS) {
+      tracks.delete(id);
+    }
+  }
+}
+
+/**
+ * Rattache les plaques détectées dans une image aux pistes en cours de la caméra
+ * (ou en ouvre de nouvelles) et renvoie la lecture consolidée de chaque piste.
+ * @param cameraId - Caméra d'origine ; les pistes ne sont jamais partagées entre caméras
+ */
+export function trackDetections(cameraId: string | undefined, detections: PlateDetection[]): {
+  track: PlateTrack;
+  detection: PlateDetection;
+  consolidated: ConsolidatedRead;
+}[] {
+  const now = Date.now();
+  pruneTracks(now);
+
+  const camera = cameraId || 'default';
+  const candidates = Array.from(tracks.values()).filter(track => track.cameraId === camera);
+  const assigned = new Set<string>();
+
+  return detections.map(detection => {
+    const read: TrackRead = {
+      plateNumber: detection.plateNumber.toUpperCase(),
+      confidence: detection.confidence,
+      region: detection.region,
+      boundingBox: detection.boundingBox
+    };
+
+    // Piste la plus proche non encore utilisée pour cette image
+    let best: PlateTrack | undefined;
+    let bestScore = 0;
+    for (const track of candidates) {
+      if (assigned.has(track.id)) continue;
+      const score = matchScore(track, read);
+      if (score > bestScore) {
+        best = track;
+        bestScore = score;
+      }
+    }
+
+    const track = best || {
+      id: `${camera}-${now}-${nextTrackId++}`,
+      cameraId: camera,
+      reads: [],
+      lastSeenAt: now
+    };
+
+    assigned.add(track.id);
+    track.reads = [...track.reads, read].slice(-MAX_VOTING_READS);
+    track.lastBox = read.boundingBox || track.lastBox;
+    track.lastSeenAt = now;
+    tracks.set(track.id, track);
+
+    const consolidated = voteReads(track.reads);
+    if (track.lockedPlateNumber) {
+      consolidated.plateNumber = track.lockedPlateNumber;
+      consolidated.alternates = consolidated.alternates.filter(alternate => alternate.plateNumber !== track.lockedPlateNumber);
+    }
+
+    return { track, detection, consolidated };
+  });
+}
+
+/**
+ * Fige la lecture de la piste liée à une observation après une correction manuelle
+ * de l'opérateur, pour que les images suivantes ne l'écrasent pas
+ */
+export function lockTrackForPlate(plateId: number, plateNumber: string): void {
+  for (const track of Array.from(tracks.values())) {
+    if (track.plateId === plateId) {
+      track.lockedPlateNumber = plateNumber;
+      track.plateNumber = plateNumber;
+    }
+  }
+}
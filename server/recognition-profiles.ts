@@ -0,0 +1,124 @@
+import fs from 'fs';
+import { RecognitionProfile, recognitionProfileSchema } from '@shared/schema';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Profil par défaut, équivalent aux anciennes valeurs codées en dur
+const DEFAULT_PROFILE: RecognitionProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: 'Par défaut',
+  minConfidence: 0.6,
+  regions: ['fr', 'ca-on', 'ca-qc', 'us'],
+  mode: 'fast',
+  detectionMode: 'vehicle',
+  cameraIds: [],
+  preprocessing: {
+    roi: null,
+    maxWidth: null,
+    deskew: false,
+    grayscale: false,
+    normalizeContrast: false,
+    sharpen: false
+  }
+};
+
+const profiles = new Map<string, RecognitionProfile>();
+
+/**
+ * Fichier JSON de persistance des profils (RECOGNITION_PROFILES_FILE).
+ * Sans fichier, les profils modifiés via l'API sont perdus au redémarrage.
+ */
+function getProfilesFile(): string | undefined {
+  return process.env.RECOGNITION_PROFILES_FILE;
+}
+
+function loadProfiles() {
+  profiles.set(DEFAULT_PROFILE_ID, DEFAULT_PROFILE);
+
+  const file = getProfilesFile();
+  if (!file || !fs.existsSync(file)) return;
+
+  try {
+    const saved = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    for (const entry of Array.isArray(saved) ? saved : []) {
+      const result = recognitionProfileSchema.safeParse(entry);
+      if (result.success) {
+        profiles.set(result.data.id, result.data);
+      } else {
+        console.warn('Profil de reconnaissance invalide ignoré:', result.error.errors);
+      }
+    }
+    console.log(`${profiles.size} profil(s) de reconnaissance chargé(s) depuis ${file}`);
+  } catch (error) {
+    console.error('Erreur lors du chargement des profils de reconnaissance:', error);
+  }
+}
+
+async function saveProfiles() {
+  const file = getProfilesFile();
+  if (!file) return;
+
+  await fs.promises.writeFile(file, JSON.stringify(Array.from(profiles.values()), null, 2));
+}
+
+loadProfiles();
+
+export function getRecognitionProfiles(): RecognitionProfile[] {
+  return Array.from(profiles.values());
+}
+
+export function getRecognitionProfile(id: string): RecognitionProfile | undefined {
+  return profiles.get(id);
+}
+
+/**
+ * Crée ou remplace un profil. Une caméra ne peut appartenir qu'à un seul profil :
+ * elle est retirée des autres profils si nécessaire.
+ */
+export async function saveRecognitionProfile(profile: RecognitionProfile): Promise<RecognitionProfile> {
+  for (const other of Array.from(profiles.values())) {
+    if (other.id === profile.id) continue;
+
+    const cameraIds = other.cameraIds.filter(cameraId => !profile.cameraIds.includes(cameraId));
+    if (cameraIds.length !== other.cameraIds.length) {
+      profiles.set(other.id, { ...other, cameraIds });
+    }
+  }
+
+  profiles.set(profile.id, profile);
+  await saveProfiles();
+  return profile;
+}
+
+/**
+ * Supprime un profil (le profil par défaut ne peut pas être supprimé)
+ */
+export async function deleteRecognitionProfile(id: string): Promise<boolean> {
+  if (id === DEFAULT_PROFILE_ID || !profiles.has(id)) {
+    return false;
+  }
+
+  profiles.delete(id);
+  await saveProfiles();
+  return true;
+}
+
+/**
+ * Détermine le profil à appliquer : profil demandé explicitement, sinon profil
+ * associé à la caméra, sinon profil par défaut.
+ */
+export function resolveRecognitionProfile(options: { profileId?: string; cameraId?: string }): RecognitionProfile {
+  if (options.profileId) {
+    const requested = profiles.get(options.profileId);
+    if (requested) return requested;
+    console.warn(`Profil de reconnaissance inconnu: ${options.profileId}, profil par défaut utilisé`);
+  }
+
+  if (options.cameraId) {
+    const cameraProfile = Array.from(profiles.values())
+      .find(profile => profile.cameraIds.includes(options.cameraId!));
+    if (cameraProfile) return cameraProfile;
+  }
+
+  return profiles.get(DEFAULT_PROFILE_ID) || DEFAULT_PROFILE;
+}
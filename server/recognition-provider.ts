@@ -0,0 +1,128 @@
+import type { PlateCandidate, RecognitionProfile, RecognitionErrorCode, RecognitionFailure } from '@shared/schema';
+
+// Boîte englobante en pixels, dans le même format que l'overlay du Scanner
+export type BoundingBox = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+// Description du véhicule porteur de la plaque, si le moteur la fournit
+export type VehicleInfo = {
+  type?: string;
+  make?: string;
+  model?: string;
+  color?: string;
+};
+
+// Plaque brute renvoyée par un moteur de reconnaissance (une par véhicule dans l'image)
+export interface ProviderDetection {
+  plateNumber: string;
+  region?: string;
+  confidence: number;
+  boundingBox?: BoundingBox;
+  // Autres lectures possibles proposées par le moteur (incluant souvent la principale)
+  candidates?: PlateCandidate[];
+  vehicle?: VehicleInfo;
+}
+
+// Indications transmises aux moteurs, issues du profil de reconnaissance
+export type RecognitionOptions = Pick<RecognitionProfile, 'regions' | 'mode' | 'detectionMode'> & {
+  cameraId?: string;
+};
+
+/**
+ * Erreur levée par un moteur, avec un code permettant à l'opérateur de distinguer
+ * « aucune plaque » d'une panne, d'une limitation de débit ou d'un quota épuisé
+ */
+export class RecognitionError extends Error {
+  constructor(
+    public readonly code: RecognitionErrorCode,
+    message: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'RecognitionError';
+  }
+}
+
+/**
+ * Convertit une erreur quelconque levée par un moteur en échec décrit
+ */
+export function toRecognitionFailure(engine: string | undefined, error: unknown): RecognitionFailure {
+  if (error instanceof RecognitionError) {
+    return {
+      engine,
+      code: error.code,
+      message: error.message,
+      ...(error.retryAfterMs !== undefined ? { retryAfterMs: error.retryAfterMs } : {})
+    };
+  }
+
+  return {
+    engine,
+    code: 'engine_error',
+    message: error instanceof Error ? error.message : String(error)
+  };
+}
+
+// Interface commune à tous les moteurs de reconnaissance (API cloud, OCR local, etc.)
+export interface RecognitionProvider {
+  // Identifiant du moteur, utilisé dans la configuration et dans les résultats
+  readonly name: string;
+  // Indique si le moteur peut être utilisé (clé API présente, dépendances chargées...)
+  isAvailable(): boolean;
+  // Reconnaît toutes les plaques d'une image base64 (tableau vide si aucune).
+  // Doit lever une erreur (de préférence une RecognitionError) en cas d'échec
+  // technique afin que le moteur suivant puisse prendre le relais.
+  recognize(imageBase64: string, options: RecognitionOptions): Promise<ProviderDetection[]>;
+}
+
+// Ordre par défaut : l'API cloud d'abord, puis le moteur local en secours
+const DEFAULT_PROVIDER_ORDER = ['platerecognizer', 'tesseract'];
+
+const providers = new Map<string, RecognitionProvider>();
+
+/**
+ * Enregistre un moteur de reconnaissance sous son nom
+ */
+export function registerRecognitionProvider(provider: RecognitionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Retourne l'ordre des moteurs configuré via RECOGNITION_PROVIDERS
+ * (liste séparée par des virgules, ex: "tesseract,platerecognizer")
+ */
+export function getProviderOrder(): string[] {
+  const configured = process.env.RECOGNITION_PROVIDERS;
+
+  if (!configured) {
+    return DEFAULT_PROVIDER_ORDER;
+  }
+
+  return configured
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(name => name.length > 0);
+}
+
+/**
+ * Retourne les moteurs enregistrés dans l'ordre de repli configuré.
+ * Les noms inconnus sont ignorés avec un avertissement.
+ */
+export function getRecognitionProviders(): RecognitionProvider[] {
+  const ordered: RecognitionProvider[] = [];
+
+  for (const name of getProviderOrder()) {
+    const provider = providers.get(name);
+    if (!provider) {
+      console.warn(`Moteur de reconnaissance inconnu ignoré: ${name}`);
+      continue;
+    }
+    ordered.push(provider);
+  }
+
+  return ordered;
+}
@@ -0,0 +1,65 @@
+import type { RegistrationRecord } from '@shared/schema';
+import { getJurisdiction, getRegionCountry } from '@shared/plate-formats';
+
+// Plaque recherchée : clé normalisée et saisie d'origine (certains registres l'exigent)
+export type RegistryQuery = {
+  plateKey: string;
+  plateNumber: string;
+  region?: string | null;
+};
+
+// Interface commune aux registres d'immatriculation (fichier local, service provincial...)
+export interface RegistryProvider {
+  // Identifiant du registre, utilisé dans la configuration et dans les résultats
+  readonly name: string;
+  // Retourne la fiche de la plaque, ou null si le registre ne la connaît pas.
+  // Doit lever une erreur si le registre est inaccessible, pour ne pas
+  // confondre une panne avec une plaque inconnue.
+  lookup(query: RegistryQuery): Promise<RegistrationRecord | null>;
+}
+
+/**
+ * Clé d'une plaque dans un registre ou dans le cache : région puis clé normalisée,
+ * car la même plaque désigne deux véhicules dans deux juridictions (« fr » et « ca-on »).
+ * Une région inconnue donne la clé des fiches sans région.
+ */
+export function registryKey(plateKey: string, region?: string | null): string {
+  const jurisdiction = getJurisdiction(region);
+  const regionName = jurisdiction ? jurisdiction.name : getRegionCountry(region) ? region : '';
+  return `${regionName}|${plateKey}`;
+}
+
+// Par défaut, seul le registre local est consulté
+const DEFAULT_REGISTRY_ORDER = ['local'];
+
+const providers = new Map<string, RegistryProvider>();
+
+/**
+ * Enregistre un registre sous son nom
+ */
+export function registerRegistryProvider(provider: RegistryProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Retourne les registres enregistrés dans l'ordre configuré via REGISTRY_PROVIDERS
+ * (liste séparée par des virgules). Les noms inconnus sont ignorés avec un avertissement.
+ */
+export function getRegistryProviders(): RegistryProvider[] {
+  const configured = process.env.REGISTRY_PROVIDERS;
+  const order = configured
+    ? configured.split(',').map(name => name.trim().toLowerCase()).filter(name => name.length > 0)
+    : DEFAULT_REGISTRY_ORDER;
+
+  const ordered: RegistryProvider[] = [];
+  for (const name of order) {
+    const provider = providers.get(name);
+    if (!provider) {
+      console.warn(`Registre inconnu ignoré: ${name}`);
+      continue;
+    }
+    ordered.push(provider);
+  }
+
+  return ordered;
+}
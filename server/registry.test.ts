@@ -0,0 +1,100 @@
+import { after, test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { RegistrationRecord } from '@shared/schema';
+
+// Registre local de test : la même plaque dans deux provinces, et une fiche sans région
+const registryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'registre-'));
+const registryFile = path.join(registryDir, 'registre.json');
+fs.writeFileSync(registryFile, JSON.stringify([
+  { plateNumber: 'ABC 123', region: 'Ontario', status: 'valid' },
+  { plateNumber: 'ABC 123', region: 'ca-mb', status: 'suspended' },
+  { plateNumber: 'XYZ 999', status: 'expired' }
+] satisfies RegistrationRecord[]));
+
+after(() => fs.rmSync(registryDir, { recursive: true, force: true }));
+
+process.env.REGISTRY_FILES = registryFile;
+process.env.REGISTRY_CACHE_TTL_MS = '60000';
+const { lookupRegistration, clearRegistryCache } = await import('./registry');
+const { registerRegistryProvider } = await import('./registry-provider');
+
+// Registre qui compte ses consultations ; il échoue tant que `failing` est vrai
+const counting = { calls: 0, failing: false };
+registerRegistryProvider({
+  name: 'compteur',
+  lookup: async ({ plateNumber, region }) => {
+    counting.calls++;
+    if (counting.failing) throw new Error('registre indisponible');
+    return { plateNumber, region, status: 'valid' };
+  }
+});
+
+// Consulte le registre de comptage à la place du registre local
+function useCountingRegistry(): void {
+  process.env.REGISTRY_PROVIDERS = 'compteur';
+  counting.calls = 0;
+  counting.failing = false;
+  clearRegistryCache();
+}
+
+test('lookupRegistration distingue la même plaque dans deux juridictions', async () => {
+  delete process.env.REGISTRY_PROVIDERS;
+  clearRegistryCache();
+
+  assert.equal((await lookupRegistration('ABC 123', 'Ontario')).status, 'valid');
+  assert.equal((await lookupRegistration('ABC-123', 'Manitoba')).status, 'suspended');
+  assert.equal((await lookupRegistration('ABC 123', 'ca-mb')).status, 'suspended');
+});
+
+test("lookupRegistration se rabat sur une fiche sans région, jamais sur celle d'une autre région", async () => {
+  delete process.env.REGISTRY_PROVIDERS;
+  clearRegistryCache();
+
+  assert.equal((await lookupRegistration('XYZ 999', 'Ontario')).status, 'expired');
+  assert.equal((await lookupRegistration('XYZ 999')).status, 'expired');
+  assert.equal((await lookupRegistration('ABC 123', 'Québec')).found, false);
+  assert.equal((await lookupRegistration('ABC 123')).found, false);
+});
+
+test("lookupRegistration garde une réponse en cache jusqu'à l'expiration du délai", async t => {
+  useCountingRegistry();
+  mock.timers.enable({ apis: ['Date'], now: Date.UTC(2026, 9, 19, 12) });
+  t.after(() => mock.timers.reset());
+
+  await lookupRegistration('ABC 123', 'Ontario');
+  await lookupRegistration('abc-123', 'Ontario');
+  assert.equal(counting.calls, 1);
+
+  mock.timers.tick(59_000);
+  await lookupRegistration('ABC 123', 'Ontario');
+  assert.equal(counting.calls, 1);
+
+  mock.timers.tick(2_000);
+  await lookupRegistration('ABC 123', 'Ontario');
+  assert.equal(counting.calls, 2);
+});
+
+test('lookupRegistration met en cache chaque région séparément', async () => {
+  useCountingRegistry();
+
+  assert.equal((await lookupRegistration('ABC 123', 'Ontario')).found, true);
+  await lookupRegistration('ABC 123', 'Manitoba');
+  await lookupRegistration('ABC 123', 'ca-on');
+  assert.equal(counting.calls, 2);
+});
+
+test("lookupRegistration ne met pas en cache la réponse d'un registre en panne", async () => {
+  useCountingRegistry();
+  counting.failing = true;
+
+  const result = await lookupRegistration('ABC 123', 'Ontario');
+  assert.equal(result.found, false);
+  assert.equal(result.details, 'Registre indisponible - Statut non vérifié');
+
+  counting.failing = false;
+  assert.equal((await lookupRegistration('ABC 123', 'Ontario')).found, true);
+  assert.equal(counting.calls, 2);
+});
@@ -0,0 +1,114 @@
+import { InsertLicensePlate, RegistryLookupResult } from '@shared/schema';
+import { registerRegistryProvider, getRegistryProviders, registryKey } from './registry-provider';
+import { localRegistryProvider } from './local-registry';
+import { normalizePlateKey } from './plate-normalization';
+import { getStatusDetails } from './status-catalogue';
+
+// Enregistrer les registres disponibles
+registerRegistryProvider(localRegistryProvider);
+
+// Durée de conservation d'une réponse du registre (REGISTRY_CACHE_TTL_MS, 5 minutes par défaut)
+const CACHE_TTL_MS = parseInt(process.env.REGISTRY_CACHE_TTL_MS || '300000', 10);
+// Nombre maximal de plaques en cache ; les plus anciennes sont retirées au-delà
+const MAX_CACHE_ENTRIES = 5000;
+
+const cache = new Map<string, { result: RegistryLookupResult; expiresAt: number }>();
+
+/**
+ * Interroge les registres configurés, dans l'ordre, jusqu'à trouver la plaque
+ */
+async function queryRegistries(plateKey: string, plateNumber: string, region?: string | null): Promise<{
+  result: RegistryLookupResult;
+  cacheable: boolean;
+}> {
+  const checkedAt = new Date().toISOString();
+  let failed = false;
+
+  for (const provider of getRegistryProviders()) {
+    try {
+      const record = await provider.lookup({ plateKey, plateNumber, region });
+      if (!record) continue;
+
+      return {
+        cacheable: true,
+        result: {
+          found: true,
+          status: record.status,
+          details: record.notes || getStatusDetails(record.status),
+          expiresAt: record.expiresAt || null,
+          ownerClass: record.ownerClass || null,
+          vehicleDescription: record.vehicleDescription || null,
+          notes: record.notes || null,
+          source: provider.name,
+          checkedAt
+        }
+      };
+    } catch (error) {
+      console.error(`Erreur du registre ${provider.name}:`, error);
+      failed = true;
+    }
+  }
+
+  // Un registre en panne ne permet pas de conclure : la réponse n'est pas mise en cache
+  return {
+    cacheable: !failed,
+    result: {
+      found: false,
+      status: "other",
+      details: failed
+        ? "Registre indisponible - Statut non vérifié"
+        : "Plaque introuvable dans le registre",
+      checkedAt
+    }
+  };
+}
+
+/**
+ * Recherche l'immatriculation d'une plaque (statut, expiration, véhicule, notes).
+ * Les réponses sont conservées en cache par région et clé normalisée pendant CACHE_TTL_MS.
+ */
+export async function lookupRegistration(plateNumber: string, region?: string | null): Promise<RegistryLookupResult> {
+  const plateKey = normalizePlateKey(plateNumber, region);
+  const cacheKey = registryKey(plateKey, region);
+  const cached = cache.get(cacheKey);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.result;
+  }
+
+  const { result, cacheable } = await queryRegistries(plateKey, plateNumber, region);
+
+  if (cacheable) {
+    cache.delete(cacheKey);
+    cache.set(cacheKey, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      cache.delete(cache.keys().next().value!);
+    }
+  } else {
+    cache.delete(cacheKey);
+  }
+
+  return result;
+}
+
+/**
+ * Champs d'une observation issus de la réponse du registre (statut et immatriculation)
+ */
+export function toPlateRegistrationFields(registration: RegistryLookupResult): Pick<InsertLicensePlate,
+  'status' | 'details' | 'registrationExpiresAt' | 'ownerClass' | 'registeredVehicle'
+> {
+  return {
+    status: registration.status,
+    details: registration.details,
+    registrationExpiresAt: registration.expiresAt || null,
+    ownerClass: registration.ownerClass || null,
+    registeredVehicle: registration.vehicleDescription || null
+  };
+}
+
+/**
+ * Vide le cache (après le rechargement d'un registre par exemple)
+ */
+export function clearRegistryCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,112 @@
+// États du disjoncteur : fermé (appels autorisés), ouvert (appels refusés),
+// semi-ouvert (un appel d'essai autorisé pour vérifier le rétablissement)
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Nombre d'échecs consécutifs avant ouverture
+  failureThreshold: number;
+  // Durée d'ouverture avant un appel d'essai, en millisecondes
+  resetTimeoutMs: number;
+}
+
+/**
+ * Disjoncteur : après trop d'échecs consécutifs, les appels sont refusés
+ * immédiatement pendant un certain temps au lieu de solliciter un service en panne.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInProgress = false;
+
+  constructor(private readonly name: string, private readonly options: CircuitBreakerOptions) {}
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.options.resetTimeoutMs) {
+      this.state = 'half_open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Délai restant avant le prochain appel d'essai (0 si le circuit n'est pas ouvert)
+   */
+  getRetryAfterMs(): number {
+    if (this.getState() !== 'open') return 0;
+    return Math.max(0, this.options.resetTimeoutMs - (Date.now() - this.openedAt));
+  }
+
+  /**
+   * Indique si un appel peut être tenté ; en semi-ouvert, un seul appel d'essai passe
+   */
+  canRequest(): boolean {
+    const state = this.getState();
+
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInProgress) return false;
+
+    this.trialInProgress = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`Disjoncteur ${this.name} refermé`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInProgress = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.trialInProgress = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`Disjoncteur ${this.name} ouvert après ${this.consecutiveFailures} échec(s) consécutif(s)`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+export interface RetryOptions {
+  // Nombre de nouvelles tentatives après le premier essai
+  retries: number;
+  // Délai de base du backoff exponentiel, en millisecondes
+  baseDelayMs: number;
+  // Délai maximal entre deux tentatives, en millisecondes
+  maxDelayMs: number;
+  // Indique si l'erreur est transitoire et mérite une nouvelle tentative
+  shouldRetry: (error: unknown) => boolean;
+  // Délai imposé par le service (ex: en-tête Retry-After), prioritaire sur le backoff
+  getRetryAfterMs?: (error: unknown) => number | undefined;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Exécute une opération avec nouvelles tentatives et backoff exponentiel (avec gigue)
+ */
+export async function retryWithBackoff<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= options.retries || !options.shouldRetry(error)) {
+        throw error;
+      }
+
+      const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+      const requested = options.getRetryAfterMs?.(error);
+      const delay = requested !== undefined
+        ? Math.min(options.maxDelayMs, requested)
+        : backoff / 2 + Math.random() * backoff / 2;
+
+      console.log(`Nouvelle tentative ${attempt + 1}/${options.retries} dans ${Math.round(delay)} ms`);
+      await sleep(delay);
+    }
+  }
+}
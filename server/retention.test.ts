@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LicensePlate } from '@shared/schema';
+import { buildRetentionRules, matchesRetentionRule } from './retention';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const now = new Date('2026-10-19T12:00:00Z');
+
+function sighting(ageMs: number, fields: Partial<LicensePlate> = {}): LicensePlate {
+  return { status: 'valid', hotlistHit: false, detectedAt: new Date(now.getTime() - ageMs), ...fields } as LicensePlate;
+}
+
+// Politique qui purgerait l'observation, ou null si elle est conservée
+function purgingPolicy(plate: LicensePlate): string | null {
+  const match = buildRetentionRules(now).find(({ rule }) => matchesRetentionRule(plate, rule));
+  return match ? match.policy.id : null;
+}
+
+test('buildRetentionRules calcule la date limite de chaque politique', () => {
+  const rules = buildRetentionRules(now);
+
+  assert.deepEqual(rules.map(({ policy }) => policy.id), ['hotlist-hit', 'registry-alert', 'non-hit']);
+  assert.equal(rules[2].rule.detectedBefore.getTime(), now.getTime() - 48 * HOUR_MS);
+  assert.equal(rules[1].rule.detectedBefore.getTime(), now.getTime() - 365 * DAY_MS);
+});
+
+test('buildRetentionRules exclut les critères des politiques précédentes', () => {
+  const rules = buildRetentionRules(now);
+
+  assert.deepEqual(rules[0].rule.exclude, []);
+  assert.deepEqual(rules[2].rule.exclude, [
+    { hotlistHit: true, statuses: undefined },
+    { hotlistHit: undefined, statuses: ['suspended', 'stolen', 'wanted'] }
+  ]);
+});
+
+test("une observation n'est purgée que par la première politique qui la couvre", () => {
+  assert.equal(purgingPolicy(sighting(3 * DAY_MS)), 'non-hit');
+  assert.equal(purgingPolicy(sighting(DAY_MS)), null);
+
+  // Une alerte de plus de 48 heures relève de sa propre politique, pas de celle des lectures ordinaires
+  assert.equal(purgingPolicy(sighting(3 * DAY_MS, { status: 'stolen' })), null);
+  assert.equal(purgingPolicy(sighting(400 * DAY_MS, { status: 'stolen' })), 'registry-alert');
+
+  assert.equal(purgingPolicy(sighting(400 * DAY_MS, { status: 'stolen', hotlistHit: true })), null);
+  assert.equal(purgingPolicy(sighting(800 * DAY_MS, { hotlistHit: true })), 'hotlist-hit');
+});
@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { and, eq, inArray, lt, not, sql, type Column, type SQL } from 'drizzle-orm';
+import { retentionPolicySchema, type LicensePlate, type PurgeAudit, type PurgePolicyResult, type RetentionPolicy } from '@shared/schema';
+import type { IStorage } from './storage';
+import { deleteEvidenceBlobs } from './evidence';
+
+// Intervalle du job de purge ; 0 désactive la purge planifiée
+const PURGE_INTERVAL_MS = parseInt(process.env.RETENTION_PURGE_INTERVAL_MS || '3600000', 10);
+
+const HOURS_PER_DAY = 24;
+
+// Politiques par défaut. RETENTION_POLICIES_FILE (JSON) les remplace en totalité :
+// l'ordre compte, la première politique dont les critères correspondent s'applique.
+const DEFAULT_POLICIES: RetentionPolicy[] = [
+  { id: 'hotlist-hit', label: 'Correspondances de liste de surveillance', hotlistHit: true, retentionHours: 2 * 365 * HOURS_PER_DAY },
+  { id: 'registry-alert', label: 'Alertes du registre', statuses: ['suspended', 'stolen', 'wanted'], retentionHours: 365 * HOURS_PER_DAY },
+  { id: 'non-hit', label: 'Lectures sans correspondance', retentionHours: 48 }
+];
+
+// Critères d'une politique, sans sa durée
+export type RetentionCriteria = Pick<RetentionPolicy, 'hotlistHit' | 'statuses'>;
+
+// Observations qu'une politique purge : détectées avant la date limite, couvertes par
+// ses critères et par aucune des politiques précédentes
+export interface SightingRetentionRule extends RetentionCriteria {
+  detectedBefore: Date;
+  exclude: RetentionCriteria[];
+}
+
+// Lignes supprimées par une purge, et clés des images dont les fichiers restent à retirer
+export type SightingPurge = {
+  sightings: number;
+  reads: number;
+  statusChecks: number;
+  vehicles: number;
+  imageKeys: string[];
+};
+
+export type PurgeTrigger = 'scheduled' | 'manual';
+
+let policies: RetentionPolicy[] | null = null;
+let runningPurge: Promise<PurgeAudit> | null = null;
+
+/**
+ * Charge les politiques du fichier RETENTION_POLICIES_FILE. Une seule politique
+ * invalide fait rejeter tout le fichier : l'ignorer ferait tomber les observations
+ * qu'elle protège sous une politique plus courte.
+ */
+function loadPolicies(): RetentionPolicy[] {
+  const file = process.env.RETENTION_POLICIES_FILE;
+  if (!file) return DEFAULT_POLICIES;
+
+  try {
+    const entries: unknown = JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+    const result = retentionPolicySchema.array().min(1).safeParse(entries);
+
+    if (!result.success) {
+      console.error(`Politiques de conservation invalides dans ${file}, politiques par défaut conservées:`, result.error.errors);
+      return DEFAULT_POLICIES;
+    }
+
+    console.log(`Politiques de conservation chargées depuis ${file} (${result.data.length} politiques)`);
+    return result.data;
+  } catch (error) {
+    console.error(`Erreur lors du chargement des politiques de conservation ${file}:`, error);
+    return DEFAULT_POLICIES;
+  }
+}
+
+export function getRetentionPolicies(): RetentionPolicy[] {
+  if (!policies) {
+    policies = loadPolicies();
+  }
+  return policies;
+}
+
+/**
+ * Règles de purge des politiques à un instant donné, dans leur ordre de priorité
+ */
+export function buildRetentionRules(now: Date): { policy: RetentionPolicy; rule: SightingRetentionRule }[] {
+  return getRetentionPolicies().map((policy, index, all) => ({
+    policy,
+    rule: {
+      hotlistHit: policy.hotlistHit,
+      statuses: policy.statuses,
+      detectedBefore: new Date(now.getTime() - policy.retentionHours * 60 * 60 * 1000),
+      exclude: all.slice(0, index).map(({ hotlistHit, statuses }) => ({ hotlistHit, statuses }))
+    }
+  }));
+}
+
+function matchesCriteria(plate: LicensePlate, criteria: RetentionCriteria): boolean {
+  return (criteria.hotlistHit === undefined || plate.hotlistHit === criteria.hotlistHit) &&
+    (!criteria.statuses || criteria.statuses.includes(plate.status));
+}
+
+/**
+ * Vérifie qu'une observation est purgée par une règle (stockage en mémoire)
+ */
+export function matchesRetentionRule(plate: LicensePlate, rule: SightingRetentionRule): boolean {
+  return plate.detectedAt < rule.detectedBefore &&
+    matchesCriteria(plate, rule) &&
+    !rule.exclude.some(criteria => matchesCriteria(plate, criteria));
+}
+
+type RetentionColumns = { status: Column; hotlistHit: Column; detectedAt: Column };
+
+function criteriaCondition(columns: RetentionColumns, criteria: RetentionCriteria): SQL {
+  return and(
+    criteria.hotlistHit !== undefined ? eq(columns.hotlistHit, criteria.hotlistHit) : undefined,
+    criteria.statuses ? inArray(columns.status, criteria.statuses) : undefined
+  ) || sql`1 = 1`;
+}
+
+/**
+ * Condition SQL d'une règle, commune à PostgreSQL et SQLite
+ */
+export function retentionRuleCondition(columns: RetentionColumns, rule: SightingRetentionRule): SQL {
+  return and(
+    lt(columns.detectedAt, rule.detectedBefore),
+    criteriaCondition(columns, rule),
+    ...rule.exclude.map(criteria => not(criteriaCondition(columns, criteria)))
+  ) as SQL;
+}
+
+/**
+ * Ce qu'une purge supprimerait maintenant, politique par politique, sans rien supprimer
+ */
+export async function previewPurge(storage: IStorage, now = new Date()) {
+  const results = await Promise.all(buildRetentionRules(now).map(async ({ policy, rule }) => ({
+    ...policy,
+    cutoff: rule.detectedBefore.toISOString(),
+    sightings: await storage.countSightingsToPurge(rule)
+  })));
+
+  return {
+    generatedAt: now.toISOString(),
+    totalSightings: results.reduce((total, result) => total + result.sightings, 0),
+    policies: results
+  };
+}
+
+async function purge(storage: IStorage, trigger: PurgeTrigger): Promise<PurgeAudit> {
+  const startedAt = new Date();
+  const totals = { sightings: 0, reads: 0, statusChecks: 0, vehicles: 0, images: 0 };
+  const results: PurgePolicyResult[] = [];
+  let error: string | null = null;
+
+  try {
+    for (const { policy, rule } of buildRetentionRules(startedAt)) {
+      const purged = await storage.purgeSightings(rule);
+      results.push({ policyId: policy.id, cutoff: rule.detectedBefore.toISOString(), sightings: purged.sightings });
+
+      totals.sightings += purged.sightings;
+      totals.reads += purged.reads;
+      totals.statusChecks += purged.statusChecks;
+      totals.vehicles += purged.vehicles;
+      totals.images += purged.imageKeys.length;
+
+      // Les fichiers ne sont retirés qu'une fois la transaction validée : un échec
+      // ici laisse des fichiers orphelins, jamais une ligne sans son image
+      await deleteEvidenceBlobs(purged.imageKeys);
+    }
+  } catch (purgeError) {
+    console.error('Erreur lors de la purge des données expirées:', purgeError);
+    error = purgeError instanceof Error ? purgeError.message : String(purgeError);
+  }
+
+  // L'audit est écrit même après un échec : les suppressions déjà faites y figurent
+  const audit = await storage.createPurgeAudit({
+    trigger,
+    startedAt,
+    sightingsDeleted: totals.sightings,
+    readsDeleted: totals.reads,
+    statusChecksDeleted: totals.statusChecks,
+    vehiclesDeleted: totals.vehicles,
+    imagesDeleted: totals.images,
+    policies: results,
+    error
+  });
+
+  if (totals.sightings > 0) {
+    console.log(`Purge (${trigger}): ${totals.sightings} observation(s), ${totals.reads} lecture(s), ${totals.images} image(s), ${totals.vehicles} véhicule(s) supprimés`);
+  }
+
+  return audit;
+}
+
+/**
+ * Applique les politiques de conservation. Une purge déjà en cours n'est pas
+ * relancée : l'appelant reçoit son résultat.
+ */
+export function runPurge(storage: IStorage, trigger: PurgeTrigger): Promise<PurgeAudit> {
+  if (!runningPurge) {
+    runningPurge = purge(storage, trigger).finally(() => {
+      runningPurge = null;
+    });
+  }
+  return runningPurge;
+}
+
+/**
+ * Lance la purge au démarrage puis à intervalle régulier (RETENTION_PURGE_INTERVAL_MS)
+ */
+export function startRetentionSchedule(storage: IStorage): void {
+  if (PURGE_INTERVAL_MS <= 0) {
+    console.log('Purge planifiée désactivée (RETENTION_PURGE_INTERVAL_MS=0)');
+    return;
+  }
+
+  const scheduledPurge = () => {
+    runPurge(storage, 'scheduled').catch(error => {
+      console.error("Erreur lors de l'écriture de l'audit de purge:", error);
+    });
+  };
+
+  scheduledPurge();
+  setInterval(scheduledPurge, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,79 @@
+import { after, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'net';
+import express from 'express';
+
+process.env.STORAGE_DRIVER = 'memory';
+process.env.ADMIN_TOKEN = 'jeton-admin';
+const { initializeStorage } = await import('./storage');
+const { registerRoutes } = await import('./routes');
+
+await initializeStorage();
+const app = express();
+app.use(express.json());
+const server = await registerRoutes(app);
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function request(method: string, path: string, options: { token?: string; body?: unknown } = {}): Promise<Response> {
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(options.token ? { Authorization: `Bearer ${options.token}` } : {})
+    },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body)
+  });
+}
+
+test("les modifications des listes de surveillance exigent le jeton d'administration", async () => {
+  const hotlist = { name: 'Vols', source: 'police' };
+
+  assert.equal((await request('POST', '/api/hotlists', { body: hotlist })).status, 401);
+  assert.equal((await request('POST', '/api/hotlists', { token: 'autre-jeton', body: hotlist })).status, 401);
+
+  const created = await request('POST', '/api/hotlists', { token: 'jeton-admin', body: hotlist });
+  assert.equal(created.status, 201);
+  const { id } = await created.json();
+
+  const entry = { plateNumber: 'ABC 123', reason: 'stolen', priority: 'high' };
+  assert.equal((await request('POST', `/api/hotlists/${id}/entries`, { body: entry })).status, 401);
+  assert.equal((await request('PATCH', `/api/hotlists/${id}`, { body: { active: false } })).status, 401);
+  assert.equal((await request('DELETE', `/api/hotlists/${id}`)).status, 401);
+  assert.equal((await request('GET', `/api/hotlists/${id}`)).status, 200);
+  assert.equal((await request('POST', `/api/hotlists/${id}/entries`, { token: 'jeton-admin', body: entry })).status, 201);
+});
+
+test("les modifications des permis exigent le jeton d'administration", async () => {
+  const permit = { plateNumber: 'ABC 123', region: 'Ontario', permitType: 'permit', zone: 'P1' };
+
+  assert.equal((await request('POST', '/api/permits', { body: permit })).status, 401);
+
+  const created = await request('POST', '/api/permits', { token: 'jeton-admin', body: permit });
+  assert.equal(created.status, 201);
+  const { id } = await created.json();
+
+  assert.equal((await request('PATCH', `/api/permits/${id}`, { body: { zone: 'P2' } })).status, 401);
+  assert.equal((await request('DELETE', `/api/permits/${id}`)).status, 401);
+  assert.equal((await request('GET', '/api/permits/check?plateNumber=ABC123&region=Ontario&zone=P1')).status, 200);
+  assert.equal((await request('DELETE', `/api/permits/${id}`, { token: 'jeton-admin' })).status, 204);
+});
+
+test("la purge et son aperçu refusent une requête sans jeton d'administration", async () => {
+  assert.equal((await request('POST', '/api/retention/purge')).status, 401);
+  assert.equal((await request('GET', '/api/retention/preview')).status, 401);
+  assert.equal((await request('GET', '/api/retention/audits')).status, 401);
+
+  // La purge refusée n'a pas été lancée
+  const audits = await request('GET', '/api/retention/audits', { token: 'jeton-admin' });
+  assert.equal(audits.status, 200);
+  assert.deepEqual(await audits.json(), []);
+
+  assert.equal((await request('GET', '/api/retention/preview', { token: 'jeton-admin' })).status, 200);
+  assert.equal((await request('POST', '/api/retention/purge', { token: 'jeton-admin' })).status, 200);
+});
@@ -1,25 +1,122 @@
-import type { Express } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import { storage } from "./storage";
 import { setupWebSocketServer } from "./websocket";
-import { insertLicensePlateSchema, plateStatusSchema } from "@shared/schema";
+import {
+  insertLicensePlateSchema,
+  insertHotlistSchema,
+  insertHotlistEntrySchema,
+  insertPermitSchema,
+  plateStatusSchema,
+  plateCategorySchema,
+  recognitionProfileSchema,
+  evidenceKindSchema,
+  sightingQuerySchema,
+  statsQuerySchema,
+  WebSocketMessage,
+  type LicensePlate,
+  type RegistryLookupResult,
+  type HotlistMatch,
+  type PermitCheckResult,
+  type SightingPage,
+  type StatsSummary,
+  type EvidenceSession
+} from "@shared/schema";
 import { z } from "zod";
+import { resolvePlateRegion } from "@shared/plate-formats";
 import { recognizeLicensePlate } from "./plate-recognition";
+import { trackDetections, lockTrackForPlate } from "./plate-tracker";
+import { normalizePlateKey } from "./plate-normalization";
+import { lookupRegistration, clearRegistryCache, toPlateRegistrationFields } from "./registry";
+import { matchHotlists } from "./hotlist-matching";
+import { checkPermit, getDefaultPermitZone } from "./permits";
+import { reloadLocalRegistry } from "./local-registry";
+import { getStatusCatalogue } from "./status-catalogue";
+import { previewPurge, runPurge } from "./retention";
+import { encodeSightingCursor, decodeSightingCursor } from "./sighting-search";
+import { completeStatsBuckets, getDefaultGroupings, getZonedDay, MAX_HOURLY_RANGE_MS, SERVER_TIME_ZONE } from "./sighting-stats";
+import {
+  saveSightingEvidence,
+  withEvidence,
+  readEvidenceImage,
+  EvidenceIntegrityError
+} from "./evidence";
+import {
+  initializeEvidenceAccess,
+  checkAccessCode,
+  hasEvidenceAccess,
+  requireEvidenceAccess,
+  openEvidenceSession,
+  closeEvidenceSession
+} from "./evidence-access";
+import { requireAdminAccess } from "./admin-access";
+import { getPlateRecognizerHealth } from "./plate-recognizer-api";
+import { getRecognitionProviders, type BoundingBox } from "./recognition-provider";
+import {
+  getRecognitionProfiles,
+  getRecognitionProfile,
+  saveRecognitionProfile,
+  deleteRecognitionProfile,
+  resolveRecognitionProfile
+} from "./recognition-profiles";
+
+// Identifiants numériques des routes (:id, :entryId), dans les bornes d'une colonne serial
+const idParamSchema = z.string().regex(/^\d+$/).transform(Number).pipe(z.number().int().positive().max(2147483647));
+
+// Refuse un identifiant invalide avant d'interroger le stockage
+function requireNumericIds(req: Request, res: Response, next: NextFunction) {
+  for (const [name, value] of Object.entries(req.params)) {
+    if (!idParamSchema.safeParse(value).success) {
+      return res.status(400).json({ error: `Invalid ${name}` });
+    }
+  }
+  next();
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Configuration d'accès aux images vérifiée avant d'ouvrir les routes
+  initializeEvidenceAccess();
+
   const httpServer = createServer(app);
   
   // Setup WebSocket server on /ws path
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
   setupWebSocketServer(wss, storage);
   
+  // Alerte prioritaire : une plaque reconnue figure sur une liste de surveillance
+  const broadcastHotlistAlert = (plate: LicensePlate, matches: HotlistMatch[], cameraId?: string) => {
+    console.log(`ALERTE liste de surveillance: ${plate.plateNumber} (${matches.map(match => match.hotlist.name).join(', ')})`);
+    
+    const alertMessage: WebSocketMessage = {
+      type: "HOTLIST_ALERT",
+      data: {
+        plate,
+        cameraId,
+        // Les correspondances sont triées par priorité décroissante
+        priority: matches[0].entry.priority,
+        matches
+      }
+    };
+    
+    wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(JSON.stringify(alertMessage));
+      }
+    });
+  };
+  
   // API routes
   app.get("/api/plates/recent", async (req, res) => {
     try {
-      const recentPlates = await storage.getRecentPlates(10);
-      res.json(recentPlates);
+      const { category } = z.object({ category: plateCategorySchema.optional() }).parse(req.query);
+      const recentPlates = await storage.getRecentPlates(10, { category });
+      res.json(await withEvidence(storage, recentPlates));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid plate category", details: error.errors });
+      }
+      
       res.status(500).json({ error: "Failed to fetch recent plates" });
     }
   });
@@ -27,53 +124,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/scan", async (req, res) => {
     try {
       // Validate request body
-      const { image } = req.body;
+      const { image, cameraId, profileId, debug, zone } = req.body;
       
       if (!image) {
         return res.status(400).json({ error: "Image data is required" });
       }
       
-      console.log("Traitement d'une image pour reconnaissance de plaque avec l'API Plate Recognizer...");
+      // Profil demandé, sinon celui de la caméra, sinon le profil par défaut
+      const profile = resolveRecognitionProfile({ profileId, cameraId });
+      // Stationnement contrôlé : les permis ne sont vérifiés que si une zone est connue
+      const permitZone: string | undefined = zone || getDefaultPermitZone();
+      
+      console.log(`Traitement d'une image pour reconnaissance de plaque (caméra: ${cameraId || 'inconnue'})...`);
       
-      // Utiliser le module de reconnaissance de plaque d'immatriculation avec l'API Plate Recognizer
-      const recognitionResult = await recognizeLicensePlate(image);
+      // Utiliser le module de reconnaissance avec les moteurs configurés (API cloud, OCR local)
+      const recognitionResult = await recognizeLicensePlate(image, profile, { cameraId, debug: debug === true });
+      
+      // Signaler les pannes de moteur (même relayées par un moteur de secours) à tous les clients
+      if (recognitionResult.failures.length > 0) {
+        const mainFailure = recognitionResult.error || recognitionResult.failures[0];
+        const errorMessage: WebSocketMessage = {
+          type: "ERROR",
+          error: mainFailure.message,
+          data: {
+            code: mainFailure.code,
+            engine: mainFailure.engine,
+            retryAfterMs: mainFailure.retryAfterMs,
+            cameraId,
+            // Un autre moteur a pris le relais : la reconnaissance continue en mode dégradé
+            degraded: !recognitionResult.error,
+            failures: recognitionResult.failures
+          }
+        };
+        
+        wss.clients.forEach(client => {
+          if (client.readyState === WebSocket.OPEN) {
+            client.send(JSON.stringify(errorMessage));
+          }
+        });
+      }
+      
+      if (recognitionResult.error) {
+        return res.json({
+          detected: false,
+          profileId: recognitionResult.profileId,
+          detections: [],
+          error: recognitionResult.error,
+          failures: recognitionResult.failures
+        });
+      }
       
       if (!recognitionResult.detected) {
         // Si aucune plaque n'est détectée, renvoyer un objet vide
         console.log("Aucune plaque détectée dans l'image");
-        return res.json({ detected: false });
+        return res.json({
+          detected: false,
+          engine: recognitionResult.engine,
+          profileId: recognitionResult.profileId,
+          detections: [],
+          failures: recognitionResult.failures,
+          debugImages: recognitionResult.debugImages
+        });
       }
       
-      console.log(`Plaque détectée: ${recognitionResult.plateNumber} (${recognitionResult.region}) avec confiance: ${recognitionResult.confidence}`);
+      console.log(`${recognitionResult.detections.length} plaque(s) détectée(s) par ${recognitionResult.engine}`);
       
-      // Enregistrer la plaque détectée dans la base de données
-      const newPlate = await storage.createLicensePlate({
-        plateNumber: recognitionResult.plateNumber!,
-        region: recognitionResult.region || "Inconnu",
-        status: recognitionResult.status || "other",
-        detectionType: "automatic",
-        details: recognitionResult.details || "Information non disponible"
-      });
+      // Regrouper les lectures avec celles des images précédentes de la même caméra :
+      // une piste donne une seule observation, créée à la première lecture puis mise à jour
+      const changedPlates: LicensePlate[] = [];
+      const detections: (LicensePlate & {
+        engine?: string;
+        trackId: string;
+        readConfidence: number;
+        boundingBox?: BoundingBox;
+        registration: RegistryLookupResult;
+        hotlistMatches: HotlistMatch[];
+        permit?: PermitCheckResult;
+      })[] = [];
       
-      // Diffuser la détection à tous les clients WebSocket connectés
-      wss.clients.forEach(client => {
-        if (client.readyState === WebSocket.OPEN) {
-          client.send(JSON.stringify({
-            type: "PLATE_DETECTED",
-            data: {
-              ...newPlate,
-              confidence: recognitionResult.confidence,
-              boundingBox: recognitionResult.boundingBox
-            }
-          }));
+      for (const { track, detection, consolidated } of trackDetections(cameraId, recognitionResult.detections)) {
+        // Le statut dépend de la lecture consolidée, pas de celle de cette image
+        const registration = await lookupRegistration(consolidated.plateNumber, consolidated.region);
+        const permit = permitZone
+          ? await checkPermit(storage, consolidated.plateNumber, consolidated.region, permitZone)
+          : undefined;
+        const sightingData = {
+          plateNumber: consolidated.plateNumber,
+          region: consolidated.region,
+          ...toPlateRegistrationFields(registration),
+          zone: permitZone,
+          permitStatus: permit?.status,
+          alternates: consolidated.alternates,
+          confidence: consolidated.confidence,
+          readCount: consolidated.readCount,
+          lastSeenAt: new Date()
+        };
+        
+        let plate: LicensePlate | undefined;
+        if (track.plateId !== undefined) {
+          plate = await storage.updatePlate(track.plateId, {
+            ...sightingData,
+            // Compléter la description du véhicule si une image précédente ne l'avait pas
+            ...(detection.vehicle?.type ? { vehicleType: detection.vehicle.type } : {}),
+            ...(detection.vehicle?.make ? { vehicleMake: detection.vehicle.make } : {}),
+            ...(detection.vehicle?.model ? { vehicleModel: detection.vehicle.model } : {}),
+            ...(detection.vehicle?.color ? { vehicleColor: detection.vehicle.color } : {})
+          });
         }
-      });
+        
+        const isNewSighting = !plate;
+        if (!plate) {
+          plate = await storage.createLicensePlate({
+            ...sightingData,
+            detectionType: "automatic",
+            vehicleType: detection.vehicle?.type,
+            vehicleMake: detection.vehicle?.make,
+            vehicleModel: detection.vehicle?.model,
+            vehicleColor: detection.vehicle?.color,
+            cameraId
+          });
+          track.plateId = plate.id;
+          
+          // Garder l'image qui a fait naître l'observation, comme preuve
+          await saveSightingEvidence(storage, plate.id, image, detection.boundingBox);
+        }
+        
+        // Conserver la lecture brute de cette image pour l'audit
+        await storage.createPlateRead({
+          plateId: plate.id,
+          trackId: track.id,
+          plateNumber: detection.plateNumber,
+          region: detection.region,
+          confidence: detection.confidence,
+          boundingBox: detection.boundingBox,
+          engine: recognitionResult.engine,
+          cameraId
+        });
+        
+        // Ne notifier les clients que si la lecture consolidée a changé
+        if (isNewSighting || track.plateNumber !== plate.plateNumber) {
+          changedPlates.push(plate);
+        }
+        track.plateNumber = plate.plateNumber;
+        
+        // Une entrée de liste de surveillance n'est signalée qu'une fois par véhicule
+        const hotlistMatches = await matchHotlists(storage, plate.plateNumber, plate.region, consolidated.alternates);
+        if (hotlistMatches.length > 0 && !plate.hotlistHit) {
+          // Les correspondances sont conservées plus longtemps (voir retention.ts)
+          plate = (await storage.updatePlate(plate.id, { hotlistHit: true })) || plate;
+        }
+        const alerted = track.alertedHotlistEntryIds || [];
+        const newMatches = hotlistMatches.filter(match => !alerted.includes(match.entry.id));
+        if (newMatches.length > 0) {
+          track.alertedHotlistEntryIds = [...alerted, ...newMatches.map(match => match.entry.id)];
+          broadcastHotlistAlert(plate, newMatches, cameraId);
+        }
+        
+        detections.push({
+          ...plate,
+          engine: recognitionResult.engine,
+          trackId: track.id,
+          // Confiance de la lecture de cette image ; celle de l'observation est consolidée
+          readConfidence: detection.confidence,
+          confidence: consolidated.confidence,
+          boundingBox: detection.boundingBox,
+          registration,
+          hotlistMatches,
+          permit
+        });
+      }
+      
+      console.log(`${changedPlates.length} observation(s) nouvelle(s) ou modifiée(s)`);
+      
+      // Diffuser les détections à tous les clients WebSocket connectés
+      if (changedPlates.length > 0) {
+        wss.clients.forEach(client => {
+          if (client.readyState === WebSocket.OPEN) {
+            client.send(JSON.stringify({
+              type: "PLATE_DETECTED",
+              data: detections
+            }));
+          }
+        });
+      }
       
       res.json({
         detected: true,
-        ...newPlate,
-        confidence: recognitionResult.confidence,
-        boundingBox: recognitionResult.boundingBox
+        engine: recognitionResult.engine,
+        profileId: recognitionResult.profileId,
+        detections,
+        failures: recognitionResult.failures,
+        debugImages: recognitionResult.debugImages
       });
     } catch (error) {
       console.error("Error processing scan:", error);
@@ -86,39 +327,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate request with Zod schema
       const plateData = insertLicensePlateSchema.parse(req.body);
       
-      // Importer les fonctions de validation de l'API
-      const { validatePlateStatus, getStatusDetails } = await import('./plate-recognizer-api');
-      
       // Valider la plaque d'immatriculation saisie manuellement
       const plateNumber = plateData.plateNumber;
       
-      // Déterminer le statut et les détails
-      const status = validatePlateStatus(plateNumber);
-      const details = getStatusDetails(status);
+      // Déduire la province ou l'État du format si seul le pays est indiqué
+      const { region } = resolvePlateRegion(plateNumber, plateData.region);
+      
+      // Déterminer le statut et les détails auprès du registre
+      const registration = await lookupRegistration(plateNumber, region);
       
-      // S'assurer que la région est toujours définie (non undefined)
-      const region = plateData.region || 'Inconnu';
+      const permitZone = plateData.zone || getDefaultPermitZone();
+      const permit = permitZone ? await checkPermit(storage, plateNumber, region, permitZone) : undefined;
       
       // Save the validated plate to the database
-      const newPlate = await storage.createLicensePlate({
+      let newPlate = await storage.createLicensePlate({
         plateNumber,
         region,
-        status,
+        ...toPlateRegistrationFields(registration),
         detectionType: plateData.detectionType,
-        details
+        zone: permitZone,
+        permitStatus: permit?.status
       });
+      const hotlistMatches = await matchHotlists(storage, plateNumber, region);
+      if (hotlistMatches.length > 0) {
+        newPlate = (await storage.updatePlate(newPlate.id, { hotlistHit: true })) || newPlate;
+      }
+      const validatedPlate = { ...newPlate, registration, hotlistMatches, permit };
       
       // Broadcast the validation to all connected WebSocket clients
       wss.clients.forEach(client => {
         if (client.readyState === WebSocket.OPEN) {
           client.send(JSON.stringify({
             type: "PLATE_VALIDATED",
-            data: newPlate
+            data: validatedPlate
           }));
         }
       });
       
-      res.json(newPlate);
+      if (hotlistMatches.length > 0) {
+        broadcastHotlistAlert(newPlate, hotlistMatches);
+      }
+      
+      res.json(validatedPlate);
     } catch (error) {
       console.error("Error validating plate:", error);
       
@@ -130,50 +380,740 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/stats", async (req, res) => {
+  app.post("/api/plates/:id/select-candidate", requireNumericIds, async (req, res) => {
     try {
-      const allPlates = await storage.getAllPlates();
+      const id = parseInt(req.params.id, 10);
+      const { plateNumber } = z.object({ plateNumber: z.string().min(1) }).parse(req.body);
       
-      // Filter plates detected today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const plate = await storage.getPlateById(id);
+      if (!plate) {
+        return res.status(404).json({ error: "Plate not found" });
+      }
+      
+      // L'opérateur ne peut choisir qu'une des lectures proposées par le moteur
+      const alternates = plate.alternates || [];
+      const selected = alternates.find(candidate => candidate.plateNumber === plateNumber);
+      if (!selected) {
+        return res.status(400).json({ error: "Candidate not found for this plate" });
+      }
       
-      const todayPlates = allPlates.filter(plate => {
-        const plateDate = new Date(plate.detectedAt);
-        return plateDate >= today;
+      const registration = await lookupRegistration(selected.plateNumber, plate.region);
+      const permit = plate.zone ? await checkPermit(storage, selected.plateNumber, plate.region, plate.zone) : undefined;
+      
+      // L'ancienne lecture devient une alternative et prend la place (et le score) de celle choisie
+      const updatedPlate = await storage.updatePlate(id, {
+        plateNumber: selected.plateNumber,
+        ...toPlateRegistrationFields(registration),
+        permitStatus: permit?.status,
+        alternates: [
+          { plateNumber: plate.plateNumber, score: selected.score },
+          ...alternates.filter(candidate => candidate !== selected)
+        ]
       });
       
-      // Count plates by status
-      const validCount = todayPlates.filter(plate => plate.status === "valid").length;
-      const expiredCount = todayPlates.filter(plate => plate.status === "expired").length;
-      const suspendedCount = todayPlates.filter(plate => plate.status === "suspended").length;
-      const otherCount = todayPlates.filter(plate => plate.status === "other").length;
-      
-      // Count plates by region
-      const regionCounts: Record<string, number> = {};
-      todayPlates.forEach(plate => {
-        const region = plate.region || "Unknown";
-        regionCounts[region] = (regionCounts[region] || 0) + 1;
+      // Les images suivantes du même véhicule ne doivent pas annuler ce choix
+      lockTrackForPlate(id, selected.plateNumber);
+      
+      wss.clients.forEach(client => {
+        if (client.readyState === WebSocket.OPEN) {
+          client.send(JSON.stringify({
+            type: "PLATE_VALIDATED",
+            data: { ...updatedPlate, permit }
+          }));
+        }
       });
       
-      // Calculate region percentages
-      const totalCount = todayPlates.length;
-      const regionDistribution = Object.entries(regionCounts).map(([region, count]) => ({
-        region,
-        percentage: Math.round((count / totalCount) * 100) || 0
-      })).sort((a, b) => b.percentage - a.percentage);
+      res.json({ ...updatedPlate, permit });
+    } catch (error) {
+      console.error("Error selecting plate candidate:", error);
       
-      // Return statistics
-      res.json({
-        totalToday: todayPlates.length,
-        validCount,
-        expiredCount,
-        suspendedCount,
-        otherCount,
-        regionDistribution
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid candidate", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to select candidate" });
+    }
+  });
+  
+  // Historique d'une plaque, quelle que soit sa saisie (espaces, tirets, confusions OCR)
+  app.get("/api/plates/search", async (req, res) => {
+    try {
+      const { plateNumber, region } = z.object({
+        plateNumber: z.string().min(1),
+        region: z.string().optional()
+      }).parse(req.query);
+      
+      const plateKey = normalizePlateKey(plateNumber, region);
+      const vehicle = await storage.getVehicleByKey(plateKey, region);
+      
+      if (!vehicle) {
+        return res.json({ plateKey, vehicle: null, currentStatus: null, plates: [] });
+      }
+      
+      const [currentStatus, plates] = await Promise.all([
+        storage.getCurrentStatus(vehicle.id),
+        storage.getVehicleSightings(vehicle.id)
+      ]);
+      res.json({ plateKey, vehicle, currentStatus: currentStatus || null, plates: await withEvidence(storage, plates) });
+    } catch (error) {
+      console.error("Error searching plates:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to search plates" });
+    }
+  });
+  
+  // Véhicule identifié par sa plaque, avec son statut le plus récent
+  app.get("/api/vehicles", async (req, res) => {
+    try {
+      const { plateNumber, region } = z.object({
+        plateNumber: z.string().min(1),
+        region: z.string().optional()
+      }).parse(req.query);
+      
+      const vehicle = await storage.getVehicleByKey(normalizePlateKey(plateNumber, region), region);
+      
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+      
+      res.json({ ...vehicle, currentStatus: (await storage.getCurrentStatus(vehicle.id)) || null });
+    } catch (error) {
+      console.error("Error looking up vehicle:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid search", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to look up vehicle" });
+    }
+  });
+  
+  app.get("/api/vehicles/:id", requireNumericIds, async (req, res) => {
+    try {
+      const vehicle = await storage.getVehicle(parseInt(req.params.id, 10));
+      
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+      
+      res.json({ ...vehicle, currentStatus: (await storage.getCurrentStatus(vehicle.id)) || null });
+    } catch (error) {
+      console.error("Error getting vehicle:", error);
+      res.status(500).json({ error: "Failed to get vehicle" });
+    }
+  });
+  
+  // Toutes les observations d'un véhicule, la plus récente en premier
+  app.get("/api/vehicles/:id/sightings", requireNumericIds, async (req, res) => {
+    try {
+      const vehicle = await storage.getVehicle(parseInt(req.params.id, 10));
+      
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+      
+      res.json(await withEvidence(storage, await storage.getVehicleSightings(vehicle.id)));
+    } catch (error) {
+      console.error("Error getting vehicle sightings:", error);
+      res.status(500).json({ error: "Failed to get vehicle sightings" });
+    }
+  });
+  
+  // Historique des statuts constatés pour un véhicule
+  app.get("/api/vehicles/:id/status-checks", requireNumericIds, async (req, res) => {
+    try {
+      const vehicle = await storage.getVehicle(parseInt(req.params.id, 10));
+      
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+      
+      res.json(await storage.getStatusChecks(vehicle.id));
+    } catch (error) {
+      console.error("Error getting status checks:", error);
+      res.status(500).json({ error: "Failed to get status checks" });
+    }
+  });
+  
+  // Historique des observations, filtré et trié par le stockage, page par page
+  app.get("/api/sightings", async (req, res) => {
+    try {
+      const { cursor, ...search } = sightingQuerySchema.parse(req.query);
+      const after = cursor ? decodeSightingCursor(cursor, search) : undefined;
+      
+      if (cursor && !after) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      
+      // Une observation de plus que la page indique s'il reste une page suivante
+      const sightings = await storage.searchSightings({ ...search, limit: search.limit + 1, after });
+      const items = sightings.slice(0, search.limit);
+      const page: SightingPage = {
+        items: await withEvidence(storage, items),
+        nextCursor: sightings.length > search.limit ? encodeSightingCursor(items[items.length - 1], search) : null
+      };
+      
+      res.json(page);
+    } catch (error) {
+      console.error("Error searching sightings:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid sighting query", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to search sightings" });
+    }
+  });
+  
+  // Session d'accès aux images de preuve
+  app.get("/api/evidence/session", (req, res) => {
+    const session: EvidenceSession = { authenticated: hasEvidenceAccess(req) };
+    res.json(session);
+  });
+  
+  // Ouvre une session avec le code d'accès des opérateurs
+  app.post("/api/evidence/session", (req, res) => {
+    try {
+      const { code } = z.object({ code: z.string() }).parse(req.body);
+      
+      if (!checkAccessCode(code)) {
+        return res.status(401).json({ error: "Invalid access code" });
+      }
+      
+      openEvidenceSession(req, res);
+      const session: EvidenceSession = { authenticated: true };
+      res.json(session);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid access code", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to open evidence session" });
+    }
+  });
+  
+  app.delete("/api/evidence/session", (_req, res) => {
+    closeEvidenceSession(res);
+    res.status(204).end();
+  });
+  
+  // Image de preuve d'une observation, réservée aux sessions d'accès aux images
+  app.get("/api/sightings/:id/image", requireNumericIds, requireEvidenceAccess, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const { kind } = z.object({
+        kind: evidenceKindSchema.default("frame")
+      }).parse(req.query);
+      
+      const image = (await storage.getEvidenceImages(id)).find(evidence => evidence.kind === kind);
+      const data = image ? await readEvidenceImage(image) : undefined;
+      
+      if (!image || !data) {
+        return res.status(404).json({ error: "Evidence image not found" });
+      }
+      
+      res.set({
+        "Content-Type": image.contentType,
+        "Cache-Control": "private, max-age=3600",
+        "ETag": `"${image.sha256}"`,
+        "X-Content-SHA256": image.sha256
       });
+      res.send(data);
+    } catch (error) {
+      console.error("Error serving evidence image:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid image request", details: error.errors });
+      }
+      
+      if (error instanceof EvidenceIntegrityError) {
+        return res.status(500).json({ error: "Evidence image failed its integrity check" });
+      }
+      
+      res.status(500).json({ error: "Failed to get evidence image" });
+    }
+  });
+  
+  // Lectures brutes (une par image) ayant conduit à une observation consolidée
+  app.get("/api/plates/:id/reads", requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const plate = await storage.getPlateById(id);
+      
+      if (!plate) {
+        return res.status(404).json({ error: "Plate not found" });
+      }
+      
+      res.json(await storage.getPlateReads(id));
+    } catch (error) {
+      console.error("Error fetching plate reads:", error);
+      res.status(500).json({ error: "Failed to fetch plate reads" });
+    }
+  });
+  
+  app.get("/api/recognition-profiles", async (req, res) => {
+    res.json(getRecognitionProfiles());
+  });
+  
+  app.get("/api/recognition-profiles/:id", async (req, res) => {
+    const profile = getRecognitionProfile(req.params.id);
+    
+    if (!profile) {
+      return res.status(404).json({ error: "Recognition profile not found" });
+    }
+    
+    res.json(profile);
+  });
+  
+  app.put("/api/recognition-profiles/:id", async (req, res) => {
+    try {
+      // L'identifiant de l'URL fait foi
+      const profile = recognitionProfileSchema.parse({ ...req.body, id: req.params.id });
+      res.json(await saveRecognitionProfile(profile));
+    } catch (error) {
+      console.error("Error saving recognition profile:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid recognition profile", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to save recognition profile" });
+    }
+  });
+  
+  app.delete("/api/recognition-profiles/:id", async (req, res) => {
+    try {
+      const deleted = await deleteRecognitionProfile(req.params.id);
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Recognition profile not found or cannot be deleted" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting recognition profile:", error);
+      res.status(500).json({ error: "Failed to delete recognition profile" });
+    }
+  });
+
+  // Listes de surveillance (véhicules volés, alertes Amber, avis de recherche)
+  app.get("/api/hotlists", async (req, res) => {
+    try {
+      res.json(await storage.getHotlists());
+    } catch (error) {
+      console.error("Error fetching hotlists:", error);
+      res.status(500).json({ error: "Failed to fetch hotlists" });
+    }
+  });
+  
+  app.post("/api/hotlists", requireAdminAccess, async (req, res) => {
+    try {
+      const hotlistData = insertHotlistSchema.parse(req.body);
+      res.status(201).json(await storage.createHotlist(hotlistData));
+    } catch (error) {
+      console.error("Error creating hotlist:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid hotlist", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to create hotlist" });
+    }
+  });
+  
+  // Vérifier une plaque contre les listes de surveillance sans l'enregistrer
+  app.get("/api/hotlists/check", async (req, res) => {
+    try {
+      const { plateNumber, region } = z.object({
+        plateNumber: z.string().min(1),
+        region: z.string().optional()
+      }).parse(req.query);
+      
+      res.json(await matchHotlists(storage, plateNumber, region));
+    } catch (error) {
+      console.error("Error checking hotlists:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid check", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to check hotlists" });
+    }
+  });
+  
+  app.get("/api/hotlists/:id", requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const hotlist = await storage.getHotlist(id);
+      
+      if (!hotlist) {
+        return res.status(404).json({ error: "Hotlist not found" });
+      }
+      
+      res.json({ ...hotlist, entries: await storage.getHotlistEntries(id) });
+    } catch (error) {
+      console.error("Error fetching hotlist:", error);
+      res.status(500).json({ error: "Failed to fetch hotlist" });
+    }
+  });
+  
+  app.patch("/api/hotlists/:id", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const hotlistData = insertHotlistSchema.partial().parse(req.body);
+      const hotlist = await storage.updateHotlist(id, hotlistData);
+      
+      if (!hotlist) {
+        return res.status(404).json({ error: "Hotlist not found" });
+      }
+      
+      res.json(hotlist);
+    } catch (error) {
+      console.error("Error updating hotlist:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid hotlist", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to update hotlist" });
+    }
+  });
+  
+  app.delete("/api/hotlists/:id", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const deleted = await storage.deleteHotlist(parseInt(req.params.id, 10));
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Hotlist not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting hotlist:", error);
+      res.status(500).json({ error: "Failed to delete hotlist" });
+    }
+  });
+  
+  app.get("/api/hotlists/:id/entries", requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      
+      if (!(await storage.getHotlist(id))) {
+        return res.status(404).json({ error: "Hotlist not found" });
+      }
+      
+      res.json(await storage.getHotlistEntries(id));
+    } catch (error) {
+      console.error("Error fetching hotlist entries:", error);
+      res.status(500).json({ error: "Failed to fetch hotlist entries" });
+    }
+  });
+  
+  app.post("/api/hotlists/:id/entries", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const entryData = insertHotlistEntrySchema.parse(req.body);
+      
+      if (!(await storage.getHotlist(id))) {
+        return res.status(404).json({ error: "Hotlist not found" });
+      }
+      
+      res.status(201).json(await storage.createHotlistEntry(id, entryData));
+    } catch (error) {
+      console.error("Error creating hotlist entry:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid hotlist entry", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to create hotlist entry" });
+    }
+  });
+  
+  app.patch("/api/hotlists/:id/entries/:entryId", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const entryId = parseInt(req.params.entryId, 10);
+      const entryData = insertHotlistEntrySchema.partial().parse(req.body);
+      
+      const entry = await storage.getHotlistEntry(entryId);
+      if (!entry || entry.hotlistId !== id) {
+        return res.status(404).json({ error: "Hotlist entry not found" });
+      }
+      
+      res.json(await storage.updateHotlistEntry(entryId, entryData));
+    } catch (error) {
+      console.error("Error updating hotlist entry:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid hotlist entry", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to update hotlist entry" });
+    }
+  });
+  
+  app.delete("/api/hotlists/:id/entries/:entryId", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const entryId = parseInt(req.params.entryId, 10);
+      
+      const entry = await storage.getHotlistEntry(entryId);
+      if (!entry || entry.hotlistId !== id) {
+        return res.status(404).json({ error: "Hotlist entry not found" });
+      }
+      
+      await storage.deleteHotlistEntry(entryId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting hotlist entry:", error);
+      res.status(500).json({ error: "Failed to delete hotlist entry" });
+    }
+  });
+  
+  // Permis de stationnement et laissez-passer visiteurs
+  app.get("/api/permits", async (req, res) => {
+    try {
+      const { zone, plateNumber, region } = z.object({
+        zone: z.string().optional(),
+        plateNumber: z.string().optional(),
+        region: z.string().optional()
+      }).parse(req.query);
+      
+      res.json(await storage.getPermits({
+        zone,
+        plateKey: plateNumber ? normalizePlateKey(plateNumber, region) : undefined
+      }));
+    } catch (error) {
+      console.error("Error fetching permits:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid permit filter", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to fetch permits" });
+    }
+  });
+  
+  app.post("/api/permits", requireAdminAccess, async (req, res) => {
+    try {
+      const permitData = insertPermitSchema.parse(req.body);
+      res.status(201).json(await storage.createPermit(permitData));
+    } catch (error) {
+      console.error("Error creating permit:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid permit", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to create permit" });
+    }
+  });
+  
+  // Zones connues (pour le choix du stationnement contrôlé dans le Scanner)
+  app.get("/api/permits/zones", async (req, res) => {
+    try {
+      const zones = new Set((await storage.getPermits())
+        .map(permit => permit.zone)
+        .filter((zone): zone is string => Boolean(zone)));
+      const defaultZone = getDefaultPermitZone();
+      if (defaultZone) zones.add(defaultZone);
+      
+      res.json({ zones: Array.from(zones).sort(), defaultZone: defaultZone || null });
+    } catch (error) {
+      console.error("Error fetching permit zones:", error);
+      res.status(500).json({ error: "Failed to fetch permit zones" });
+    }
+  });
+  
+  // Vérifier le droit de stationner d'une plaque sans l'enregistrer
+  app.get("/api/permits/check", async (req, res) => {
+    try {
+      const { plateNumber, region, zone } = z.object({
+        plateNumber: z.string().min(1),
+        region: z.string().optional(),
+        zone: z.string().min(1)
+      }).parse(req.query);
+      
+      res.json(await checkPermit(storage, plateNumber, region, zone));
+    } catch (error) {
+      console.error("Error checking permit:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid check", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to check permit" });
+    }
+  });
+  
+  app.get("/api/permits/:id", requireNumericIds, async (req, res) => {
+    try {
+      const permit = await storage.getPermit(parseInt(req.params.id, 10));
+      
+      if (!permit) {
+        return res.status(404).json({ error: "Permit not found" });
+      }
+      
+      res.json(permit);
+    } catch (error) {
+      console.error("Error fetching permit:", error);
+      res.status(500).json({ error: "Failed to fetch permit" });
+    }
+  });
+  
+  app.patch("/api/permits/:id", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const permitData = insertPermitSchema.partial().parse(req.body);
+      const permit = await storage.updatePermit(parseInt(req.params.id, 10), permitData);
+      
+      if (!permit) {
+        return res.status(404).json({ error: "Permit not found" });
+      }
+      
+      res.json(permit);
+    } catch (error) {
+      console.error("Error updating permit:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid permit", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to update permit" });
+    }
+  });
+  
+  app.delete("/api/permits/:id", requireAdminAccess, requireNumericIds, async (req, res) => {
+    try {
+      const deleted = await storage.deletePermit(parseInt(req.params.id, 10));
+      
+      if (!deleted) {
+        return res.status(404).json({ error: "Permit not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting permit:", error);
+      res.status(500).json({ error: "Failed to delete permit" });
+    }
+  });
+  
+  // Catalogue des statuts (libellé, gravité, couleur, son) utilisé par les clients
+  app.get("/api/statuses", async (req, res) => {
+    res.json(getStatusCatalogue());
+  });
+  
+  // Recharger les fichiers du registre local après leur mise à jour
+  app.post("/api/registry/reload", async (req, res) => {
+    try {
+      const count = reloadLocalRegistry();
+      clearRegistryCache();
+      res.json({ records: count });
+    } catch (error) {
+      console.error("Error reloading registry:", error);
+      res.status(500).json({ error: "Failed to reload registry" });
+    }
+  });
+  
+  // État des moteurs de reconnaissance (disponibilité, disjoncteur, quota de l'API)
+  app.get("/api/recognition/status", async (req, res) => {
+    res.json({
+      providers: getRecognitionProviders().map(provider => ({
+        name: provider.name,
+        available: provider.isAvailable()
+      })),
+      platerecognizer: getPlateRecognizerHealth()
+    });
+  });
+
+  // Politiques de conservation et ce qu'une purge supprimerait maintenant
+  app.get("/api/retention/preview", requireAdminAccess, async (req, res) => {
+    try {
+      res.json(await previewPurge(storage));
+    } catch (error) {
+      console.error("Error previewing purge:", error);
+      res.status(500).json({ error: "Failed to preview purge" });
+    }
+  });
+  
+  // Purge immédiate, en plus de la purge planifiée
+  app.post("/api/retention/purge", requireAdminAccess, async (req, res) => {
+    try {
+      res.json(await runPurge(storage, "manual"));
+    } catch (error) {
+      console.error("Error running purge:", error);
+      res.status(500).json({ error: "Failed to run purge" });
+    }
+  });
+  
+  app.get("/api/retention/audits", requireAdminAccess, async (req, res) => {
+    try {
+      const { limit } = z.object({
+        limit: z.coerce.number().int().min(1).max(500).default(50)
+      }).parse(req.query);
+      
+      res.json(await storage.getPurgeAudits(limit));
+    } catch (error) {
+      console.error("Error getting purge audits:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid limit", details: error.errors });
+      }
+      
+      res.status(500).json({ error: "Failed to get purge audits" });
+    }
+  });
+  
+  // Statistiques d'une période : totaux et tranches calculés par le stockage,
+  // sans charger les observations
+  app.get("/api/stats", async (req, res) => {
+    try {
+      const query = statsQuerySchema.parse(req.query);
+      const timeZone = query.timeZone || SERVER_TIME_ZONE;
+      const today = getZonedDay(new Date(), timeZone);
+      const from = query.from || today.from;
+      const to = query.to || today.to;
+      
+      if (from >= to) {
+        return res.status(400).json({ error: "Invalid statistics range" });
+      }
+      
+      const groupBy = query.groupBy || getDefaultGroupings(from, to);
+      if (groupBy.includes("hour") && to.getTime() - from.getTime() > MAX_HOURLY_RANGE_MS) {
+        return res.status(400).json({ error: "Range too long for hourly grouping" });
+      }
+      
+      // Une même plaque vue plusieurs fois (ou lue différemment, ex: B/8) correspond
+      // à un seul véhicule
+      const [[totals], ...grouped] = await Promise.all([
+        storage.aggregateSightings({ from, to, timeZone }),
+        ...groupBy.map(grouping => storage.aggregateSightings({ from, to, timeZone, groupBy: grouping }))
+      ]);
+      
+      const summary: StatsSummary = {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        timeZone,
+        totalSightings: totals?.sightings || 0,
+        uniqueVehicles: totals?.vehicles || 0,
+        groups: Object.fromEntries(groupBy.map((grouping, index) => [
+          grouping,
+          completeStatsBuckets(grouped[index], { from, to, timeZone, groupBy: grouping })
+        ]))
+      };
+      
+      res.json(summary);
     } catch (error) {
       console.error("Error getting stats:", error);
+      
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Invalid statistics query", details: error.errors });
+      }
+      
       res.status(500).json({ error: "Failed to get statistics" });
     }
   });
@@ -0,0 +1,103 @@
+import type { InsertLicensePlate } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+/**
+ * Données de démonstration (plaques, liste de surveillance, permis), chargées au
+ * démarrage en développement seulement. Une base qui contient déjà des plaques
+ * n'est pas modifiée : les redémarrages ne dupliquent pas les données.
+ */
+export async function seedDemoData(storage: IStorage): Promise<void> {
+  const existing = await storage.getRecentPlates(1);
+  if (existing.length > 0) {
+    return;
+  }
+  
+  const initialPlates: InsertLicensePlate[] = [
+    {
+      plateNumber: "CBPC 344",
+      region: "Ontario",
+      status: "valid",
+      detectionType: "automatic",
+      details: "Plaque en règle - Véhicule standard",
+      registrationExpiresAt: "2027-03-31",
+      ownerClass: "individual",
+      registeredVehicle: "Toyota Corolla argent",
+      vehicleType: "Sedan",
+      vehicleMake: "Toyota",
+      vehicleModel: "Corolla",
+      vehicleColor: "silver"
+    },
+    {
+      plateNumber: "OPN 4BIZ",
+      region: "Ontario",
+      status: "expired",
+      detectionType: "manual",
+      details: "La plaque a expiré - Renouvellement requis avant circulation",
+      registrationExpiresAt: "2026-08-31",
+      ownerClass: "individual"
+    },
+    {
+      plateNumber: "GVAH 823",
+      region: "Ontario",
+      status: "suspended",
+      detectionType: "automatic",
+      details: "La plaque est suspendue - Contacter Service Ontario",
+      registrationExpiresAt: "2026-12-31",
+      ownerClass: "company",
+      registeredVehicle: "Ford F-150 noir",
+      vehicleType: "Pickup Truck",
+      vehicleMake: "Ford",
+      vehicleModel: "F-150",
+      vehicleColor: "black"
+    },
+    {
+      plateNumber: "ABC1234",
+      region: "New York",
+      status: "other",
+      detectionType: "manual",
+      details: "Plaque étrangère - Véhicule de tourisme"
+    }
+  ];
+  
+  for (const plate of initialPlates) {
+    await storage.createLicensePlate(plate);
+  }
+  
+  // Liste de surveillance de démonstration
+  const hotlist = await storage.createHotlist({
+    name: "Véhicules volés",
+    source: "Démonstration",
+    description: "Liste d'exemple pour tester les alertes",
+    active: true
+  });
+  await storage.createHotlistEntry(hotlist.id, {
+    plateNumber: "BXKR 512",
+    region: "Ontario",
+    reason: "stolen",
+    priority: "critical",
+    notes: "Honda Civic grise volée"
+  });
+  
+  // Permis de stationnement de démonstration (stationnement P1)
+  await storage.createPermit({
+    plateNumber: "CBPC 344",
+    region: "Ontario",
+    zone: "P1",
+    permitType: "permit",
+    holderName: "Résident - Unité 12",
+    timeWindows: [{ days: [1, 2, 3, 4, 5], start: "07:00", end: "19:00" }]
+  });
+  
+  const expiredVisitorPass = new Date();
+  expiredVisitorPass.setDate(expiredVisitorPass.getDate() - 1);
+  await storage.createPermit({
+    plateNumber: "OPN 4BIZ",
+    region: "Ontario",
+    zone: "P1",
+    permitType: "visitor",
+    holderName: "Visiteur",
+    validUntil: expiredVisitorPass
+  });
+  
+  console.log(`Données de démonstration chargées (${initialPlates.length} plaques)`);
+}
@@ -0,0 +1,82 @@
+import { Buffer } from 'buffer';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LicensePlate } from '@shared/schema';
+import { decodeSightingCursor, encodeSightingCursor, matchesSightingSearch, type SightingSearch } from './sighting-search';
+
+function sighting(id: number, fields: Partial<LicensePlate> = {}): LicensePlate {
+  return {
+    id,
+    plateNumber: 'C8PC 344',
+    plateKey: 'CBPC344',
+    status: 'valid',
+    region: 'Ontario',
+    detectionType: 'automatic',
+    cameraId: null,
+    confidence: 90,
+    detectedAt: new Date('2026-10-19T12:00:00Z'),
+    ...fields
+  } as LicensePlate;
+}
+
+function search(fields: Partial<SightingSearch> = {}): SightingSearch {
+  return { sort: 'detectedAt', order: 'desc', limit: 50, ...fields };
+}
+
+// Observations de la liste qui suivent le curseur de la dernière, dans l'ordre de la recherche
+function nextPage(plates: LicensePlate[], last: LicensePlate, query: SightingSearch): number[] {
+  const after = decodeSightingCursor(encodeSightingCursor(last, query), query);
+  return plates.filter(plate => matchesSightingSearch(plate, { ...query, after })).map(plate => plate.id);
+}
+
+test('decodeSightingCursor relit le curseur encodé pour le même tri', () => {
+  const plate = sighting(7);
+
+  assert.deepEqual(decodeSightingCursor(encodeSightingCursor(plate, search()), search()), {
+    value: plate.detectedAt.getTime(),
+    id: 7
+  });
+  assert.deepEqual(decodeSightingCursor(encodeSightingCursor(plate, search({ sort: 'plate' })), search({ sort: 'plate' })), {
+    value: 'CBPC344',
+    id: 7
+  });
+});
+
+test('decodeSightingCursor refuse un curseur obtenu avec un autre tri ou illisible', () => {
+  const cursor = encodeSightingCursor(sighting(7), search());
+
+  assert.equal(decodeSightingCursor(cursor, search({ order: 'asc' })), undefined);
+  assert.equal(decodeSightingCursor(cursor, search({ sort: 'confidence' })), undefined);
+  assert.equal(decodeSightingCursor('pas-un-curseur', search()), undefined);
+  assert.equal(decodeSightingCursor(Buffer.from('{"sort":"detectedAt","order":"desc","value":"x","id":1}').toString('base64url'), search()), undefined);
+});
+
+test("le curseur départage les observations de même valeur par leur identifiant", () => {
+  const plates = [sighting(1), sighting(2), sighting(3)];
+
+  assert.deepEqual(nextPage(plates, plates[1], search()), [1]);
+  assert.deepEqual(nextPage(plates, plates[1], search({ order: 'asc' })), [3]);
+});
+
+test('une confiance absente est triée après toutes les autres en ordre décroissant', () => {
+  const plates = [sighting(1, { confidence: 80 }), sighting(2, { confidence: null }), sighting(3, { confidence: 10 })];
+
+  assert.deepEqual(nextPage(plates, plates[0], search({ sort: 'confidence' })), [2, 3]);
+  assert.deepEqual(nextPage(plates, plates[2], search({ sort: 'confidence' })), [2]);
+});
+
+test('matchesSightingSearch applique le motif de plaque à la clé normalisée et à la plaque lue', () => {
+  const plate = sighting(1);
+
+  assert.equal(matchesSightingSearch(plate, search({ plate: 'CBPC' })), true);
+  assert.equal(matchesSightingSearch(plate, search({ plate: 'c8pc-3?4' })), true);
+  assert.equal(matchesSightingSearch(plate, search({ plate: '*344' })), true);
+  assert.equal(matchesSightingSearch(plate, search({ plate: 'PC' })), false);
+});
+
+test('matchesSightingSearch exclut la fin de la plage', () => {
+  const plate = sighting(1);
+
+  assert.equal(matchesSightingSearch(plate, search({ from: plate.detectedAt })), true);
+  assert.equal(matchesSightingSearch(plate, search({ to: plate.detectedAt })), false);
+});
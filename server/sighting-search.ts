@@ -0,0 +1,160 @@
+import { Buffer } from 'buffer';
+import { and, asc, desc, eq, gt, gte, inArray, like, lt, or, sql, type Column, type SQL, type SQLWrapper } from 'drizzle-orm';
+import type { LicensePlate, SightingQuery, SightingSort } from '@shared/schema';
+
+// Position de la dernière observation d'une page : valeur de tri puis identifiant,
+// pour que deux observations de même valeur ne soient ni perdues ni répétées
+export type SightingCursor = {
+  value: number | string;
+  id: number;
+};
+
+// Recherche transmise au stockage : filtres, tri et taille de page déjà validés
+export type SightingSearch = Omit<SightingQuery, 'cursor'> & {
+  after?: SightingCursor;
+};
+
+// Confiance retenue pour le tri des saisies manuelles, qui n'en ont pas
+const MISSING_CONFIDENCE = -1;
+
+/**
+ * Motif de plaque en expression LIKE : sans joker, un préfixe (« CBPC » trouve
+ * « CBPC 344 ») ; * remplace plusieurs caractères, ? un seul. Il est comparé à la clé
+ * normalisée et à la plaque telle que lue, sans séparateurs : « C8PC » trouve aussi
+ * une plaque lue « C8PC 344 » dont la clé est devenue « CBPC344 ».
+ */
+function toPlateKeyPattern(plate: string): string {
+  const pattern = plate.toUpperCase().replace(/[^A-Z0-9*?]/g, '');
+  const withWildcards = /[*?]/.test(pattern) ? pattern : `${pattern}*`;
+  return withWildcards.replace(/\*/g, '%').replace(/\?/g, '_');
+}
+
+function getSortValue(plate: LicensePlate, sort: SightingSort): number | string {
+  switch (sort) {
+    case 'plate':
+      return plate.plateKey;
+    case 'confidence':
+      return plate.confidence ?? MISSING_CONFIDENCE;
+    default:
+      return plate.detectedAt.getTime();
+  }
+}
+
+export function encodeSightingCursor(plate: LicensePlate, search: Pick<SightingSearch, 'sort' | 'order'>): string {
+  const cursor = { sort: search.sort, order: search.order, value: getSortValue(plate, search.sort), id: plate.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Relit le curseur d'une page précédente. Un curseur illisible ou obtenu avec un
+ * autre tri donne undefined.
+ */
+export function decodeSightingCursor(cursor: string, search: Pick<SightingSearch, 'sort' | 'order'>): SightingCursor | undefined {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    const expectedType = search.sort === 'plate' ? 'string' : 'number';
+
+    if (decoded.sort !== search.sort || decoded.order !== search.order ||
+        typeof decoded.value !== expectedType || !Number.isInteger(decoded.id)) {
+      return undefined;
+    }
+    return { value: decoded.value, id: decoded.id };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Vérifie qu'une observation répond aux filtres et se situe après le curseur
+ * (stockage en mémoire)
+ */
+export function matchesSightingSearch(plate: LicensePlate, search: SightingSearch): boolean {
+  if (search.from && plate.detectedAt < search.from) return false;
+  if (search.to && plate.detectedAt >= search.to) return false;
+  if (search.status && !search.status.includes(plate.status)) return false;
+  if (search.region && plate.region !== search.region) return false;
+  if (search.detectionType && plate.detectionType !== search.detectionType) return false;
+  if (search.cameraId && plate.cameraId !== search.cameraId) return false;
+
+  if (search.plate) {
+    const pattern = new RegExp(`^${toPlateKeyPattern(search.plate).replace(/%/g, '.*').replace(/_/g, '.')}$`);
+    const compactNumber = plate.plateNumber.toUpperCase().replace(/[ -]/g, '');
+    if (!pattern.test(plate.plateKey) && !pattern.test(compactNumber)) return false;
+  }
+
+  return !search.after || compareSightings(plate, search.after, search) > 0;
+}
+
+/**
+ * Ordre de la recherche : négatif si a vient avant b dans les pages
+ */
+export function compareSightings(
+  a: LicensePlate,
+  b: LicensePlate | SightingCursor,
+  search: Pick<SightingSearch, 'sort' | 'order'>
+): number {
+  const valueA = getSortValue(a, search.sort);
+  const valueB = 'value' in b ? b.value : getSortValue(b, search.sort);
+  const difference = valueA < valueB ? -1 : valueA > valueB ? 1 : a.id - b.id;
+  return search.order === 'asc' ? difference : -difference;
+}
+
+type SightingColumns = {
+  id: Column;
+  plateNumber: Column;
+  plateKey: Column;
+  status: Column;
+  region: Column;
+  detectionType: Column;
+  cameraId: Column;
+  confidence: Column;
+  detectedAt: Column;
+};
+
+function sortExpression(columns: SightingColumns, sort: SightingSort): SQLWrapper {
+  switch (sort) {
+    case 'plate':
+      return columns.plateKey;
+    case 'confidence':
+      return sql`coalesce(${columns.confidence}, ${MISSING_CONFIDENCE})`;
+    default:
+      return columns.detectedAt;
+  }
+}
+
+function plateCondition(columns: SightingColumns, plate: string): SQL | undefined {
+  const pattern = toPlateKeyPattern(plate);
+  const compactNumber = sql`upper(replace(replace(${columns.plateNumber}, ' ', ''), '-', ''))`;
+  return or(like(columns.plateKey, pattern), like(compactNumber, pattern));
+}
+
+/**
+ * Condition SQL des filtres et du curseur, commune à PostgreSQL et SQLite
+ */
+export function sightingSearchCondition(columns: SightingColumns, search: SightingSearch): SQL | undefined {
+  const { after } = search;
+  let afterCursor: SQL | undefined;
+
+  if (after) {
+    const expression = sortExpression(columns, search.sort);
+    const value = search.sort === 'detectedAt' ? new Date(after.value) : after.value;
+    const beyond = search.order === 'asc' ? gt : lt;
+    afterCursor = or(beyond(expression, value), and(eq(expression, value), beyond(columns.id, after.id)));
+  }
+
+  return and(
+    search.from ? gte(columns.detectedAt, search.from) : undefined,
+    search.to ? lt(columns.detectedAt, search.to) : undefined,
+    search.status ? inArray(columns.status, search.status) : undefined,
+    search.region ? eq(columns.region, search.region) : undefined,
+    search.detectionType ? eq(columns.detectionType, search.detectionType) : undefined,
+    search.cameraId ? eq(columns.cameraId, search.cameraId) : undefined,
+    search.plate ? plateCondition(columns, search.plate) : undefined,
+    afterCursor
+  );
+}
+
+export function sightingSearchOrder(columns: SightingColumns, search: SightingSearch): SQL[] {
+  const direction = search.order === 'asc' ? asc : desc;
+  return [direction(sortExpression(columns, search.sort)), direction(columns.id)];
+}
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LicensePlate } from '@shared/schema';
+import { completeStatsBuckets, getSightingGroupKey, getZonedDay, type SightingAggregation } from './sighting-stats';
+import { createSqliteDatabase } from './sqlite-db';
+import { SqliteStorage } from './sqlite-storage';
+
+const HOUR_MS = 60 * 60 * 1000;
+const TORONTO = 'America/Toronto';
+
+function aggregation(from: string, to: string, groupBy: SightingAggregation['groupBy'], timeZone = TORONTO): SightingAggregation {
+  return { from: new Date(from), to: new Date(to), timeZone, groupBy };
+}
+
+function groupKey(detectedAt: string, groupBy: SightingAggregation['groupBy'], timeZone = TORONTO): string | null {
+  const plate = { detectedAt: new Date(detectedAt) } as LicensePlate;
+  return getSightingGroupKey(plate, aggregation(detectedAt, detectedAt, groupBy, timeZone));
+}
+
+test("getZonedDay suit les changements d'heure", () => {
+  // Journée ordinaire, passage à l'heure d'hiver (25 h) puis à l'heure d'été (23 h)
+  const ordinary = getZonedDay(new Date('2026-10-19T12:00:00Z'), TORONTO);
+  assert.equal(ordinary.from.toISOString(), '2026-10-19T04:00:00.000Z');
+  assert.equal(ordinary.to.toISOString(), '2026-10-20T04:00:00.000Z');
+
+  const fallBack = getZonedDay(new Date('2026-11-01T12:00:00Z'), TORONTO);
+  assert.equal(fallBack.to.getTime() - fallBack.from.getTime(), 25 * HOUR_MS);
+
+  const springForward = getZonedDay(new Date('2026-03-08T12:00:00Z'), TORONTO);
+  assert.equal(springForward.to.getTime() - springForward.from.getTime(), 23 * HOUR_MS);
+});
+
+test("getSightingGroupKey range une observation dans l'heure et le jour locaux", () => {
+  assert.equal(groupKey('2026-10-20T02:30:00Z', 'hour'), '2026-10-19T22:00');
+  assert.equal(groupKey('2026-10-20T02:30:00Z', 'day'), '2026-10-19');
+  assert.equal(groupKey('2026-10-20T02:30:00Z', 'day', 'UTC'), '2026-10-20');
+  assert.equal(groupKey('2026-10-19T12:10:00Z', 'hour', 'Asia/Kolkata'), '2026-10-19T17:00');
+});
+
+test("completeStatsBuckets complète la série horaire et fusionne l'heure répétée", () => {
+  const day = getZonedDay(new Date('2026-11-01T12:00:00Z'), TORONTO);
+  const buckets = completeStatsBuckets([{ key: '2026-11-01T01:00', sightings: 2, vehicles: 1 }], {
+    ...day,
+    timeZone: TORONTO,
+    groupBy: 'hour'
+  });
+
+  assert.equal(buckets.length, 24);
+  assert.deepEqual(buckets[0], { key: '2026-11-01T00:00', sightings: 0, vehicles: 0 });
+  assert.deepEqual(buckets[1], { key: '2026-11-01T01:00', sightings: 2, vehicles: 1 });
+  assert.equal(buckets[23].key, '2026-11-01T23:00');
+});
+
+test("completeStatsBuckets compte les heures locales des fuseaux décalés d'une demi-heure", () => {
+  const buckets = completeStatsBuckets([], aggregation('2026-10-19T00:00:00Z', '2026-10-19T03:00:00Z', 'hour', 'Asia/Kolkata'));
+
+  assert.deepEqual(buckets.map(bucket => bucket.key), [
+    '2026-10-19T05:00',
+    '2026-10-19T06:00',
+    '2026-10-19T07:00',
+    '2026-10-19T08:00'
+  ]);
+});
+
+test('completeStatsBuckets trie les autres regroupements du plus fréquent au plus rare', () => {
+  const buckets = completeStatsBuckets([
+    { key: 'Québec', sightings: 1, vehicles: 1 },
+    { key: 'Ontario', sightings: 5, vehicles: 3 }
+  ], aggregation('2026-10-19T00:00:00Z', '2026-10-20T00:00:00Z', 'region'));
+
+  assert.deepEqual(buckets.map(bucket => bucket.key), ['Ontario', 'Québec']);
+});
+
+test("SQLite regroupe par heure locale comme le stockage en mémoire, de part et d'autre du changement d'heure", async () => {
+  const storage = new SqliteStorage(createSqliteDatabase(':memory:'));
+  await storage.migrate();
+
+  const times = ['2026-10-31T23:30:00Z', '2026-11-01T05:30:00Z', '2026-11-01T06:30:00Z', '2026-11-01T07:30:00Z', '2026-11-02T03:00:00Z'];
+  for (const [index, detectedAt] of Array.from(times.entries())) {
+    await storage.createLicensePlate({
+      plateNumber: `ABC ${100 + index}`,
+      region: 'Ontario',
+      status: 'valid',
+      detectionType: 'automatic',
+      detectedAt: new Date(detectedAt)
+    } as Parameters<SqliteStorage['createLicensePlate']>[0]);
+  }
+
+  for (const groupBy of ['hour', 'day'] as const) {
+    const range = aggregation('2026-10-31T00:00:00Z', '2026-11-03T00:00:00Z', groupBy);
+    const expected = new Map<string, number>();
+    for (const time of times) {
+      const key = groupKey(time, groupBy)!;
+      expected.set(key, (expected.get(key) || 0) + 1);
+    }
+
+    const buckets = await storage.aggregateSightings(range);
+    assert.deepEqual(new Map(buckets.map(bucket => [bucket.key, bucket.sightings])), expected);
+  }
+});
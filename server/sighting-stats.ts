@@ -0,0 +1,260 @@
+import { and, gte, lt, sql, type Column, type SQL } from 'drizzle-orm';
+import type { LicensePlate, StatsBucket, StatsGrouping } from '@shared/schema';
+
+const MINUTE_MS = 60 * 1000;
+const QUARTER_HOUR_MS = 15 * MINUTE_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Plage au-delà de laquelle un regroupement par heure donnerait trop de tranches
+export const MAX_HOURLY_RANGE_MS = 31 * DAY_MS;
+
+// Fuseau du serveur, utilisé quand la requête n'en précise pas
+export const SERVER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Agrégation demandée au stockage : observations de la plage [from, to), regroupées
+// selon groupBy (une seule tranche sans regroupement) ; les tranches horaires et
+// journalières suivent l'heure locale de timeZone
+export type SightingAggregation = {
+  from: Date;
+  to: Date;
+  timeZone: string;
+  groupBy?: StatsGrouping;
+};
+
+type TimeInterval = Extract<StatsGrouping, 'hour' | 'day'>;
+type LocalParts = Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function isTimeInterval(grouping: StatsGrouping): grouping is TimeInterval {
+  return grouping === 'hour' || grouping === 'day';
+}
+
+/**
+ * Date et heure locales d'un instant dans un fuseau
+ */
+function getLocalParts(date: Date, timeZone: string): LocalParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = {} as LocalParts;
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type as keyof LocalParts] = parseInt(part.value, 10);
+    }
+  }
+  return parts;
+}
+
+// Écart entre l'heure locale et UTC à un instant donné
+function getUtcOffset(date: Date, timeZone: string): number {
+  const parts = getLocalParts(date, timeZone);
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// Clé d'une tranche : « 2024-05-01T14:00 » pour une heure, « 2024-05-01 » pour un jour
+function getBucketKey(date: Date, interval: TimeInterval, timeZone: string): string {
+  const parts = getLocalParts(date, timeZone);
+  const day = `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+  return interval === 'day' ? day : `${day}T${pad(parts.hour)}:00`;
+}
+
+/**
+ * Premier instant du jour local contenant date. Quand un changement d'heure saute
+ * minuit, le jour commence à la première heure qui existe.
+ */
+function startOfZonedDay(date: Date, timeZone: string): Date {
+  const parts = getLocalParts(date, timeZone);
+  const midnight = Date.UTC(parts.year, parts.month - 1, parts.day);
+  const estimate = new Date(midnight - getUtcOffset(date, timeZone));
+  const start = new Date(midnight - getUtcOffset(estimate, timeZone));
+
+  return getBucketKey(start, 'day', timeZone) === getBucketKey(date, 'day', timeZone) ? start : estimate;
+}
+
+/**
+ * Jour local contenant date, de son début au début du lendemain
+ */
+export function getZonedDay(date: Date, timeZone: string): { from: Date; to: Date } {
+  const from = startOfZonedDay(date, timeZone);
+  return { from, to: startOfZonedDay(new Date(from.getTime() + 36 * HOUR_MS), timeZone) };
+}
+
+/**
+ * Regroupements par défaut : série horaire sur deux jours au plus, journalière
+ * au-delà, avec la répartition par statut et par région
+ */
+export function getDefaultGroupings(from: Date, to: Date): StatsGrouping[] {
+  return [to.getTime() - from.getTime() <= 2 * DAY_MS ? 'hour' : 'day', 'status', 'region'];
+}
+
+/**
+ * Clés de toutes les tranches de la plage, dans l'ordre. L'heure répétée au passage
+ * à l'heure d'hiver ne forme qu'une tranche.
+ */
+function listTimeBuckets(from: Date, to: Date, interval: TimeInterval, timeZone: string): string[] {
+  const keys = new Set<string>();
+
+  if (interval === 'hour') {
+    // Les décalages sont des multiples d'un quart d'heure : chaque heure locale commence
+    // sur un quart d'heure UTC, y compris dans les fuseaux décalés d'une demi-heure
+    for (let time = from.getTime(); time < to.getTime(); time = Math.floor(time / QUARTER_HOUR_MS) * QUARTER_HOUR_MS + QUARTER_HOUR_MS) {
+      keys.add(getBucketKey(new Date(time), 'hour', timeZone));
+    }
+  } else {
+    for (let day = startOfZonedDay(from, timeZone); day < to; day = getZonedDay(day, timeZone).to) {
+      keys.add(getBucketKey(day, 'day', timeZone));
+    }
+  }
+
+  return Array.from(keys);
+}
+
+/**
+ * Met en forme les tranches renvoyées par le stockage : une série temporelle
+ * complète (tranches vides à zéro) ou les valeurs de la plus fréquente à la plus rare
+ */
+export function completeStatsBuckets(buckets: StatsBucket[], aggregation: SightingAggregation): StatsBucket[] {
+  const { groupBy } = aggregation;
+
+  if (!groupBy || !isTimeInterval(groupBy)) {
+    return [...buckets].sort((a, b) => b.sightings - a.sightings);
+  }
+
+  const byKey = new Map(buckets.map(bucket => [bucket.key, bucket]));
+  return listTimeBuckets(aggregation.from, aggregation.to, groupBy, aggregation.timeZone)
+    .map(key => byKey.get(key) || { key, sightings: 0, vehicles: 0 });
+}
+
+/**
+ * Vérifie qu'une observation se situe dans la plage agrégée (stockage en mémoire)
+ */
+export function matchesSightingAggregation(plate: LicensePlate, aggregation: SightingAggregation): boolean {
+  return plate.detectedAt >= aggregation.from && plate.detectedAt < aggregation.to;
+}
+
+/**
+ * Tranche d'une observation (stockage en mémoire)
+ */
+export function getSightingGroupKey(plate: LicensePlate, aggregation: SightingAggregation): string | null {
+  switch (aggregation.groupBy) {
+    case 'hour':
+    case 'day':
+      return getBucketKey(plate.detectedAt, aggregation.groupBy, aggregation.timeZone);
+    case 'status':
+      return plate.status;
+    case 'region':
+      return plate.region;
+    case 'camera':
+      return plate.cameraId;
+    default:
+      return null;
+  }
+}
+
+type StatsColumns = {
+  status: Column;
+  region: Column;
+  cameraId: Column;
+  detectedAt: Column;
+};
+
+/**
+ * Condition SQL de la plage, commune à PostgreSQL et SQLite
+ */
+export function sightingAggregationCondition(columns: StatsColumns, aggregation: SightingAggregation): SQL | undefined {
+  return and(gte(columns.detectedAt, aggregation.from), lt(columns.detectedAt, aggregation.to));
+}
+
+/**
+ * Décalages successifs du fuseau sur la plage. Les changements d'heure sont
+ * repérés jour par jour, puis situés à la minute près.
+ */
+function getUtcOffsetSegments(from: Date, to: Date, timeZone: string): { until: number | null; offset: number }[] {
+  const segments: { until: number | null; offset: number }[] = [];
+  let offset = getUtcOffset(from, timeZone);
+
+  for (let time = from.getTime(); time < to.getTime(); time += DAY_MS) {
+    const next = Math.min(time + DAY_MS, to.getTime());
+    const nextOffset = getUtcOffset(new Date(next), timeZone);
+    if (nextOffset === offset) continue;
+
+    let [before, after] = [time, next];
+    while (after - before > MINUTE_MS) {
+      const middle = Math.floor((before + after) / 2);
+      if (getUtcOffset(new Date(middle), timeZone) === offset) {
+        before = middle;
+      } else {
+        after = middle;
+      }
+    }
+
+    segments.push({ until: Math.floor(before / MINUTE_MS) * MINUTE_MS + MINUTE_MS, offset });
+    offset = nextOffset;
+  }
+
+  segments.push({ until: null, offset });
+  return segments;
+}
+
+/**
+ * Heure locale en secondes depuis l'époque, pour strftime. SQLite ne connaît pas
+ * les fuseaux : le décalage de chaque période de la plage est appliqué tel quel.
+ */
+function sqliteLocalTime(column: Column, aggregation: SightingAggregation): SQL {
+  const segments = getUtcOffsetSegments(aggregation.from, aggregation.to, aggregation.timeZone);
+  const last = segments[segments.length - 1];
+  const offset = segments.length === 1
+    ? sql`${last.offset}`
+    : sql`case ${sql.join(segments.slice(0, -1).map(segment => sql`when ${column} < ${segment.until} then ${segment.offset}`), sql` `)} else ${last.offset} end`;
+
+  return sql`(${column} + ${offset}) / 1000`;
+}
+
+/**
+ * Expression SQL de la tranche d'une observation. Les dates PostgreSQL portent leur
+ * fuseau et sont converties vers le fuseau demandé ; SQLite les garde en UTC.
+ */
+export function sightingGroupExpression(
+  columns: StatsColumns,
+  aggregation: SightingAggregation,
+  dialect: 'postgres' | 'sqlite'
+): SQL<string | null> {
+  switch (aggregation.groupBy) {
+    case 'hour':
+    case 'day':
+      if (dialect === 'sqlite') {
+        const format = aggregation.groupBy === 'day' ? '%Y-%m-%d' : '%Y-%m-%dT%H:00';
+        return sql<string>`strftime(${format}, ${sqliteLocalTime(columns.detectedAt, aggregation)}, 'unixepoch')`;
+      } else {
+        const format = aggregation.groupBy === 'day' ? 'YYYY-MM-DD' : 'YYYY-MM-DD"T"HH24:00';
+        return sql<string>`to_char(timezone(${aggregation.timeZone}::text, ${columns.detectedAt}), ${format}::text)`;
+      }
+    case 'status':
+      return sql<string>`${columns.status}`;
+    case 'region':
+      return sql<string | null>`${columns.region}`;
+    case 'camera':
+      return sql<string | null>`${columns.cameraId}`;
+    default:
+      return sql<null>`null`;
+  }
+}
@@ -0,0 +1,123 @@
+import { sql, type Column } from 'drizzle-orm';
+import type {
+  LicensePlate,
+  InsertLicensePlate,
+  Vehicle,
+  InsertVehicle,
+  StatusCheck
+} from '@shared/schema';
+import { classifyPlate } from '@shared/plate-formats';
+import { normalizePlateKey } from './plate-normalization';
+
+export type SqlDialect = 'postgres' | 'sqlite';
+
+// Colonnes du véhicule que la mise à jour d'une identité existante relit
+type VehicleColumns = { category: Column; lastSeenAt: Column };
+
+/**
+ * Règles communes à PostgreSQL et SQLite : les mêmes que MemStorage (clé
+ * normalisée et catégorie calculées ici, jamais fournies par l'appelant).
+ *
+ * Chaque pilote écrit ses propres requêtes Drizzle : les constructeurs des deux
+ * dialectes ont la même forme mais des types distincts, et les transactions sont
+ * asynchrones sous PostgreSQL, synchrones sous better-sqlite3.
+ */
+export abstract class SqlStorage {
+  /**
+   * Met le schéma de la base à jour avant la première requête
+   */
+  abstract migrate(): Promise<void>;
+
+  abstract getVehicleByKey(plateKey: string, region?: string | null): Promise<Vehicle | undefined>;
+
+  abstract getVehicleSightings(vehicleId: number): Promise<LicensePlate[]>;
+
+  abstract getStatusChecks(vehicleId: number): Promise<StatusCheck[]>;
+
+  /**
+   * Valeurs d'une nouvelle observation, du véhicule auquel la rattacher et du
+   * statut qu'elle indique
+   */
+  protected prepareSighting(plateData: InsertLicensePlate) {
+    // S'assurer que la région n'est jamais undefined
+    const region = plateData.region || 'Inconnu';
+    const category = classifyPlate(plateData.plateNumber, region, plateData);
+
+    return {
+      sighting: { ...plateData, region, category },
+      vehicle: {
+        plateNumber: plateData.plateNumber,
+        region,
+        category,
+        lastSeenAt: plateData.lastSeenAt || new Date()
+      } satisfies InsertVehicle,
+      status: {
+        status: plateData.status,
+        details: plateData.details || null,
+        registrationExpiresAt: plateData.registrationExpiresAt || null,
+        ownerClass: plateData.ownerClass || null,
+        registeredVehicle: plateData.registeredVehicle || null
+      }
+    };
+  }
+
+  /**
+   * Valeurs d'une observation corrigée : une lecture corrigée peut désigner un
+   * autre véhicule, et la catégorie suit la lecture, la région et la fiche du registre
+   */
+  protected prepareCorrection(plate: LicensePlate, data: Partial<InsertLicensePlate>) {
+    const region = data.region || plate.region || 'Inconnu';
+    const plateNumber = data.plateNumber || plate.plateNumber;
+    const category = classifyPlate(plateNumber, region, {
+      ownerClass: data.ownerClass !== undefined ? data.ownerClass : plate.ownerClass,
+      vehicleType: data.vehicleType !== undefined ? data.vehicleType : plate.vehicleType
+    });
+
+    return {
+      changes: { ...data, plateNumber, region, category },
+      vehicle: {
+        plateNumber,
+        region,
+        category,
+        lastSeenAt: (data.lastSeenAt !== undefined ? data.lastSeenAt : plate.lastSeenAt) || new Date()
+      } satisfies InsertVehicle,
+      status: { ...plate, ...data } as LicensePlate
+    };
+  }
+
+  /**
+   * Insertion du véhicule ou, si sa clé existe déjà dans sa région, mise à jour de
+   * son identité en une seule requête, selon les règles de mergeVehicle
+   */
+  protected vehicleUpsert(vehicles: VehicleColumns, vehicleData: InsertVehicle) {
+    const seenAt = vehicleData.lastSeenAt || new Date();
+
+    return {
+      values: {
+        ...vehicleData,
+        plateKey: normalizePlateKey(vehicleData.plateNumber, vehicleData.region),
+        firstSeenAt: seenAt,
+        lastSeenAt: seenAt
+      },
+      set: {
+        plateNumber: sql`excluded.plate_number`,
+        category: sql`coalesce(nullif(excluded.category, ''), ${vehicles.category})`,
+        lastSeenAt: sql`case when excluded.last_seen_at > ${vehicles.lastSeenAt} then excluded.last_seen_at else ${vehicles.lastSeenAt} end`
+      }
+    };
+  }
+
+  // Recherche par clé normalisée : « CBPC 344 » trouve aussi « CBPC344 » ou « C8PC-344 »
+  async getPlateByNumber(plateNumber: string, region?: string | null): Promise<LicensePlate | undefined> {
+    const vehicle = await this.getVehicleByKey(normalizePlateKey(plateNumber, region), region);
+    if (!vehicle) return undefined;
+
+    const [latest] = await this.getVehicleSightings(vehicle.id);
+    return latest;
+  }
+
+  async getCurrentStatus(vehicleId: number): Promise<StatusCheck | undefined> {
+    const [latest] = await this.getStatusChecks(vehicleId);
+    return latest;
+  }
+}
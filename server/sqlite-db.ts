@@ -0,0 +1,30 @@
+import fs from 'fs';
+import path from 'path';
+import SqliteDriver from 'better-sqlite3';
+import { drizzle } from 'drizzle-orm/better-sqlite3';
+import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
+import * as sqliteSchema from './sqlite-schema';
+
+// Dossier des migrations SQLite, générées par drizzle-kit (npm run db:generate:sqlite)
+const SQLITE_MIGRATIONS_FOLDER = 'migrations/sqlite';
+
+/**
+ * Ouvre (ou crée) la base SQLite d'un poste autonome. Le journal WAL évite de
+ * perdre des écritures en cas d'arrêt brutal ; les clés étrangères sont vérifiées
+ * comme sous PostgreSQL.
+ */
+export function createSqliteDatabase(filePath: string) {
+  fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+
+  const connection = new SqliteDriver(filePath);
+  connection.pragma('journal_mode = WAL');
+  connection.pragma('foreign_keys = ON');
+
+  return drizzle(connection, { schema: sqliteSchema });
+}
+
+export type SqliteDatabase = ReturnType<typeof createSqliteDatabase>;
+
+export function migrateSqliteDatabase(db: SqliteDatabase): void {
+  migrate(db, { migrationsFolder: SQLITE_MIGRATIONS_FOLDER });
+}
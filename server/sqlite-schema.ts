@@ -0,0 +1,149 @@
+import { sqliteTable, text, integer, real, index, unique } from 'drizzle-orm/sqlite-core';
+import type { z } from 'zod';
+import type { PlateCandidate, PermitTimeWindow, PurgePolicyResult, boundingBoxSchema } from '@shared/schema';
+
+// Tables de shared/schema.ts transposées pour SQLite (postes autonomes sans serveur
+// PostgreSQL) : mêmes noms de tables et de colonnes, mêmes types de lignes.
+// Les dates sont stockées en millisecondes, les objets JSON en texte.
+// Toute modification de shared/schema.ts doit être reportée ici (npm run db:generate:sqlite).
+
+const createdAt = (name: string) => integer(name, { mode: 'timestamp_ms' }).notNull().$defaultFn(() => new Date());
+
+export const vehicles = sqliteTable('vehicles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  plateKey: text('plate_key').notNull(),
+  plateNumber: text('plate_number').notNull(),
+  region: text('region').notNull(),
+  category: text('category'),
+  firstSeenAt: createdAt('first_seen_at'),
+  lastSeenAt: createdAt('last_seen_at')
+}, (table) => ({
+  plateKeyRegionUnique: unique('vehicles_plate_key_region_unique').on(table.plateKey, table.region)
+}));
+
+export const statusChecks = sqliteTable('status_checks', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  vehicleId: integer('vehicle_id').notNull().references(() => vehicles.id),
+  status: text('status').notNull(),
+  details: text('details'),
+  registrationExpiresAt: text('registration_expires_at'),
+  ownerClass: text('owner_class'),
+  registeredVehicle: text('registered_vehicle'),
+  checkedAt: createdAt('checked_at')
+}, (table) => ({
+  vehicleIdx: index('status_checks_vehicle_id_idx').on(table.vehicleId)
+}));
+
+export const licensePlates = sqliteTable('license_plates', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  plateNumber: text('plate_number').notNull(),
+  plateKey: text('plate_key').notNull(),
+  region: text('region'),
+  status: text('status').notNull(),
+  detectionType: text('detection_type').notNull(),
+  detectedAt: createdAt('detected_at'),
+  details: text('details'),
+  alternates: text('alternates', { mode: 'json' }).$type<PlateCandidate[]>(),
+  vehicleType: text('vehicle_type'),
+  vehicleMake: text('vehicle_make'),
+  vehicleModel: text('vehicle_model'),
+  vehicleColor: text('vehicle_color'),
+  cameraId: text('camera_id'),
+  zone: text('zone'),
+  permitStatus: text('permit_status'),
+  registrationExpiresAt: text('registration_expires_at'), // YYYY-MM-DD
+  ownerClass: text('owner_class'),
+  registeredVehicle: text('registered_vehicle'),
+  category: text('category'),
+  confidence: real('confidence'),
+  readCount: integer('read_count').notNull().default(1),
+  lastSeenAt: integer('last_seen_at', { mode: 'timestamp_ms' }),
+  hotlistHit: integer('hotlist_hit', { mode: 'boolean' }).notNull().default(false),
+  vehicleId: integer('vehicle_id').references(() => vehicles.id),
+  statusCheckId: integer('status_check_id').references(() => statusChecks.id)
+}, (table) => ({
+  plateKeyIdx: index('license_plates_plate_key_idx').on(table.plateKey),
+  vehicleIdx: index('license_plates_vehicle_id_idx').on(table.vehicleId),
+  detectedAtIdx: index('license_plates_detected_at_idx').on(table.detectedAt)
+}));
+
+export const plateReads = sqliteTable('plate_reads', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  plateId: integer('plate_id').notNull().references(() => licensePlates.id),
+  trackId: text('track_id').notNull(),
+  plateNumber: text('plate_number').notNull(),
+  region: text('region'),
+  confidence: real('confidence').notNull(),
+  boundingBox: text('bounding_box', { mode: 'json' }).$type<z.infer<typeof boundingBoxSchema>>(),
+  engine: text('engine'),
+  cameraId: text('camera_id'),
+  readAt: createdAt('read_at')
+});
+
+export const evidenceImages = sqliteTable('evidence_images', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  sightingId: integer('sighting_id').notNull().references(() => licensePlates.id),
+  kind: text('kind').notNull(),
+  storageKey: text('storage_key').notNull(),
+  sha256: text('sha256').notNull(),
+  contentType: text('content_type').notNull(),
+  byteSize: integer('byte_size').notNull(),
+  capturedAt: createdAt('captured_at')
+}, (table) => ({
+  sightingIdx: index('evidence_images_sighting_id_idx').on(table.sightingId)
+}));
+
+export const hotlists = sqliteTable('hotlists', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  source: text('source').notNull(),
+  description: text('description'),
+  active: integer('active', { mode: 'boolean' }).notNull().default(true),
+  createdAt: createdAt('created_at')
+});
+
+export const hotlistEntries = sqliteTable('hotlist_entries', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  hotlistId: integer('hotlist_id').notNull().references(() => hotlists.id),
+  plateNumber: text('plate_number').notNull(),
+  plateKey: text('plate_key').notNull(),
+  region: text('region'),
+  reason: text('reason').notNull(),
+  priority: text('priority').notNull(),
+  notes: text('notes'),
+  expiresAt: integer('expires_at', { mode: 'timestamp_ms' }),
+  createdAt: createdAt('created_at')
+}, (table) => ({
+  plateKeyIdx: index('hotlist_entries_plate_key_idx').on(table.plateKey)
+}));
+
+export const permits = sqliteTable('permits', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  plateNumber: text('plate_number').notNull(),
+  plateKey: text('plate_key').notNull(),
+  region: text('region'),
+  zone: text('zone'),
+  permitType: text('permit_type').notNull(),
+  holderName: text('holder_name'),
+  validFrom: createdAt('valid_from'),
+  validUntil: integer('valid_until', { mode: 'timestamp_ms' }),
+  timeWindows: text('time_windows', { mode: 'json' }).$type<PermitTimeWindow[]>(),
+  notes: text('notes'),
+  createdAt: createdAt('created_at')
+}, (table) => ({
+  plateKeyIdx: index('permits_plate_key_idx').on(table.plateKey)
+}));
+
+export const purgeAudits = sqliteTable('purge_audits', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  trigger: text('trigger').notNull(),
+  startedAt: integer('started_at', { mode: 'timestamp_ms' }).notNull(),
+  completedAt: createdAt('completed_at'),
+  sightingsDeleted: integer('sightings_deleted').notNull().default(0),
+  readsDeleted: integer('reads_deleted').notNull().default(0),
+  statusChecksDeleted: integer('status_checks_deleted').notNull().default(0),
+  vehiclesDeleted: integer('vehicles_deleted').notNull().default(0),
+  imagesDeleted: integer('images_deleted').notNull().default(0),
+  policies: text('policies', { mode: 'json' }).$type<PurgePolicyResult[]>().notNull(),
+  error: text('error')
+});
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { InsertLicensePlate } from '@shared/schema';
+import { createSqliteDatabase } from './sqlite-db';
+import { SqliteStorage } from './sqlite-storage';
+
+async function createStorage(): Promise<SqliteStorage> {
+  const storage = new SqliteStorage(createSqliteDatabase(':memory:'));
+  await storage.migrate();
+  return storage;
+}
+
+// Observation à enregistrer ; detectedAt n'est fourni que par les tests
+function sighting(plateNumber: string, region: string, fields: Partial<InsertLicensePlate> & { detectedAt?: Date } = {}): InsertLicensePlate {
+  return { plateNumber, region, status: 'valid', detectionType: 'automatic', ...fields } as InsertLicensePlate;
+}
+
+test('SQLite distingue la même plaque dans deux régions', async () => {
+  const storage = await createStorage();
+
+  const ontario = await storage.createLicensePlate(sighting('ABC 123', 'Ontario'));
+  const manitoba = await storage.createLicensePlate(sighting('ABC 123', 'Manitoba', { status: 'suspended' }));
+  const again = await storage.createLicensePlate(sighting('ABC-123', 'Ontario'));
+
+  assert.notEqual(ontario.vehicleId, manitoba.vehicleId);
+  assert.equal(again.vehicleId, ontario.vehicleId);
+  assert.equal((await storage.getVehicleByKey('ABC123', 'Manitoba'))?.id, manitoba.vehicleId);
+  assert.equal((await storage.getPlateByNumber('abc 123', 'Manitoba'))?.status, 'suspended');
+  assert.equal((await storage.getPlateByNumber('abc 123', 'Ontario'))?.id, again.id);
+});
+
+test("SQLite rattache une lecture corrigée à l'autre véhicule avec un nouveau statut", async () => {
+  const storage = await createStorage();
+
+  const first = await storage.createLicensePlate(sighting('ABC 123', 'Ontario'));
+  const other = await storage.createLicensePlate(sighting('ABD 123', 'Ontario', { status: 'stolen' }));
+  const corrected = await storage.updatePlate(first.id, { plateNumber: 'ABD 123', status: 'stolen' });
+
+  assert.equal(corrected?.vehicleId, other.vehicleId);
+  assert.equal(corrected?.plateKey, 'ABD123');
+  assert.deepEqual((await storage.getVehicleSightings(other.vehicleId!)).map(plate => plate.id).sort(), [first.id, other.id]);
+  assert.equal((await storage.getStatusChecks(other.vehicleId!)).length, 2);
+  assert.equal(await storage.updatePlate(999, { status: 'valid' }), undefined);
+});
+
+test('SQLite normalise la clé des entrées de liste et des permis selon leur région', async () => {
+  const storage = await createStorage();
+
+  const hotlist = await storage.createHotlist({ name: 'Vols', source: 'police' });
+  const entry = await storage.createHotlistEntry(hotlist.id, { plateNumber: 'C8PC 344', region: 'Ontario', reason: 'stolen', priority: 'high' });
+  const permit = await storage.createPermit({ plateNumber: 'c8pc-344', region: '', permitType: 'permit', zone: 'P1' });
+
+  assert.equal(entry.plateKey, 'CBPC344');
+  assert.equal(permit.plateKey, 'C8PC344');
+  assert.equal(permit.region, null);
+  assert.equal((await storage.updatePermit(permit.id, { region: 'Ontario' }))?.plateKey, 'CBPC344');
+  assert.deepEqual((await storage.getPermits({ zone: 'P1', plateKey: 'CBPC344' })).map(found => found.id), [permit.id]);
+});
+
+test('SQLite supprime une liste avec ses entrées et ne cherche que dans les listes actives', async () => {
+  const storage = await createStorage();
+
+  const active = await storage.createHotlist({ name: 'Vols', source: 'police' });
+  const inactive = await storage.createHotlist({ name: 'Archives', source: 'police', active: false });
+  const entry = await storage.createHotlistEntry(active.id, { plateNumber: 'ABC 123', reason: 'stolen', priority: 'high' });
+  await storage.createHotlistEntry(active.id, { plateNumber: 'ABC 124', reason: 'stolen', priority: 'low', expiresAt: new Date(Date.now() - 1000) });
+  await storage.createHotlistEntry(inactive.id, { plateNumber: 'XYZ 999', reason: 'stolen', priority: 'low' });
+
+  assert.deepEqual((await storage.getActiveHotlistEntries()).map(found => found.id), [entry.id]);
+  assert.equal(await storage.deleteHotlist(active.id), true);
+  assert.equal(await storage.getHotlistEntry(entry.id), undefined);
+  assert.equal(await storage.deleteHotlist(active.id), false);
+});
+
+test('SQLite purge les observations expirées et retourne les clés de leurs images', async () => {
+  const storage = await createStorage();
+
+  const old = await storage.createLicensePlate(sighting('ABC 123', 'Ontario', { detectedAt: new Date('2026-10-01T12:00:00Z') }));
+  const recent = await storage.createLicensePlate(sighting('XYZ 999', 'Ontario', { detectedAt: new Date('2026-10-19T12:00:00Z') }));
+  for (const [plate, kind] of [[old, 'plate'], [old, 'frame'], [recent, 'plate']] as const) {
+    await storage.createEvidenceImage({
+      sightingId: plate.id,
+      kind,
+      storageKey: `${plate.id}/${kind}.jpg`,
+      sha256: '0'.repeat(64),
+      contentType: 'image/jpeg',
+      byteSize: 1
+    });
+  }
+
+  const { imageKeys, ...counts } = await storage.purgeSightings({ detectedBefore: new Date('2026-10-17T12:00:00Z'), exclude: [] });
+
+  assert.deepEqual(imageKeys.sort(), [`${old.id}/frame.jpg`, `${old.id}/plate.jpg`]);
+  assert.deepEqual(counts, { sightings: 1, reads: 0, statusChecks: 1, vehicles: 1 });
+  assert.equal(await storage.getVehicle(old.vehicleId!), undefined);
+  assert.deepEqual((await storage.getAllPlates()).map(plate => plate.id), [recent.id]);
+  assert.equal((await storage.getEvidenceImages(recent.id)).length, 1);
+});
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import { PlateStatus, StatusDefinition, statusDefinitionSchema } from '@shared/schema';
+
+// Signaux sonores de base, partagés par les statuts de même nature
+const SOUND_OK = 'https://assets.mixkit.co/active_storage/sfx/2869/2869-preview.mp3';
+const SOUND_WARNING = 'https://assets.mixkit.co/active_storage/sfx/1864/1864-preview.mp3';
+const SOUND_CRITICAL = 'https://assets.mixkit.co/active_storage/sfx/209/209-preview.mp3';
+const SOUND_INFO = 'https://assets.mixkit.co/active_storage/sfx/2870/2870-preview.mp3';
+
+// Statut de repli pour un identifiant absent du catalogue
+const FALLBACK_STATUS = 'other';
+
+// Catalogue par défaut. STATUS_CATALOGUE_FILE (JSON) peut redéfinir ces statuts
+// ou en ajouter, sans modifier les clients qui lisent le catalogue via /api/statuses.
+const DEFAULT_STATUSES: StatusDefinition[] = [
+  { id: 'valid', label: 'Valide', description: 'Plaque en règle - Véhicule standard', severity: 'ok', color: '#22c55e', sound: SOUND_OK },
+  { id: 'expired', label: 'Expirée', description: 'La plaque a expiré - Renouvellement requis', severity: 'warning', color: '#f97316', sound: SOUND_WARNING },
+  { id: 'suspended', label: 'Suspendue', description: 'La plaque est suspendue - Consulter les autorités', severity: 'critical', color: '#ef4444', sound: SOUND_CRITICAL },
+  { id: 'stolen', label: 'Volé', description: 'Véhicule ou plaque signalé volé - Ne pas intervenir seul', severity: 'critical', color: '#b91c1c', sound: SOUND_CRITICAL },
+  { id: 'wanted', label: 'Recherché', description: 'Véhicule recherché par les autorités', severity: 'critical', color: '#db2777', sound: SOUND_CRITICAL },
+  { id: 'unregistered', label: 'Non immatriculée', description: 'Aucune immatriculation en vigueur pour cette plaque', severity: 'warning', color: '#eab308', sound: SOUND_WARNING },
+  { id: 'permit', label: 'Permis temporaire', description: 'Circulation autorisée par un permis temporaire', severity: 'info', color: '#3b82f6', sound: SOUND_INFO },
+  { id: 'diplomatic', label: 'Diplomatique', description: 'Plaque diplomatique - Immunité possible', severity: 'info', color: '#8b5cf6', sound: SOUND_INFO },
+  { id: 'other', label: 'Autre', description: 'Information non disponible - Statut indéterminé', severity: 'info', color: '#6b7280', sound: SOUND_INFO }
+];
+
+let catalogue: StatusDefinition[] | null = null;
+
+/**
+ * Charge le catalogue : statuts par défaut, complétés ou redéfinis par le fichier
+ * STATUS_CATALOGUE_FILE. Une définition invalide est ignorée avec un avertissement.
+ */
+function loadCatalogue(): StatusDefinition[] {
+  const statuses = new Map(DEFAULT_STATUSES.map(status => [status.id, status]));
+  const file = process.env.STATUS_CATALOGUE_FILE;
+
+  if (file) {
+    const filePath = path.resolve(file);
+
+    try {
+      const entries: unknown[] = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+
+      for (const entry of entries) {
+        const result = statusDefinitionSchema.safeParse(entry);
+        if (!result.success) {
+          console.warn(`Statut invalide ignoré dans ${file}:`, result.error.errors);
+          continue;
+        }
+        statuses.set(result.data.id, result.data);
+      }
+
+      console.log(`Catalogue des statuts chargé depuis ${file} (${statuses.size} statuts)`);
+    } catch (error) {
+      console.error(`Erreur lors du chargement du catalogue des statuts ${file}:`, error);
+    }
+  }
+
+  return Array.from(statuses.values());
+}
+
+/**
+ * Retourne le catalogue des statuts (chargé au premier appel)
+ */
+export function getStatusCatalogue(): StatusDefinition[] {
+  if (!catalogue) {
+    catalogue = loadCatalogue();
+  }
+  return catalogue;
+}
+
+/**
+ * Vérifie qu'un statut est défini dans le catalogue
+ */
+export function isKnownStatus(status: string): boolean {
+  return getStatusCatalogue().some(definition => definition.id === status);
+}
+
+/**
+ * Définition d'un statut, ou celle du statut de repli s'il est inconnu
+ */
+export function getStatusDefinition(status: PlateStatus): StatusDefinition {
+  const statuses = getStatusCatalogue();
+  return statuses.find(definition => definition.id === status)
+    || statuses.find(definition => definition.id === FALLBACK_STATUS)
+    || DEFAULT_STATUSES[DEFAULT_STATUSES.length - 1];
+}
+
+/**
+ * Génère des détails explicatifs pour un statut de plaque donné
+ */
+export function getStatusDetails(status: PlateStatus): string {
+  return getStatusDefinition(status).description;
+}
@@ -1,78 +1,120 @@
 import { 
   licensePlates, 
   type LicensePlate, 
-  type InsertLicensePlate
+  type InsertLicensePlate,
+  type PlateRead,
+  type InsertPlateRead,
+  type Hotlist,
+  type InsertHotlist,
+  type HotlistEntry,
+  type InsertHotlistEntry,
+  type Permit,
+  type InsertPermit,
+  type PlateCategory,
+  type Vehicle,
+  type InsertVehicle,
+  type StatusCheck,
+  type InsertStatusCheck,
+  type PurgeAudit,
+  type InsertPurgeAudit,
+  type EvidenceImage,
+  type InsertEvidenceImage,
+  type StatsBucket
 } from "@shared/schema";
+import { classifyPlate } from "@shared/plate-formats";
+import { normalizePlateKey } from "./plate-normalization";
+import { toStatusCheck, isSameStatus, mergeVehicle } from "./vehicle-records";
+import { matchesSightingSearch, compareSightings, type SightingSearch } from "./sighting-search";
+import { matchesSightingAggregation, getSightingGroupKey, type SightingAggregation } from "./sighting-stats";
+import { matchesRetentionRule, type SightingPurge, type SightingRetentionRule } from "./retention";
+import { seedDemoData } from "./seed";
+import { initializeEvidenceStore } from "./evidence-store";
 
 // Storage interface
 export interface IStorage {
   createLicensePlate(plate: InsertLicensePlate): Promise<LicensePlate>;
   getPlateById(id: number): Promise<LicensePlate | undefined>;
-  getPlateByNumber(plateNumber: string): Promise<LicensePlate | undefined>;
-  getRecentPlates(limit: number): Promise<LicensePlate[]>;
+  getPlateByNumber(plateNumber: string, region?: string | null): Promise<LicensePlate | undefined>;
+  getRecentPlates(limit: number, filter?: { category?: PlateCategory }): Promise<LicensePlate[]>;
   getAllPlates(): Promise<LicensePlate[]>;
+  searchSightings(search: SightingSearch): Promise<LicensePlate[]>;
+  aggregateSightings(aggregation: SightingAggregation): Promise<StatsBucket[]>;
   updatePlate(id: number, data: Partial<InsertLicensePlate>): Promise<LicensePlate | undefined>;
+  upsertVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  getVehicle(id: number): Promise<Vehicle | undefined>;
+  getVehicleByKey(plateKey: string, region?: string | null): Promise<Vehicle | undefined>;
+  getVehicleSightings(vehicleId: number): Promise<LicensePlate[]>;
+  createStatusCheck(check: InsertStatusCheck): Promise<StatusCheck>;
+  getStatusChecks(vehicleId: number): Promise<StatusCheck[]>;
+  getCurrentStatus(vehicleId: number): Promise<StatusCheck | undefined>;
+  createPlateRead(read: InsertPlateRead): Promise<PlateRead>;
+  getPlateReads(plateId: number): Promise<PlateRead[]>;
+  createEvidenceImage(image: InsertEvidenceImage): Promise<EvidenceImage>;
+  getEvidenceImages(sightingId: number): Promise<EvidenceImage[]>;
+  getHotlists(): Promise<Hotlist[]>;
+  getHotlist(id: number): Promise<Hotlist | undefined>;
+  createHotlist(hotlist: InsertHotlist): Promise<Hotlist>;
+  updateHotlist(id: number, data: Partial<InsertHotlist>): Promise<Hotlist | undefined>;
+  deleteHotlist(id: number): Promise<boolean>;
+  getHotlistEntries(hotlistId: number): Promise<HotlistEntry[]>;
+  getHotlistEntry(id: number): Promise<HotlistEntry | undefined>;
+  createHotlistEntry(hotlistId: number, entry: InsertHotlistEntry): Promise<HotlistEntry>;
+  updateHotlistEntry(id: number, data: Partial<InsertHotlistEntry>): Promise<HotlistEntry | undefined>;
+  deleteHotlistEntry(id: number): Promise<boolean>;
+  getActiveHotlistEntries(): Promise<HotlistEntry[]>;
+  getPermits(filter?: { zone?: string; plateKey?: string }): Promise<Permit[]>;
+  getPermit(id: number): Promise<Permit | undefined>;
+  createPermit(permit: InsertPermit): Promise<Permit>;
+  updatePermit(id: number, data: Partial<InsertPermit>): Promise<Permit | undefined>;
+  deletePermit(id: number): Promise<boolean>;
+  countSightingsToPurge(rule: SightingRetentionRule): Promise<number>;
+  purgeSightings(rule: SightingRetentionRule): Promise<SightingPurge>;
+  createPurgeAudit(audit: InsertPurgeAudit): Promise<PurgeAudit>;
+  getPurgeAudits(limit: number): Promise<PurgeAudit[]>;
 }
 
 // In-memory storage implementation
 export class MemStorage implements IStorage {
   private plates: Map<number, LicensePlate>;
+  private vehicles: Map<number, Vehicle>;
+  private statusChecks: Map<number, StatusCheck>;
+  private reads: Map<number, PlateRead>;
+  private evidenceImages: Map<number, EvidenceImage>;
+  private hotlists: Map<number, Hotlist>;
+  private hotlistEntries: Map<number, HotlistEntry>;
+  private permits: Map<number, Permit>;
+  private purgeAudits: Map<number, PurgeAudit>;
   private currentId: number;
+  private currentVehicleId: number;
+  private currentStatusCheckId: number;
+  private currentReadId: number;
+  private currentEvidenceImageId: number;
+  private currentHotlistId: number;
+  private currentHotlistEntryId: number;
+  private currentPermitId: number;
+  private currentPurgeAuditId: number;
 
   constructor() {
     this.plates = new Map();
+    this.vehicles = new Map();
+    this.statusChecks = new Map();
+    this.reads = new Map();
+    this.evidenceImages = new Map();
+    this.hotlists = new Map();
+    this.hotlistEntries = new Map();
+    this.permits = new Map();
+    this.purgeAudits = new Map();
     this.currentId = 1;
-    
-    // Add some initial data for testing
-    this.seedInitialData();
-  }
-  
-  private seedInitialData() {
-    const initialPlates: InsertLicensePlate[] = [
-      {
-        plateNumber: "CBPC 344",
-        region: "Ontario",
-        status: "valid",
-        detectionType: "automatic",
-        details: "Plaque en règle - Véhicule standard"
-      },
-      {
-        plateNumber: "OPN 4BIZ",
-        region: "Ontario",
-        status: "expired",
-        detectionType: "manual",
-        details: "La plaque a expiré - Renouvellement requis avant circulation"
-      },
-      {
-        plateNumber: "GVAH 823",
-        region: "Ontario",
-        status: "suspended",
-        detectionType: "automatic",
-        details: "La plaque est suspendue - Contacter Service Ontario"
-      },
-      {
-        plateNumber: "ABC1234",
-        region: "New York",
-        status: "other",
-        detectionType: "manual",
-        details: "Plaque étrangère - Véhicule de tourisme"
-      }
-    ];
-    
-    // Add plates with timestamps 2-5 minutes apart
-    const baseTime = new Date();
-    baseTime.setMinutes(baseTime.getMinutes() - initialPlates.length * 5);
-    
-    initialPlates.forEach((plate, index) => {
-      const detectedAt = new Date(baseTime);
-      detectedAt.setMinutes(detectedAt.getMinutes() + index * 5);
-      
-      this.createLicensePlate({
-        ...plate,
-      }).catch(console.error);
-    });
+    this.currentVehicleId = 1;
+    this.currentStatusCheckId = 1;
+    this.currentReadId = 1;
+    this.currentEvidenceImageId = 1;
+    this.currentHotlistId = 1;
+    this.currentHotlistEntryId = 1;
+    this.currentPermitId = 1;
+    this.currentPurgeAuditId = 1;
   }
-
+  
   async createLicensePlate(plateData: InsertLicensePlate): Promise<LicensePlate> {
     const id = this.currentId++;
     const now = new Date();
@@ -83,13 +125,43 @@ export class MemStorage implements IStorage {
     const plate: LicensePlate = {
       id,
       plateNumber: plateData.plateNumber,
+      plateKey: normalizePlateKey(plateData.plateNumber, region),
       region: region as string | null, // Garantit que region est string | null, jamais undefined
       status: plateData.status,
       detectionType: plateData.detectionType,
       details: plateData.details || null,
+      alternates: plateData.alternates || null,
+      vehicleType: plateData.vehicleType || null,
+      vehicleMake: plateData.vehicleMake || null,
+      vehicleModel: plateData.vehicleModel || null,
+      vehicleColor: plateData.vehicleColor || null,
+      cameraId: plateData.cameraId || null,
+      zone: plateData.zone || null,
+      permitStatus: plateData.permitStatus || null,
+      registrationExpiresAt: plateData.registrationExpiresAt || null,
+      ownerClass: plateData.ownerClass || null,
+      registeredVehicle: plateData.registeredVehicle || null,
+      category: classifyPlate(plateData.plateNumber, region, plateData),
+      confidence: plateData.confidence ?? null,
+      readCount: plateData.readCount ?? 1,
+      lastSeenAt: plateData.lastSeenAt || null,
+      hotlistHit: plateData.hotlistHit || false,
+      vehicleId: null,
+      statusCheckId: null,
       detectedAt: now
     };
     
+    // Rattacher l'observation au véhicule et enregistrer le statut constaté
+    const vehicle = await this.upsertVehicle({
+      plateNumber: plate.plateNumber,
+      region,
+      category: plate.category,
+      lastSeenAt: plate.lastSeenAt || now
+    });
+    const statusCheck = await this.createStatusCheck(toStatusCheck(vehicle.id, plate));
+    plate.vehicleId = vehicle.id;
+    plate.statusCheckId = statusCheck.id;
+    
     this.plates.set(id, plate);
     return plate;
   }
@@ -98,13 +170,18 @@ export class MemStorage implements IStorage {
     return this.plates.get(id);
   }
 
-  async getPlateByNumber(plateNumber: string): Promise<LicensePlate | undefined> {
-    const plates = Array.from(this.plates.values());
-    return plates.find(plate => plate.plateNumber === plateNumber);
+  // Recherche par clé normalisée : « CBPC 344 » trouve aussi « CBPC344 » ou « C8PC-344 »
+  async getPlateByNumber(plateNumber: string, region?: string | null): Promise<LicensePlate | undefined> {
+    const vehicle = await this.getVehicleByKey(normalizePlateKey(plateNumber, region), region);
+    if (!vehicle) return undefined;
+    
+    const [latest] = await this.getVehicleSightings(vehicle.id);
+    return latest;
   }
 
-  async getRecentPlates(limit: number): Promise<LicensePlate[]> {
-    const plates = Array.from(this.plates.values());
+  async getRecentPlates(limit: number, filter: { category?: PlateCategory } = {}): Promise<LicensePlate[]> {
+    const plates = Array.from(this.plates.values())
+      .filter(plate => !filter.category || plate.category === filter.category);
     
     // Sort by detection time, most recent first
     return plates
@@ -116,6 +193,33 @@ export class MemStorage implements IStorage {
     return Array.from(this.plates.values());
   }
   
+  // Page de l'historique : filtres, tri puis observations après le curseur
+  async searchSightings(search: SightingSearch): Promise<LicensePlate[]> {
+    return Array.from(this.plates.values())
+      .filter(plate => matchesSightingSearch(plate, search))
+      .sort((a, b) => compareSightings(a, b, search))
+      .slice(0, search.limit);
+  }
+  
+  // Observations et véhicules distincts de la plage, par tranche
+  async aggregateSightings(aggregation: SightingAggregation): Promise<StatsBucket[]> {
+    const buckets = new Map<string | null, { sightings: number; vehicles: Set<number> }>();
+    
+    for (const plate of Array.from(this.plates.values())) {
+      if (!matchesSightingAggregation(plate, aggregation)) continue;
+      
+      const key = getSightingGroupKey(plate, aggregation);
+      const bucket = buckets.get(key) || { sightings: 0, vehicles: new Set<number>() };
+      bucket.sightings++;
+      if (plate.vehicleId !== null) {
+        bucket.vehicles.add(plate.vehicleId);
+      }
+      buckets.set(key, bucket);
+    }
+    
+    return Array.from(buckets, ([key, bucket]) => ({ key, sightings: bucket.sightings, vehicles: bucket.vehicles.size }));
+  }
+  
   async updatePlate(id: number, data: Partial<InsertLicensePlate>): Promise<LicensePlate | undefined> {
     const plate = this.plates.get(id);
     
@@ -126,19 +230,476 @@ export class MemStorage implements IStorage {
     // S'assurer que la région n'est jamais undefined si elle est fournie
     const region = data.region || plate.region || 'Inconnu';
     
+    const plateNumber = data.plateNumber || plate.plateNumber;
+    
     const updatedPlate: LicensePlate = {
       ...plate,
-      plateNumber: data.plateNumber || plate.plateNumber,
+      plateNumber,
+      plateKey: normalizePlateKey(plateNumber, region),
       region: region as string | null,
       status: data.status || plate.status,
       detectionType: data.detectionType || plate.detectionType,
       details: data.details !== undefined ? (data.details || null) : plate.details,
+      alternates: data.alternates !== undefined ? (data.alternates || null) : plate.alternates,
+      vehicleType: data.vehicleType !== undefined ? (data.vehicleType || null) : plate.vehicleType,
+      vehicleMake: data.vehicleMake !== undefined ? (data.vehicleMake || null) : plate.vehicleMake,
+      vehicleModel: data.vehicleModel !== undefined ? (data.vehicleModel || null) : plate.vehicleModel,
+      vehicleColor: data.vehicleColor !== undefined ? (data.vehicleColor || null) : plate.vehicleColor,
+      cameraId: data.cameraId !== undefined ? (data.cameraId || null) : plate.cameraId,
+      zone: data.zone !== undefined ? (data.zone || null) : plate.zone,
+      permitStatus: data.permitStatus !== undefined ? (data.permitStatus || null) : plate.permitStatus,
+      registrationExpiresAt: data.registrationExpiresAt !== undefined ? (data.registrationExpiresAt || null) : plate.registrationExpiresAt,
+      ownerClass: data.ownerClass !== undefined ? (data.ownerClass || null) : plate.ownerClass,
+      registeredVehicle: data.registeredVehicle !== undefined ? (data.registeredVehicle || null) : plate.registeredVehicle,
+      // La catégorie suit la lecture, la région et la fiche du registre
+      category: classifyPlate(plateNumber, region, {
+        ownerClass: data.ownerClass !== undefined ? data.ownerClass : plate.ownerClass,
+        vehicleType: data.vehicleType !== undefined ? data.vehicleType : plate.vehicleType
+      }),
+      confidence: data.confidence !== undefined ? data.confidence : plate.confidence,
+      readCount: data.readCount ?? plate.readCount,
+      lastSeenAt: data.lastSeenAt !== undefined ? data.lastSeenAt : plate.lastSeenAt,
+      hotlistHit: data.hotlistHit !== undefined ? data.hotlistHit : plate.hotlistHit,
       detectedAt: plate.detectedAt
     };
     
+    // Une lecture corrigée peut désigner un autre véhicule ; un nouveau statut est enregistré
+    const vehicle = await this.upsertVehicle({
+      plateNumber,
+      region,
+      category: updatedPlate.category,
+      lastSeenAt: updatedPlate.lastSeenAt || new Date()
+    });
+    updatedPlate.vehicleId = vehicle.id;
+    if (vehicle.id !== plate.vehicleId || !isSameStatus(plate, updatedPlate)) {
+      updatedPlate.statusCheckId = (await this.createStatusCheck(toStatusCheck(vehicle.id, updatedPlate))).id;
+    }
+    
     this.plates.set(id, updatedPlate);
     return updatedPlate;
   }
+  
+  // Crée le véhicule à sa première observation, puis met à jour son identité
+  async upsertVehicle(vehicleData: InsertVehicle): Promise<Vehicle> {
+    const plateKey = normalizePlateKey(vehicleData.plateNumber, vehicleData.region);
+    const existing = await this.getVehicleByKey(plateKey, vehicleData.region);
+    
+    if (existing) {
+      const updatedVehicle: Vehicle = { ...existing, ...mergeVehicle(existing, vehicleData) };
+      this.vehicles.set(existing.id, updatedVehicle);
+      return updatedVehicle;
+    }
+    
+    const seenAt = vehicleData.lastSeenAt || new Date();
+    const vehicle: Vehicle = {
+      id: this.currentVehicleId++,
+      plateKey,
+      plateNumber: vehicleData.plateNumber,
+      region: vehicleData.region,
+      category: vehicleData.category || null,
+      firstSeenAt: seenAt,
+      lastSeenAt: seenAt
+    };
+    
+    this.vehicles.set(vehicle.id, vehicle);
+    return vehicle;
+  }
+  
+  async getVehicle(id: number): Promise<Vehicle | undefined> {
+    return this.vehicles.get(id);
+  }
+  
+  // Sans région, le véhicule de cette clé vu le plus récemment, quelle que soit sa région
+  async getVehicleByKey(plateKey: string, region?: string | null): Promise<Vehicle | undefined> {
+    return Array.from(this.vehicles.values())
+      .filter(vehicle => vehicle.plateKey === plateKey && (!region || vehicle.region === region))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())[0];
+  }
+  
+  // Observations d'un véhicule, la plus récente en premier
+  async getVehicleSightings(vehicleId: number): Promise<LicensePlate[]> {
+    return Array.from(this.plates.values())
+      .filter(plate => plate.vehicleId === vehicleId)
+      .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime() || b.id - a.id);
+  }
+  
+  async createStatusCheck(checkData: InsertStatusCheck): Promise<StatusCheck> {
+    const statusCheck: StatusCheck = {
+      id: this.currentStatusCheckId++,
+      vehicleId: checkData.vehicleId,
+      status: checkData.status,
+      details: checkData.details || null,
+      registrationExpiresAt: checkData.registrationExpiresAt || null,
+      ownerClass: checkData.ownerClass || null,
+      registeredVehicle: checkData.registeredVehicle || null,
+      checkedAt: new Date()
+    };
+    
+    this.statusChecks.set(statusCheck.id, statusCheck);
+    return statusCheck;
+  }
+  
+  // Historique des statuts d'un véhicule, le plus récent en premier
+  async getStatusChecks(vehicleId: number): Promise<StatusCheck[]> {
+    return Array.from(this.statusChecks.values())
+      .filter(check => check.vehicleId === vehicleId)
+      .sort((a, b) => b.checkedAt.getTime() - a.checkedAt.getTime() || b.id - a.id);
+  }
+  
+  async getCurrentStatus(vehicleId: number): Promise<StatusCheck | undefined> {
+    const [latest] = await this.getStatusChecks(vehicleId);
+    return latest;
+  }
+  
+  async createPlateRead(readData: InsertPlateRead): Promise<PlateRead> {
+    const id = this.currentReadId++;
+    
+    const read: PlateRead = {
+      id,
+      plateId: readData.plateId,
+      trackId: readData.trackId,
+      plateNumber: readData.plateNumber,
+      region: readData.region || null,
+      confidence: readData.confidence,
+      boundingBox: readData.boundingBox || null,
+      engine: readData.engine || null,
+      cameraId: readData.cameraId || null,
+      readAt: new Date()
+    };
+    
+    this.reads.set(id, read);
+    return read;
+  }
+  
+  async getPlateReads(plateId: number): Promise<PlateRead[]> {
+    return Array.from(this.reads.values())
+      .filter(read => read.plateId === plateId)
+      .sort((a, b) => a.readAt.getTime() - b.readAt.getTime());
+  }
+  
+  async createEvidenceImage(imageData: InsertEvidenceImage): Promise<EvidenceImage> {
+    const image: EvidenceImage = {
+      ...imageData,
+      id: this.currentEvidenceImageId++,
+      capturedAt: new Date()
+    };
+    
+    this.evidenceImages.set(image.id, image);
+    return image;
+  }
+  
+  async getEvidenceImages(sightingId: number): Promise<EvidenceImage[]> {
+    return Array.from(this.evidenceImages.values())
+      .filter(image => image.sightingId === sightingId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async getHotlists(): Promise<Hotlist[]> {
+    return Array.from(this.hotlists.values());
+  }
+  
+  async getHotlist(id: number): Promise<Hotlist | undefined> {
+    return this.hotlists.get(id);
+  }
+  
+  async createHotlist(hotlistData: InsertHotlist): Promise<Hotlist> {
+    const id = this.currentHotlistId++;
+    
+    const hotlist: Hotlist = {
+      id,
+      name: hotlistData.name,
+      source: hotlistData.source,
+      description: hotlistData.description || null,
+      active: hotlistData.active ?? true,
+      createdAt: new Date()
+    };
+    
+    this.hotlists.set(id, hotlist);
+    return hotlist;
+  }
+  
+  async updateHotlist(id: number, data: Partial<InsertHotlist>): Promise<Hotlist | undefined> {
+    const hotlist = this.hotlists.get(id);
+    
+    if (!hotlist) {
+      return undefined;
+    }
+    
+    const updatedHotlist: Hotlist = {
+      ...hotlist,
+      name: data.name || hotlist.name,
+      source: data.source || hotlist.source,
+      description: data.description !== undefined ? (data.description || null) : hotlist.description,
+      active: data.active ?? hotlist.active
+    };
+    
+    this.hotlists.set(id, updatedHotlist);
+    return updatedHotlist;
+  }
+  
+  // Supprime la liste et toutes ses entrées
+  async deleteHotlist(id: number): Promise<boolean> {
+    Array.from(this.hotlistEntries.values())
+      .filter(entry => entry.hotlistId === id)
+      .forEach(entry => this.hotlistEntries.delete(entry.id));
+    
+    return this.hotlists.delete(id);
+  }
+  
+  async getHotlistEntries(hotlistId: number): Promise<HotlistEntry[]> {
+    return Array.from(this.hotlistEntries.values())
+      .filter(entry => entry.hotlistId === hotlistId);
+  }
+  
+  async getHotlistEntry(id: number): Promise<HotlistEntry | undefined> {
+    return this.hotlistEntries.get(id);
+  }
+  
+  async createHotlistEntry(hotlistId: number, entryData: InsertHotlistEntry): Promise<HotlistEntry> {
+    const id = this.currentHotlistEntryId++;
+    const region = entryData.region || null;
+    
+    const entry: HotlistEntry = {
+      id,
+      hotlistId,
+      plateNumber: entryData.plateNumber,
+      plateKey: normalizePlateKey(entryData.plateNumber, region),
+      region,
+      reason: entryData.reason,
+      priority: entryData.priority,
+      notes: entryData.notes || null,
+      expiresAt: entryData.expiresAt || null,
+      createdAt: new Date()
+    };
+    
+    this.hotlistEntries.set(id, entry);
+    return entry;
+  }
+  
+  async updateHotlistEntry(id: number, data: Partial<InsertHotlistEntry>): Promise<HotlistEntry | undefined> {
+    const entry = this.hotlistEntries.get(id);
+    
+    if (!entry) {
+      return undefined;
+    }
+    
+    const plateNumber = data.plateNumber || entry.plateNumber;
+    const region = data.region !== undefined ? (data.region || null) : entry.region;
+    
+    const updatedEntry: HotlistEntry = {
+      ...entry,
+      plateNumber,
+      plateKey: normalizePlateKey(plateNumber, region),
+      region,
+      reason: data.reason || entry.reason,
+      priority: data.priority || entry.priority,
+      notes: data.notes !== undefined ? (data.notes || null) : entry.notes,
+      expiresAt: data.expiresAt !== undefined ? (data.expiresAt || null) : entry.expiresAt
+    };
+    
+    this.hotlistEntries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+  
+  async deleteHotlistEntry(id: number): Promise<boolean> {
+    return this.hotlistEntries.delete(id);
+  }
+  
+  // Entrées des listes actives dont la date d'expiration n'est pas dépassée
+  async getActiveHotlistEntries(): Promise<HotlistEntry[]> {
+    const now = new Date();
+    
+    return Array.from(this.hotlistEntries.values()).filter(entry =>
+      this.hotlists.get(entry.hotlistId)?.active &&
+      (!entry.expiresAt || entry.expiresAt > now)
+    );
+  }
+  
+  async getPermits(filter: { zone?: string; plateKey?: string } = {}): Promise<Permit[]> {
+    return Array.from(this.permits.values()).filter(permit =>
+      (filter.zone === undefined || permit.zone === filter.zone) &&
+      (filter.plateKey === undefined || permit.plateKey === filter.plateKey)
+    );
+  }
+  
+  async getPermit(id: number): Promise<Permit | undefined> {
+    return this.permits.get(id);
+  }
+  
+  async createPermit(permitData: InsertPermit): Promise<Permit> {
+    const id = this.currentPermitId++;
+    const region = permitData.region || null;
+    
+    const permit: Permit = {
+      id,
+      plateNumber: permitData.plateNumber,
+      plateKey: normalizePlateKey(permitData.plateNumber, region),
+      region,
+      zone: permitData.zone || null,
+      permitType: permitData.permitType,
+      holderName: permitData.holderName || null,
+      validFrom: permitData.validFrom || new Date(),
+      validUntil: permitData.validUntil || null,
+      timeWindows: permitData.timeWindows || null,
+      notes: permitData.notes || null,
+      createdAt: new Date()
+    };
+    
+    this.permits.set(id, permit);
+    return permit;
+  }
+  
+  async updatePermit(id: number, data: Partial<InsertPermit>): Promise<Permit | undefined> {
+    const permit = this.permits.get(id);
+    
+    if (!permit) {
+      return undefined;
+    }
+    
+    const plateNumber = data.plateNumber || permit.plateNumber;
+    const region = data.region !== undefined ? (data.region || null) : permit.region;
+    
+    const updatedPermit: Permit = {
+      ...permit,
+      plateNumber,
+      plateKey: normalizePlateKey(plateNumber, region),
+      region,
+      zone: data.zone !== undefined ? (data.zone || null) : permit.zone,
+      permitType: data.permitType || permit.permitType,
+      holderName: data.holderName !== undefined ? (data.holderName || null) : permit.holderName,
+      validFrom: data.validFrom || permit.validFrom,
+      validUntil: data.validUntil !== undefined ? (data.validUntil || null) : permit.validUntil,
+      timeWindows: data.timeWindows !== undefined ? (data.timeWindows || null) : permit.timeWindows,
+      notes: data.notes !== undefined ? (data.notes || null) : permit.notes
+    };
+    
+    this.permits.set(id, updatedPermit);
+    return updatedPermit;
+  }
+  
+  async deletePermit(id: number): Promise<boolean> {
+    return this.permits.delete(id);
+  }
+  
+  async countSightingsToPurge(rule: SightingRetentionRule): Promise<number> {
+    return Array.from(this.plates.values()).filter(plate => matchesRetentionRule(plate, rule)).length;
+  }
+  
+  // Supprime les observations avec leurs lectures brutes et leurs images, puis les
+  // véhicules qui n'ont plus aucune observation avec leur historique de statuts
+  async purgeSightings(rule: SightingRetentionRule): Promise<SightingPurge> {
+    const counts: SightingPurge = { sightings: 0, reads: 0, statusChecks: 0, vehicles: 0, imageKeys: [] };
+    
+    for (const plate of Array.from(this.plates.values())) {
+      if (!matchesRetentionRule(plate, rule)) continue;
+      
+      for (const read of Array.from(this.reads.values())) {
+        if (read.plateId === plate.id && this.reads.delete(read.id)) counts.reads++;
+      }
+      for (const image of Array.from(this.evidenceImages.values())) {
+        if (image.sightingId === plate.id && this.evidenceImages.delete(image.id)) counts.imageKeys.push(image.storageKey);
+      }
+      this.plates.delete(plate.id);
+      counts.sightings++;
+    }
+    
+    const remainingVehicleIds = new Set(Array.from(this.plates.values()).map(plate => plate.vehicleId));
+    for (const vehicle of Array.from(this.vehicles.values())) {
+      if (remainingVehicleIds.has(vehicle.id)) continue;
+      
+      for (const check of Array.from(this.statusChecks.values())) {
+        if (check.vehicleId === vehicle.id && this.statusChecks.delete(check.id)) counts.statusChecks++;
+      }
+      this.vehicles.delete(vehicle.id);
+      counts.vehicles++;
+    }
+    
+    return counts;
+  }
+  
+  async createPurgeAudit(auditData: InsertPurgeAudit): Promise<PurgeAudit> {
+    const audit: PurgeAudit = {
+      id: this.currentPurgeAuditId++,
+      trigger: auditData.trigger,
+      startedAt: auditData.startedAt,
+      completedAt: new Date(),
+      sightingsDeleted: auditData.sightingsDeleted || 0,
+      readsDeleted: auditData.readsDeleted || 0,
+      statusChecksDeleted: auditData.statusChecksDeleted || 0,
+      vehiclesDeleted: auditData.vehiclesDeleted || 0,
+      imagesDeleted: auditData.imagesDeleted || 0,
+      policies: auditData.policies,
+      error: auditData.error || null
+    };
+    
+    this.purgeAudits.set(audit.id, audit);
+    return audit;
+  }
+  
+  // Audits de purge, le plus récent en premier
+  async getPurgeAudits(limit: number): Promise<PurgeAudit[]> {
+    return Array.from(this.purgeAudits.values())
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+}
+
+// Fichier de la base SQLite des postes autonomes
+const DEFAULT_SQLITE_PATH = 'data/anpr.sqlite';
+
+/**
+ * Choisit le stockage selon STORAGE_DRIVER : « memory » (données perdues au
+ * redémarrage), « postgres » (DATABASE_URL) ou « sqlite » (fichier SQLITE_PATH,
+ * sans serveur). Par défaut, PostgreSQL si une base est configurée.
+ *
+ * Le pilote est chargé à la demande, comme les modules de native-modules.ts : pg
+ * et le module natif better-sqlite3 ne sont requis que par le stockage qui les utilise.
+ */
+async function createStorage(): Promise<IStorage> {
+  const driver = getStorageDriver();
+
+  switch (driver) {
+    case 'memory':
+      return new MemStorage();
+    case 'postgres': {
+      if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL is required for the postgres storage driver');
+      }
+      const [{ createDatabase }, { DatabaseStorage }] = await Promise.all([import('./db'), import('./database-storage')]);
+      const databaseStorage = new DatabaseStorage(createDatabase(process.env.DATABASE_URL));
+      await databaseStorage.migrate();
+      console.log('Stockage PostgreSQL prêt (migrations appliquées)');
+      return databaseStorage;
+    }
+    case 'sqlite': {
+      const filePath = process.env.SQLITE_PATH || DEFAULT_SQLITE_PATH;
+      const [{ createSqliteDatabase }, { SqliteStorage }] = await Promise.all([import('./sqlite-db'), import('./sqlite-storage')]);
+      const sqliteStorage = new SqliteStorage(createSqliteDatabase(filePath));
+      await sqliteStorage.migrate();
+      console.log(`Stockage SQLite prêt (${filePath})`);
+      return sqliteStorage;
+    }
+    default:
+      throw new Error(`Unknown storage driver: ${driver}`);
+  }
+}
+
+export function getStorageDriver(): string {
+  return process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? 'postgres' : 'memory');
 }
 
-export const storage = new MemStorage();
+// Stockage choisi au démarrage, disponible une fois initializeStorage() terminé
+export let storage: IStorage;
+
+/**
+ * Prépare le stockage au démarrage : ouverture et migrations de la base, stockage
+ * des images de preuve, puis données de démonstration en développement
+ */
+export async function initializeStorage(): Promise<void> {
+  storage = await createStorage();
+  initializeEvidenceStore(getStorageDriver());
+
+  if (process.env.NODE_ENV === 'development') {
+    await seedDemoData(storage);
+  }
+}
@@ -0,0 +1,145 @@
+import Tesseract from 'tesseract.js';
+import { Buffer } from 'buffer';
+import { matchPlateFormats } from '@shared/plate-formats';
+import { RecognitionProvider, ProviderDetection, BoundingBox } from './recognition-provider';
+
+// Caractères autorisés sur une plaque d'immatriculation
+const PLATE_CHAR_WHITELIST = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 -';
+
+// Délai avant une nouvelle tentative d'initialisation après un échec
+const INIT_RETRY_DELAY_MS = 60_000;
+
+let workerPromise: Promise<Tesseract.Worker> | null = null;
+let lastInitFailure = 0;
+
+/**
+ * Crée (une seule fois) le worker Tesseract local.
+ * TESSERACT_LANG_PATH permet de pointer vers des fichiers traineddata locaux
+ * pour un fonctionnement entièrement hors ligne.
+ */
+async function getWorker(): Promise<Tesseract.Worker> {
+  if (!workerPromise && Date.now() - lastInitFailure < INIT_RETRY_DELAY_MS) {
+    throw new Error('Moteur OCR local indisponible (échec d\'initialisation récent)');
+  }
+
+  if (!workerPromise) {
+    console.log('Initialisation du moteur OCR local Tesseract...');
+
+    workerPromise = new Promise<Tesseract.Worker>((resolve, reject) => {
+      Tesseract.createWorker(process.env.TESSERACT_LANG || 'eng', undefined, {
+        // tesseract.js ne rejette pas createWorker si le chargement de la langue échoue :
+        // on rejette nous-mêmes pour ne pas bloquer la requête indéfiniment
+        errorHandler: (error: unknown) => {
+          console.error('Erreur du moteur OCR local:', error);
+          reject(error instanceof Error ? error : new Error(String(error)));
+        },
+        ...(process.env.TESSERACT_LANG_PATH ? { langPath: process.env.TESSERACT_LANG_PATH } : {}),
+        ...(process.env.TESSERACT_CACHE_PATH ? { cachePath: process.env.TESSERACT_CACHE_PATH } : {})
+      }).then(resolve, reject);
+    }).then(async worker => {
+      await worker.setParameters({
+        tessedit_char_whitelist: PLATE_CHAR_WHITELIST,
+        tessedit_pageseg_mode: Tesseract.PSM.SPARSE_TEXT
+      });
+
+      return worker;
+    }).catch(error => {
+      // Permettre une nouvelle tentative après le délai
+      workerPromise = null;
+      lastInitFailure = Date.now();
+      throw error;
+    });
+  }
+
+  return workerPromise;
+}
+
+/**
+ * Vérifie qu'un texte ressemble à une plaque : il doit respecter un format standard,
+ * commercial, de moto, diplomatique ou de commerçant connu (les plaques
+ * personnalisées admettent trop de bruit OCR)
+ */
+function looksLikePlate(text: string): boolean {
+  const compact = text.replace(/[ -]/g, '');
+
+  // Une plaque contient au moins un chiffre et entre 4 et 8 caractères
+  if (compact.length < 4 || compact.length > 8 || !/[0-9]/.test(compact)) {
+    return false;
+  }
+
+  return matchPlateFormats(compact, undefined, ['standard', 'commercial', 'motorcycle', 'diplomatic', 'dealer']).length > 0;
+}
+
+/**
+ * Vérifie si deux boîtes se chevauchent
+ */
+function overlaps(a: BoundingBox, b: BoundingBox): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width &&
+    a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Reconnaît les plaques avec le moteur OCR local (tesseract.js)
+ */
+export async function recognizePlateWithTesseract(imageBase64: string): Promise<ProviderDetection[]> {
+  const base64Data = imageBase64.replace(/^data:image\/\w+;base64,/, '');
+  const imageBuffer = Buffer.from(base64Data, 'base64');
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(imageBuffer, {}, { text: true, blocks: true });
+
+  const candidates: ProviderDetection[] = [];
+
+  // Parcourir chaque ligne de texte et tester les mots seuls ou par paires (ex: "CBPC" + "344")
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const words = line.words.filter(word => word.text.trim().length > 0);
+
+        for (let i = 0; i < words.length; i++) {
+          for (const size of [1, 2]) {
+            if (i + size > words.length) continue;
+
+            const group = words.slice(i, i + size);
+            const text = group.map(word => word.text.trim().toUpperCase()).join(' ');
+            if (!looksLikePlate(text)) continue;
+
+            const x0 = Math.min(...group.map(word => word.bbox.x0));
+            const y0 = Math.min(...group.map(word => word.bbox.y0));
+            const x1 = Math.max(...group.map(word => word.bbox.x1));
+            const y1 = Math.max(...group.map(word => word.bbox.y1));
+
+            candidates.push({
+              plateNumber: text,
+              region: 'Inconnu',
+              confidence: group.reduce((sum, word) => sum + word.confidence, 0) / group.length / 100,
+              boundingBox: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }
+            });
+          }
+        }
+      }
+    }
+  }
+
+  // Garder le meilleur candidat pour chaque zone de l'image (une plaque par zone)
+  const detections: ProviderDetection[] = [];
+  for (const candidate of candidates.sort((a, b) => b.confidence - a.confidence)) {
+    if (detections.some(kept => overlaps(kept.boundingBox!, candidate.boundingBox!))) continue;
+    detections.push(candidate);
+  }
+
+  detections.forEach(detection => {
+    console.log(`Plaque détectée par OCR local: ${detection.plateNumber} avec une confiance de ${detection.confidence}`);
+  });
+
+  return detections;
+}
+
+/**
+ * Moteur de reconnaissance entièrement local, sans accès réseau
+ */
+export const tesseractProvider: RecognitionProvider = {
+  name: 'tesseract',
+  isAvailable: () => true,
+  recognize: recognizePlateWithTesseract
+};
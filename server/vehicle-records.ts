@@ -0,0 +1,44 @@
+import type { InsertStatusCheck, InsertVehicle, LicensePlate, Vehicle } from '@shared/schema';
+
+// Champs de statut d'une observation, reportés dans status_checks
+type StatusFields = Pick<LicensePlate, 'status' | 'details' | 'registrationExpiresAt' | 'ownerClass' | 'registeredVehicle'>;
+
+/**
+ * Vérification de statut correspondant à ce qu'une observation indique
+ */
+export function toStatusCheck(vehicleId: number, fields: StatusFields): InsertStatusCheck {
+  return {
+    vehicleId,
+    status: fields.status,
+    details: fields.details,
+    registrationExpiresAt: fields.registrationExpiresAt,
+    ownerClass: fields.ownerClass,
+    registeredVehicle: fields.registeredVehicle
+  };
+}
+
+/**
+ * Vérifie qu'une observation n'apporte rien de nouveau par rapport au statut enregistré
+ */
+export function isSameStatus(a: StatusFields, b: StatusFields): boolean {
+  return a.status === b.status &&
+    (a.details || null) === (b.details || null) &&
+    (a.registrationExpiresAt || null) === (b.registrationExpiresAt || null) &&
+    (a.ownerClass || null) === (b.ownerClass || null) &&
+    (a.registeredVehicle || null) === (b.registeredVehicle || null);
+}
+
+/**
+ * Identité d'un véhicule déjà connu, mise à jour par une nouvelle observation :
+ * dernière forme lue, dernière catégorie connue, dernière date de passage. La région
+ * fait partie de l'identité avec la clé et ne change pas.
+ */
+export function mergeVehicle(existing: Vehicle, vehicle: InsertVehicle): Omit<Vehicle, 'id' | 'plateKey' | 'region' | 'firstSeenAt'> {
+  const seenAt = vehicle.lastSeenAt || new Date();
+
+  return {
+    plateNumber: vehicle.plateNumber,
+    category: vehicle.category || existing.category,
+    lastSeenAt: seenAt > existing.lastSeenAt ? seenAt : existing.lastSeenAt
+  };
+}
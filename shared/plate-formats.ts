@@ -0,0 +1,394 @@
+// Plate format library keyed by jurisdiction (province, territory, state, country).
+//
+// Formats are written as shapes: L = letter, D = digit, A = letter or digit; spaces
+// and dashes are optional separators. Formats that a shape cannot express (variable
+// length, fixed prefixes) use a regular expression applied to the compact plate
+// (uppercase, separators removed). These are the commonly issued formats, not an
+// exhaustive list: an unknown format lowers a reading's score but never rejects it.
+
+import type { PlateCategory } from "./schema";
+
+export type PlateFormatCategory = Exclude<PlateCategory, "unknown">;
+
+export type PlateFormat = {
+  category: PlateFormatCategory;
+  shape?: string;
+  pattern?: RegExp;
+  label?: string; // name of the numbering scheme, e.g. "SIV"
+  example?: string;
+  // Shared with other categories (e.g. SIV for every vehicle): validates a plate
+  // but cannot tell its category
+  generic?: boolean;
+};
+
+export type CountryCode = "CA" | "US" | "FR";
+
+export type Jurisdiction = {
+  code: string; // Plate Recognizer region code, e.g. "ca-on", "us-ny", "fr"
+  name: string; // name used as `region` throughout the application
+  country: CountryCode;
+  formats: PlateFormat[];
+};
+
+export type PlateFormatMatch = {
+  jurisdiction: Jurisdiction;
+  format: PlateFormat;
+};
+
+export type RegionResolution = {
+  region: string;
+  confirmed: boolean; // the plate matches a format of the returned region
+  category?: PlateFormatCategory;
+};
+
+// Country-level regions, used when the engine or the operator only knows the country
+export const COUNTRY_REGION_NAMES: Record<CountryCode, string> = {
+  CA: "Canada",
+  US: "États-Unis",
+  FR: "France"
+};
+
+// Personalised plates: any letters and digits within the jurisdiction's length limit
+const vanity = (maxLength: number): PlateFormat => ({
+  category: "vanity",
+  pattern: new RegExp(`^[A-Z0-9]{2,${maxLength}}$`)
+});
+
+type FormatOverrides = {
+  commercial?: PlateFormat[];
+  motorcycle?: PlateFormat[];
+  diplomatic?: PlateFormat[];
+  dealer?: PlateFormat[];
+  vanityMaxLength?: number;
+};
+
+// Diplomatic and dealer series shared by the jurisdictions of a country
+const COUNTRY_DEFAULTS: Record<"CA" | "US", Pick<FormatOverrides, "diplomatic" | "dealer">> = {
+  CA: {
+    diplomatic: [{ category: "diplomatic", pattern: /^(CD|CC)[0-9]{3,4}$/, example: "CD 1234" }],
+    dealer: [{ category: "dealer", pattern: /^DLR[A-Z0-9]{2,5}$/, example: "DLR 123" }]
+  },
+  // Issued by the Office of Foreign Missions, seen in every state
+  US: {
+    diplomatic: [{ category: "diplomatic", pattern: /^[DCS][0-9]{3,4}[A-Z]{1,2}$/, example: "D 1234 X" }],
+    dealer: [{ category: "dealer", pattern: /^(DLR[A-Z0-9]{2,5}|[A-Z0-9]{2,5}DLR)$/, example: "DLR 1234" }]
+  }
+};
+
+function jurisdiction(
+  code: string,
+  name: string,
+  country: "CA" | "US",
+  standard: string[],
+  overrides: FormatOverrides = {}
+): Jurisdiction {
+  const defaults = COUNTRY_DEFAULTS[country];
+
+  return {
+    code,
+    name,
+    country,
+    formats: [
+      ...standard.map(shape => ({ category: "standard" as const, shape })),
+      vanity(overrides.vanityMaxLength ?? 7),
+      // Without a known scheme, commercial and motorcycle plates are short alphanumerics
+      ...(overrides.commercial || [{ category: "commercial" as const, pattern: /^[A-Z0-9]{4,7}$/, generic: true }]),
+      ...(overrides.motorcycle || [{ category: "motorcycle" as const, pattern: /^[A-Z0-9]{2,6}$/, generic: true }]),
+      ...(overrides.diplomatic || defaults.diplomatic!),
+      ...(overrides.dealer || defaults.dealer!)
+    ]
+  };
+}
+
+const province = (code: string, name: string, standard: string[], overrides?: FormatOverrides) =>
+  jurisdiction(code, name, "CA", standard, overrides);
+const state = (code: string, name: string, standard: string[], overrides?: FormatOverrides) =>
+  jurisdiction(code, name, "US", standard, overrides);
+
+export const JURISDICTIONS: Jurisdiction[] = [
+  // Canadian provinces and territories
+  province("ca-ab", "Alberta", ["LLL DDDD", "LLL DDD"]),
+  province("ca-bc", "Colombie-Britannique", ["LLD DDL", "DDD LLL", "LLL DDD"], {
+    motorcycle: [{ category: "motorcycle", shape: "DDDDDL" }]
+  }),
+  province("ca-mb", "Manitoba", ["LLL DDD"]),
+  province("ca-nb", "Nouveau-Brunswick", ["LLL DDD"]),
+  province("ca-nl", "Terre-Neuve-et-Labrador", ["LLL DDD"]),
+  province("ca-ns", "Nouvelle-Écosse", ["LLL DDD"]),
+  province("ca-nt", "Territoires du Nord-Ouest", ["DDDDDD"], { vanityMaxLength: 6 }),
+  province("ca-nu", "Nunavut", ["DDDDDD"], { vanityMaxLength: 6 }),
+  province("ca-on", "Ontario", ["LLLL DDD", "LLL DDD"], {
+    vanityMaxLength: 8,
+    commercial: [{ category: "commercial", shape: "LL DDDDD", example: "AB 12345" }],
+    motorcycle: [{ category: "motorcycle", shape: "DD LL DD", example: "12 AB 34" }]
+  }),
+  province("ca-pe", "Île-du-Prince-Édouard", ["LLL DDD", "DDD LL"]),
+  province("ca-qc", "Québec", ["AAA AAA"], {
+    vanityMaxLength: 7,
+    // The first letter gives the category: F (truck), L (taxi), M (motorcycle), X (dealer)
+    commercial: [{ category: "commercial", pattern: /^[FL][A-Z0-9]{5,6}$/ }],
+    motorcycle: [{ category: "motorcycle", pattern: /^M[A-Z0-9]{5}$/ }],
+    diplomatic: [{ category: "diplomatic", pattern: /^(CD|CC)[A-Z0-9]{3,5}$/ }],
+    dealer: [{ category: "dealer", pattern: /^X[A-Z0-9]{5,6}$/ }]
+  }),
+  province("ca-sk", "Saskatchewan", ["DDD LLL"]),
+  province("ca-yt", "Yukon", ["LLL DD"], { vanityMaxLength: 6 }),
+
+  // US states and the District of Columbia
+  state("us-ak", "Alaska", ["LLL DDD"]),
+  state("us-al", "Alabama", ["DD LDDDD", "D LL DDDD"]),
+  state("us-ar", "Arkansas", ["LLL DDL", "DDD LLL"]),
+  state("us-az", "Arizona", ["LLL DDDD", "LLL DDLL"]),
+  state("us-ca", "Californie", ["DLLL DDD"], {
+    commercial: [{ category: "commercial", shape: "DL DDDDD" }],
+    motorcycle: [{ category: "motorcycle", shape: "DDLDDDD" }]
+  }),
+  state("us-co", "Colorado", ["LLL LDD", "DDD LLL"]),
+  state("us-ct", "Connecticut", ["LL DDDDD", "DLL LL D"]),
+  state("us-dc", "District de Columbia", ["LL DDDD"]),
+  state("us-de", "Delaware", ["DDDDDD"]),
+  state("us-fl", "Floride", ["LLL LDD", "DDD LLL", "LLL DDDD"]),
+  state("us-ga", "Géorgie", ["LLL DDDD"]),
+  state("us-hi", "Hawaï", ["LLL DDD"]),
+  state("us-ia", "Iowa", ["LLL DDD"]),
+  state("us-id", "Idaho", ["DL DDDDD", "DL LDDDD"]),
+  state("us-il", "Illinois", ["LL DDDDD", "LLL DDDD"]),
+  state("us-in", "Indiana", ["DDDL", "DDDLLL", "DDDLL"]),
+  state("us-ks", "Kansas", ["DDD LLL"]),
+  state("us-ky", "Kentucky", ["DDD LLL", "LLL DDD"]),
+  state("us-la", "Louisiane", ["DDD LLL", "LLL DDD"]),
+  state("us-ma", "Massachusetts", ["DLLL DD", "DLL DDD"]),
+  state("us-md", "Maryland", ["DLL DDDD", "LLL DDDD"]),
+  state("us-me", "Maine", ["DDDD LL"]),
+  state("us-mi", "Michigan", ["LLL DDDD", "DLLL DD"]),
+  state("us-mn", "Minnesota", ["DDD LLL", "LLL DDD"]),
+  state("us-mo", "Missouri", ["LLD LDL"]),
+  state("us-ms", "Mississippi", ["LLL DDDD"]),
+  state("us-mt", "Montana", ["DDD DDDL", "DL DDDDL"]),
+  state("us-nc", "Caroline du Nord", ["LLL DDDD"]),
+  state("us-nd", "Dakota du Nord", ["LLL DDDD", "DDD LLL"]),
+  state("us-ne", "Nebraska", ["LLL DDD", "DD LDDD"]),
+  state("us-nh", "New Hampshire", ["DDD DDDD"]),
+  state("us-nj", "New Jersey", ["LDD LLL"]),
+  state("us-nm", "Nouveau-Mexique", ["LLL DDD", "DDD LLL"]),
+  state("us-nv", "Nevada", ["DDL DDD", "DLL DDD"]),
+  state("us-ny", "New York", ["LLL DDDD"], { vanityMaxLength: 8 }),
+  state("us-oh", "Ohio", ["LLL DDDD"]),
+  state("us-ok", "Oklahoma", ["LLL DDD", "DDD LLL"]),
+  state("us-or", "Oregon", ["DDD LLL", "LLL DDD"]),
+  state("us-pa", "Pennsylvanie", ["LLL DDDD"], { vanityMaxLength: 8 }),
+  state("us-ri", "Rhode Island", ["LL DDD", "DDDDDD"]),
+  state("us-sc", "Caroline du Sud", ["LLL DDD"]),
+  state("us-sd", "Dakota du Sud", ["DLL DDD", "DDL DDD"]),
+  state("us-tn", "Tennessee", ["DLD DLD", "LLL DDDD"]),
+  state("us-tx", "Texas", ["LLL DDDD"]),
+  state("us-ut", "Utah", ["LDD DLL", "DDD LLL"]),
+  state("us-va", "Virginie", ["LLL DDDD"]),
+  state("us-vt", "Vermont", ["LLL DDD"]),
+  state("us-wa", "Washington", ["LLL DDDD"]),
+  state("us-wi", "Wisconsin", ["LLL DDDD"]),
+  state("us-wv", "Virginie-Occidentale", ["DLL DDD"]),
+  state("us-wy", "Wyoming", ["DD DDDDD", "D DDDDD"]),
+
+  // France: SIV since 2009, FNI (number + letters + département) still on the road.
+  // SIV numbers are used for every category and there are no personalised plates.
+  {
+    code: "fr",
+    name: "France",
+    country: "FR",
+    formats: [
+      { category: "standard", label: "SIV", shape: "LL-DDD-LL", example: "AB-123-CD" },
+      {
+        category: "standard",
+        label: "FNI",
+        pattern: /^[0-9]{1,4}[A-Z]{1,3}(0[1-9]|[1-8][0-9]|9[0-5]|2A|2B|97[1-6])$/,
+        example: "1234 AB 56"
+      },
+      { category: "commercial", label: "SIV", shape: "LL-DDD-LL", generic: true },
+      { category: "motorcycle", label: "SIV", shape: "LL-DDD-LL", generic: true },
+      // Green plates: number, CD/CMD/C/K series, then the mission number
+      { category: "diplomatic", pattern: /^[0-9]{1,3}(CD|CMD|C|K)[0-9]{1,4}$/, example: "123 CD 45" },
+      { category: "dealer", label: "W garage", pattern: /^W[0-9]{3}[A-Z]{2}$/, example: "W-123-AB" }
+    ]
+  }
+];
+
+const byCode = new Map(JURISDICTIONS.map(entry => [entry.code, entry]));
+const byName = new Map(JURISDICTIONS.map(entry => [entry.name.toLowerCase(), entry]));
+const shapePatterns = new Map<string, RegExp>();
+
+/**
+ * Plate reduced to its characters: uppercase, without spaces or dashes
+ */
+export function compactPlate(plateNumber: string): string {
+  return plateNumber.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Shape without its separators ("LLLL DDD" -> "LLLLDDD")
+ */
+export function compactShape(shape: string): string {
+  return shape.replace(/[^LDA]/g, "");
+}
+
+function shapePattern(shape: string): RegExp {
+  let pattern = shapePatterns.get(shape);
+  if (!pattern) {
+    const body = Array.from(compactShape(shape))
+      .map(kind => (kind === "L" ? "[A-Z]" : kind === "D" ? "[0-9]" : "[A-Z0-9]"))
+      .join("");
+    pattern = new RegExp(`^${body}$`);
+    shapePatterns.set(shape, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Checks a plate (as read or typed) against one format
+ */
+export function matchesFormat(plateNumber: string, format: PlateFormat): boolean {
+  const compact = compactPlate(plateNumber);
+  if (format.shape) return shapePattern(format.shape).test(compact);
+  return format.pattern ? format.pattern.test(compact) : false;
+}
+
+/**
+ * Jurisdiction by Plate Recognizer code ("ca-on") or by name ("Ontario")
+ */
+export function getJurisdiction(codeOrName?: string | null): Jurisdiction | undefined {
+  if (!codeOrName) return undefined;
+  const key = codeOrName.trim().toLowerCase();
+  return byCode.get(key) || byName.get(key);
+}
+
+/**
+ * Country of a region, whether it names a jurisdiction or a country
+ */
+export function getRegionCountry(region?: string | null): CountryCode | undefined {
+  const entry = getJurisdiction(region);
+  if (entry) return entry.country;
+  return (Object.keys(COUNTRY_REGION_NAMES) as CountryCode[])
+    .find(country => COUNTRY_REGION_NAMES[country] === region);
+}
+
+/**
+ * Jurisdictions a region can designate: itself, every jurisdiction of a country,
+ * or all of them when the region is unknown
+ */
+export function getJurisdictionsForRegion(region?: string | null): Jurisdiction[] {
+  const entry = getJurisdiction(region);
+  if (entry) return [entry];
+
+  const country = getRegionCountry(region);
+  return country ? JURISDICTIONS.filter(candidate => candidate.country === country) : JURISDICTIONS;
+}
+
+/**
+ * Formats of the given jurisdictions that a plate matches, standard formats first
+ */
+export function matchPlateFormats(
+  plateNumber: string,
+  jurisdictions: Jurisdiction[] = JURISDICTIONS,
+  categories?: PlateFormatCategory[]
+): PlateFormatMatch[] {
+  const order: PlateFormatCategory[] = ["standard", "commercial", "motorcycle", "diplomatic", "dealer", "vanity"];
+  const matches: PlateFormatMatch[] = [];
+
+  for (const entry of jurisdictions) {
+    for (const format of entry.formats) {
+      if (categories && !categories.includes(format.category)) continue;
+      if (matchesFormat(plateNumber, format)) {
+        matches.push({ jurisdiction: entry, format });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => order.indexOf(a.format.category) - order.indexOf(b.format.category));
+}
+
+/**
+ * Checks that a plate is valid in a region (jurisdiction or country)
+ */
+export function isValidPlateForRegion(plateNumber: string, region?: string | null): boolean {
+  return matchPlateFormats(plateNumber, getJurisdictionsForRegion(region)).length > 0;
+}
+
+/**
+ * Infers the jurisdiction of a plate from its format, within the given region:
+ * returned only when the standard formats of a single jurisdiction match
+ */
+export function inferJurisdiction(plateNumber: string, region?: string | null): Jurisdiction | undefined {
+  const matches = matchPlateFormats(plateNumber, getJurisdictionsForRegion(region), ["standard"]);
+  const candidates = Array.from(new Set(matches.map(match => match.jurisdiction)));
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Confirms or infers the region of a plate from its format. A jurisdiction is kept
+ * and confirmed when the plate matches one of its formats; a country or an unknown
+ * region is replaced by the jurisdiction inferred from the standard formats, if any.
+ */
+export function resolvePlateRegion(plateNumber: string, region?: string | null): RegionResolution {
+  const given = getJurisdiction(region);
+  const fallback = region || "Inconnu";
+
+  if (given) {
+    const [match] = matchPlateFormats(plateNumber, [given]);
+    return { region: given.name, confirmed: Boolean(match), category: match?.format.category };
+  }
+
+  const inferred = inferJurisdiction(plateNumber, region);
+  if (inferred) {
+    return { region: inferred.name, confirmed: true, category: "standard" };
+  }
+
+  const [match] = matchPlateFormats(plateNumber, getJurisdictionsForRegion(region));
+  return { region: fallback, confirmed: false, category: match?.format.category };
+}
+
+// Categories that set a plate apart win over the ones it merely fits
+const CLASSIFICATION_ORDER: PlateFormatCategory[] = ["diplomatic", "dealer", "commercial", "motorcycle", "standard", "vanity"];
+
+export type PlateClassificationHints = {
+  ownerClass?: string | null; // from the registry, see ownerClassSchema
+  vehicleType?: string | null; // from the recognition engine
+};
+
+/**
+ * Classifies a plate from the formats of its region. The registry owner class and
+ * the vehicle type, when known, take precedence over the format for diplomatic and
+ * motorcycle plates, whose series often overlap the standard ones.
+ */
+export function classifyPlate(
+  plateNumber: string,
+  region?: string | null,
+  hints: PlateClassificationHints = {}
+): PlateCategory {
+  if (hints.ownerClass === "diplomatic") return "diplomatic";
+  if (hints.vehicleType && /motorcycle|moto/i.test(hints.vehicleType)) return "motorcycle";
+
+  const categories = new Set(
+    matchPlateFormats(plateNumber, getJurisdictionsForRegion(region))
+      .filter(match => !match.format.generic)
+      .map(match => match.format.category)
+  );
+
+  return CLASSIFICATION_ORDER.find(category => categories.has(category)) || "unknown";
+}
+
+/**
+ * Letter/digit shapes of a region's standard formats, used to resolve OCR confusions
+ * (B/8, O/0...) position by position. Empty when the region is unknown: its plates
+ * keep the characters as read. Shapes containing "A" positions cannot disambiguate
+ * and are skipped.
+ */
+export function getDisambiguationShapes(region?: string | null): string[] {
+  if (!getRegionCountry(region)) return [];
+
+  const shapes = getJurisdictionsForRegion(region).flatMap(entry => entry.formats)
+    .filter(format => format.category === "standard" && format.shape)
+    .map(format => compactShape(format.shape!))
+    .filter(shape => !shape.includes("A"));
+
+  return Array.from(new Set(shapes));
+}
@@ -1,52 +1,568 @@
-import { pgTable, text, serial, integer, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, jsonb, real, index, date, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
-// Defining the database schema for license plates
+// Alternative reading of a plate proposed by the recognition engine
+export const plateCandidateSchema = z.object({
+  plateNumber: z.string(),
+  score: z.number()
+});
+
+export type PlateCandidate = z.infer<typeof plateCandidateSchema>;
+
+// Plate identity: one row per canonical plate key and region, however many times it is
+// seen. The same plate number in two jurisdictions is two vehicles.
+export const vehicles = pgTable("vehicles", {
+  id: serial("id").primaryKey(),
+  plateKey: text("plate_key").notNull(),
+  plateNumber: text("plate_number").notNull(), // latest form read or typed, for display
+  region: text("region").notNull(), // "Inconnu" when the region was not known
+  category: text("category"), // see plateCategorySchema
+  firstSeenAt: timestamp("first_seen_at", { withTimezone: true }).defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  plateKeyRegionUnique: unique("vehicles_plate_key_region_unique").on(table.plateKey, table.region)
+}));
+
+// Registry answer for a vehicle at a point in time; the latest one is its current status
+export const statusChecks = pgTable("status_checks", {
+  id: serial("id").primaryKey(),
+  vehicleId: integer("vehicle_id").notNull().references(() => vehicles.id),
+  status: text("status").notNull(), // id from the status catalogue
+  details: text("details"),
+  registrationExpiresAt: date("registration_expires_at", { mode: "string" }), // YYYY-MM-DD
+  ownerClass: text("owner_class"), // see ownerClassSchema
+  registeredVehicle: text("registered_vehicle"),
+  checkedAt: timestamp("checked_at", { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  vehicleIdx: index("status_checks_vehicle_id_idx").on(table.vehicleId)
+}));
+
+// Sightings: one row per observation of a vehicle (consolidated over the frames of a
+// track). Status and registration columns keep what was known when it was seen.
 export const licensePlates = pgTable("license_plates", {
   id: serial("id").primaryKey(),
-  plateNumber: text("plate_number").notNull(),
+  plateNumber: text("plate_number").notNull(), // as read or typed, for display
+  // Canonical key (no separators, OCR confusions resolved) used for every lookup
+  plateKey: text("plate_key").notNull(),
   region: text("region"),
-  status: text("status").notNull(), // "valid", "expired", "suspended", "other"
+  status: text("status").notNull(), // id from the status catalogue ("valid", "stolen"...)
   detectionType: text("detection_type").notNull(), // "automatic", "manual"
-  detectedAt: timestamp("detected_at").defaultNow().notNull(),
-  details: text("details")
-});
+  detectedAt: timestamp("detected_at", { withTimezone: true }).defaultNow().notNull(),
+  details: text("details"),
+  alternates: jsonb("alternates").$type<PlateCandidate[]>(), // other readings, best first
+  vehicleType: text("vehicle_type"), // "Sedan", "SUV", "Pickup Truck", "Motorcycle"...
+  vehicleMake: text("vehicle_make"),
+  vehicleModel: text("vehicle_model"),
+  vehicleColor: text("vehicle_color"),
+  cameraId: text("camera_id"),
+  zone: text("zone"), // lot where the plate was seen, for permit enforcement
+  permitStatus: text("permit_status"), // "permitted", "not_permitted", "permit_expired"
+  // Registration metadata from the registry lookup (see RegistryLookupResult)
+  registrationExpiresAt: date("registration_expires_at", { mode: "string" }), // YYYY-MM-DD
+  ownerClass: text("owner_class"), // see ownerClassSchema
+  registeredVehicle: text("registered_vehicle"), // vehicle on file, as opposed to the one seen
+  category: text("category"), // see plateCategorySchema, derived from the plate format
+  // Consolidated over all the frames of a track (see plate_reads)
+  confidence: real("confidence"),
+  readCount: integer("read_count").notNull().default(1),
+  lastSeenAt: timestamp("last_seen_at", { withTimezone: true }),
+  hotlistHit: boolean("hotlist_hit").notNull().default(false), // matched a hotlist entry; kept longer (see retention)
+  vehicleId: integer("vehicle_id").references(() => vehicles.id),
+  statusCheckId: integer("status_check_id").references(() => statusChecks.id) // status shown for this sighting
+}, (table) => ({
+  plateKeyIdx: index("license_plates_plate_key_idx").on(table.plateKey),
+  vehicleIdx: index("license_plates_vehicle_id_idx").on(table.vehicleId),
+  detectedAtIdx: index("license_plates_detected_at_idx").on(table.detectedAt)
+}));
 
 // Schema for inserting a new license plate
-export const insertLicensePlateSchema = createInsertSchema(licensePlates).omit({
+export const insertLicensePlateSchema = createInsertSchema(licensePlates, {
+  alternates: plateCandidateSchema.array().nullable().optional()
+}).omit({
   id: true,
+  plateKey: true, // derived from plateNumber and region by the storage layer
+  category: true, // derived from the plate format by the storage layer
+  vehicleId: true, // linked by the storage layer
+  statusCheckId: true, // recorded by the storage layer when the status changes
   detectedAt: true
 });
 
-// Validation schema for Canada license plates (optimized for Ontario format)
-export const canadaLicensePlateSchema = z.object({
-  plateNumber: z.string().regex(/^[A-Z]{1,4}[ -]?[0-9A-Z]{1,4}$/i, 
-    { message: "Format de plaque d'immatriculation canadienne invalide" })
+export const insertVehicleSchema = createInsertSchema(vehicles).omit({
+  id: true,
+  plateKey: true, // derived from plateNumber and region by the storage layer
+  firstSeenAt: true
+});
+
+export const insertStatusCheckSchema = createInsertSchema(statusChecks).omit({
+  id: true,
+  checkedAt: true
+});
+
+// Bounding box of a read, in pixels of the submitted frame
+export const boundingBoxSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number()
+});
+
+// Raw per-frame reads behind a consolidated sighting, kept for audit
+export const plateReads = pgTable("plate_reads", {
+  id: serial("id").primaryKey(),
+  plateId: integer("plate_id").notNull().references(() => licensePlates.id),
+  trackId: text("track_id").notNull(),
+  plateNumber: text("plate_number").notNull(),
+  region: text("region"),
+  confidence: real("confidence").notNull(),
+  boundingBox: jsonb("bounding_box").$type<z.infer<typeof boundingBoxSchema>>(),
+  engine: text("engine"),
+  cameraId: text("camera_id"),
+  readAt: timestamp("read_at", { withTimezone: true }).defaultNow().notNull()
+});
+
+export const insertPlateReadSchema = createInsertSchema(plateReads, {
+  boundingBox: boundingBoxSchema.nullable().optional()
+}).omit({
+  id: true,
+  readAt: true
+});
+
+// Image kept as evidence of a sighting
+export const evidenceKindSchema = z.enum([
+  "frame",     // full frame submitted to /api/scan
+  "plate",     // crop of the plate, cut from the frame
+  "thumbnail"  // reduced frame for lists
+]);
+
+// Evidence image of a sighting; the blob lives in the evidence store under storageKey
+export const evidenceImages = pgTable("evidence_images", {
+  id: serial("id").primaryKey(),
+  sightingId: integer("sighting_id").notNull().references(() => licensePlates.id),
+  kind: text("kind").notNull(), // see evidenceKindSchema
+  storageKey: text("storage_key").notNull(),
+  sha256: text("sha256").notNull(), // hex digest of the stored bytes, checked when served
+  contentType: text("content_type").notNull(),
+  byteSize: integer("byte_size").notNull(),
+  capturedAt: timestamp("captured_at", { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  sightingIdx: index("evidence_images_sighting_id_idx").on(table.sightingId)
+}));
+
+export const insertEvidenceImageSchema = createInsertSchema(evidenceImages, {
+  kind: evidenceKindSchema
+}).omit({
+  id: true,
+  capturedAt: true
+});
+
+// Evidence image as listed with a sighting: url requires an evidence access session
+export type SightingEvidence = {
+  kind: EvidenceKind;
+  sha256: string;
+  url: string;
+};
+
+// Whether the caller may view evidence images, opened with the operators' access code
+export type EvidenceSession = {
+  authenticated: boolean;
+};
+
+export type SightingWithEvidence = LicensePlate & { evidence: SightingEvidence[] };
+
+// Page of the sighting history; nextCursor is null on the last page
+export type SightingPage = {
+  items: SightingWithEvidence[];
+  nextCursor: string | null;
+};
+
+// Sightings and distinct vehicles of one bucket of GET /api/stats. The key is the local
+// start of a time bucket ("2024-05-01T14:00", "2024-05-01") or the grouped value.
+export type StatsBucket = {
+  key: string | null;
+  sightings: number;
+  vehicles: number;
+};
+
+// Response of GET /api/stats: totals over the range and one list of buckets per grouping;
+// time groupings list every bucket of the range, empty ones included
+export type StatsSummary = {
+  from: string;
+  to: string;
+  timeZone: string;
+  totalSightings: number;
+  uniqueVehicles: number;
+  groups: Partial<Record<StatsGrouping, StatsBucket[]>>;
+};
+
+// Why a vehicle is on a hotlist
+export const hotlistReasonSchema = z.enum([
+  "stolen",  // stolen vehicle or stolen plate
+  "amber",   // vehicle linked to an Amber alert
+  "bolo",    // be-on-the-lookout issued by an agency
+  "other"
+]);
+
+// Alert priority, highest last
+export const hotlistPrioritySchema = z.enum(["low", "medium", "high", "critical"]);
+
+// Watchlist published by a source (police feed, manual list...)
+export const hotlists = pgTable("hotlists", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  source: text("source").notNull(), // agency or feed the list comes from
+  description: text("description"),
+  active: boolean("active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull()
+});
+
+export const insertHotlistSchema = createInsertSchema(hotlists).omit({
+  id: true,
+  createdAt: true
+});
+
+// Plate wanted by a hotlist; matched on plateKey, exactly or within one character
+export const hotlistEntries = pgTable("hotlist_entries", {
+  id: serial("id").primaryKey(),
+  hotlistId: integer("hotlist_id").notNull().references(() => hotlists.id),
+  plateNumber: text("plate_number").notNull(),
+  plateKey: text("plate_key").notNull(),
+  region: text("region"),
+  reason: text("reason").notNull(), // see hotlistReasonSchema
+  priority: text("priority").notNull(), // see hotlistPrioritySchema
+  notes: text("notes"),
+  expiresAt: timestamp("expires_at", { withTimezone: true }), // no longer matched after this date
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  plateKeyIdx: index("hotlist_entries_plate_key_idx").on(table.plateKey)
+}));
+
+export const insertHotlistEntrySchema = createInsertSchema(hotlistEntries, {
+  reason: hotlistReasonSchema,
+  priority: hotlistPrioritySchema,
+  expiresAt: z.coerce.date().nullable().optional()
+}).omit({
+  id: true,
+  hotlistId: true, // taken from the URL
+  plateKey: true, // derived from plateNumber and region by the storage layer
+  createdAt: true
+});
+
+// Hit of a recognised plate against a hotlist entry
+export type HotlistMatch = {
+  entry: HotlistEntry;
+  hotlist: Hotlist;
+  matchType: "exact" | "fuzzy" | "alternate"; // alternate: one of the other readings matched
+  matchedPlateNumber: string;
+  distance: number; // edit distance between the normalised keys
+};
+
+// Weekly time window of a permit; end before start spans midnight (22:00-06:00)
+export const permitTimeWindowSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).min(1), // 0 = Sunday
+  start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/),   // HH:MM
+  end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+});
+
+export const permitTypeSchema = z.enum([
+  "permit",  // resident, employee or subscriber permit
+  "visitor"  // short-term visitor pass
+]);
+
+// Parking permit of a plate for a zone (lot), within dates and optional time windows
+export const permits = pgTable("permits", {
+  id: serial("id").primaryKey(),
+  plateNumber: text("plate_number").notNull(),
+  plateKey: text("plate_key").notNull(),
+  region: text("region"),
+  zone: text("zone"), // lot identifier; null = valid in every lot
+  permitType: text("permit_type").notNull(), // see permitTypeSchema
+  holderName: text("holder_name"),
+  validFrom: timestamp("valid_from", { withTimezone: true }).defaultNow().notNull(),
+  validUntil: timestamp("valid_until", { withTimezone: true }), // null = open-ended
+  timeWindows: jsonb("time_windows").$type<PermitTimeWindow[]>(), // null or empty = any time
+  notes: text("notes"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull()
+}, (table) => ({
+  plateKeyIdx: index("permits_plate_key_idx").on(table.plateKey)
+}));
+
+export const insertPermitSchema = createInsertSchema(permits, {
+  permitType: permitTypeSchema,
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  timeWindows: permitTimeWindowSchema.array().nullable().optional()
+}).omit({
+  id: true,
+  plateKey: true, // derived from plateNumber and region by the storage layer
+  createdAt: true
+});
+
+// Outcome of a permit check for a plate in a zone
+export const permitStatusSchema = z.enum([
+  "permitted",
+  "not_permitted",
+  "permit_expired"
+]);
+
+export type PermitCheckResult = {
+  status: PermitStatus;
+  zone: string;
+  details: string;
+  permit?: Permit; // permit that decided the outcome, if any
+  checkedAt: string;
+};
+
+// Plate status identifier. The set of statuses is defined by the server's status
+// catalogue (see statusDefinitionSchema), so any lowercase identifier is accepted here
+export const plateStatusSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, {
+  message: "Identifiant de statut invalide"
 });
 
-// Validation schema for USA license plates
-export const usaLicensePlateSchema = z.object({
-  plateNumber: z.string().regex(/^[A-Z0-9]{1,8}$/i, 
-    { message: "Format de plaque d'immatriculation américaine invalide" })
+// How serious a status is, from routine to requiring immediate action
+export const statusSeveritySchema = z.enum(["ok", "info", "warning", "critical"]);
+
+// Entry of the status catalogue: everything a client needs to render a status
+export const statusDefinitionSchema = z.object({
+  id: plateStatusSchema,
+  label: z.string().min(1),
+  description: z.string(), // default details when the registry gives none
+  severity: statusSeveritySchema,
+  color: z.string().regex(/^#[0-9a-f]{6}$/i), // hex colour, e.g. "#22c55e"
+  sound: z.string().nullable() // audio cue URL, null for a silent status
 });
 
-// Validation statuses
-export const plateStatusSchema = z.enum([
-  "valid", 
-  "expired", 
-  "suspended", 
+// Kind of registered owner
+export const ownerClassSchema = z.enum([
+  "individual",
+  "company",
+  "rental",
+  "government",
+  "diplomatic",
   "other"
 ]);
 
+// Plate category, classified from the jurisdiction's formats (see shared/plate-formats.ts)
+export const plateCategorySchema = z.enum([
+  "standard",
+  "vanity",
+  "commercial",
+  "motorcycle",
+  "diplomatic",
+  "dealer",
+  "unknown" // no known format of the region fits
+]);
+
+// Registration record held by a registry (local file, provincial service...)
+export const registrationRecordSchema = z.object({
+  plateNumber: z.string().min(1),
+  region: z.string().nullable().optional(),
+  status: plateStatusSchema,
+  expiresAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullable().optional(), // ISO date
+  ownerClass: ownerClassSchema.nullable().optional(),
+  vehicleDescription: z.string().nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+
+// Outcome of a registry lookup for a plate, as returned by the API
+export type RegistryLookupResult = {
+  found: boolean;
+  status: PlateStatus;
+  details: string;
+  expiresAt?: string | null;
+  ownerClass?: OwnerClass | null;
+  vehicleDescription?: string | null;
+  notes?: string | null;
+  source?: string; // registry provider that answered
+  checkedAt: string;
+};
+
+// Image preprocessing applied before OCR; each stage can be enabled independently
+export const preprocessingConfigSchema = z.object({
+  // Region of interest as fractions (0-1) of the frame
+  roi: z.object({
+    x: z.number().min(0).max(1),
+    y: z.number().min(0).max(1),
+    width: z.number().gt(0).max(1),
+    height: z.number().gt(0).max(1)
+  }).nullable().default(null),
+  maxWidth: z.number().int().positive().nullable().default(null), // downscale wider frames
+  deskew: z.boolean().default(false),
+  grayscale: z.boolean().default(false),
+  normalizeContrast: z.boolean().default(false),
+  sharpen: z.boolean().default(false)
+});
+
+// Recognition profile: thresholds and engine hints, selectable per camera or per request
+export const recognitionProfileSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, { message: "Identifiant de profil invalide" }),
+  name: z.string().min(1),
+  minConfidence: z.number().min(0).max(1),
+  regions: z.array(z.string().regex(/^[a-z]{2}(-[a-z0-9]{2,3})?$/i)), // Plate Recognizer region codes
+  mode: z.enum(["fast", "accurate"]),
+  detectionMode: z.enum(["vehicle", "plate"]),
+  cameraIds: z.array(z.string()).default([]),
+  preprocessing: preprocessingConfigSchema.default({})
+});
+
+// Distinct failure states of a recognition engine, reported to the Scanner
+export const recognitionErrorCodeSchema = z.enum([
+  "not_configured",  // no engine could be used (missing API key, no provider)
+  "auth_failed",     // API key rejected
+  "rate_limited",    // too many requests (HTTP 429), still throttled after retries
+  "quota_exceeded",  // monthly lookup quota used up
+  "circuit_open",    // engine temporarily disabled after repeated failures
+  "timeout",         // engine did not answer in time
+  "service_error",   // network error or 5xx response
+  "engine_error"     // any other engine failure
+]);
+
+// Failure of one engine while processing a frame
+export const recognitionFailureSchema = z.object({
+  engine: z.string().optional(),
+  code: recognitionErrorCodeSchema,
+  message: z.string(),
+  // Delay suggested by the engine before trying again, in milliseconds
+  retryAfterMs: z.number().optional()
+});
+
+// Sort keys of the sighting history; "plate" sorts on the canonical plate key
+export const sightingSortSchema = z.enum(["detectedAt", "plate", "confidence"]);
+
+// Query of GET /api/sightings. The range is from (inclusive) to (exclusive); status
+// takes a comma-separated list; plate is a prefix, or a pattern with * and ? wildcards.
+export const sightingQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  status: z.string()
+    .transform(value => value.split(",").map(status => status.trim()).filter(Boolean))
+    .pipe(plateStatusSchema.array().min(1))
+    .optional(),
+  region: z.string().min(1).optional(),
+  detectionType: z.string().min(1).optional(), // "automatic", "manual"
+  cameraId: z.string().min(1).optional(),
+  plate: z.string().regex(/^[A-Za-z0-9*?\s-]+$/, { message: "Motif de plaque invalide" }).optional(),
+  sort: sightingSortSchema.default("detectedAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional() // nextCursor of the previous page
+}).refine(query => !query.from || !query.to || query.from < query.to, {
+  message: "from doit précéder to",
+  path: ["to"]
+});
+
+// Groupings of the statistics: hourly or daily buckets in the requested time zone,
+// or the status, region or camera of the sightings
+export const statsGroupingSchema = z.enum(["hour", "day", "status", "region", "camera"]);
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Query of GET /api/stats. The range is from (inclusive) to (exclusive) and defaults to
+// the current day in timeZone (an IANA name); groupBy takes a comma-separated list.
+export const statsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  timeZone: z.string().refine(isTimeZone, { message: "Fuseau horaire inconnu" }).optional(),
+  groupBy: z.string()
+    .transform(value => value.split(",").map(grouping => grouping.trim()).filter(Boolean))
+    .pipe(statsGroupingSchema.array().min(1))
+    .optional()
+}).refine(query => !query.from || !query.to || query.from < query.to, {
+  message: "from doit précéder to",
+  path: ["to"]
+});
+
+// Retention policy: sightings it covers are purged once older than retentionHours.
+// Policies are tried in order and the first one whose criteria match applies.
+export const retentionPolicySchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, { message: "Identifiant de politique invalide" }),
+  label: z.string().min(1),
+  hotlistHit: z.boolean().optional(), // omitted = hits and non-hits alike
+  statuses: z.array(plateStatusSchema).min(1).optional(), // omitted = any status
+  retentionHours: z.number().positive()
+});
+
+// What one retention policy deleted during a purge
+export const purgePolicyResultSchema = z.object({
+  policyId: z.string(),
+  cutoff: z.string(), // ISO instant; sightings detected before it were purged
+  sightings: z.number().int()
+});
+
+export type PurgePolicyResult = z.infer<typeof purgePolicyResultSchema>;
+
+// Run of the purge job, kept as an audit trail of what was deleted and why
+export const purgeAudits = pgTable("purge_audits", {
+  id: serial("id").primaryKey(),
+  trigger: text("trigger").notNull(), // "scheduled" or "manual"
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+  completedAt: timestamp("completed_at", { withTimezone: true }).defaultNow().notNull(),
+  sightingsDeleted: integer("sightings_deleted").notNull().default(0),
+  readsDeleted: integer("reads_deleted").notNull().default(0),
+  statusChecksDeleted: integer("status_checks_deleted").notNull().default(0),
+  vehiclesDeleted: integer("vehicles_deleted").notNull().default(0),
+  imagesDeleted: integer("images_deleted").notNull().default(0),
+  policies: jsonb("policies").$type<PurgePolicyResult[]>().notNull(), // per-policy cutoff and count
+  error: text("error") // set when the run stopped on a failure
+});
+
+export const insertPurgeAuditSchema = createInsertSchema(purgeAudits, {
+  policies: purgePolicyResultSchema.array()
+}).omit({
+  id: true,
+  completedAt: true
+});
+
 // Type definitions
 export type InsertLicensePlate = z.infer<typeof insertLicensePlateSchema>;
 export type LicensePlate = typeof licensePlates.$inferSelect;
+export type InsertPlateRead = z.infer<typeof insertPlateReadSchema>;
+export type PlateRead = typeof plateReads.$inferSelect;
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertStatusCheck = z.infer<typeof insertStatusCheckSchema>;
+export type StatusCheck = typeof statusChecks.$inferSelect;
+export type SightingSort = z.infer<typeof sightingSortSchema>;
+export type SightingQuery = z.infer<typeof sightingQuerySchema>;
+export type StatsGrouping = z.infer<typeof statsGroupingSchema>;
+export type StatsQuery = z.infer<typeof statsQuerySchema>;
+export type EvidenceKind = z.infer<typeof evidenceKindSchema>;
+export type InsertEvidenceImage = z.infer<typeof insertEvidenceImageSchema>;
+export type EvidenceImage = typeof evidenceImages.$inferSelect;
+export type InsertHotlist = z.infer<typeof insertHotlistSchema>;
+export type Hotlist = typeof hotlists.$inferSelect;
+export type InsertHotlistEntry = z.infer<typeof insertHotlistEntrySchema>;
+export type HotlistEntry = typeof hotlistEntries.$inferSelect;
+export type HotlistReason = z.infer<typeof hotlistReasonSchema>;
+export type HotlistPriority = z.infer<typeof hotlistPrioritySchema>;
+export type InsertPermit = z.infer<typeof insertPermitSchema>;
+export type Permit = typeof permits.$inferSelect;
+export type PermitTimeWindow = z.infer<typeof permitTimeWindowSchema>;
+export type PermitStatus = z.infer<typeof permitStatusSchema>;
 export type PlateStatus = z.infer<typeof plateStatusSchema>;
+export type StatusSeverity = z.infer<typeof statusSeveritySchema>;
+export type StatusDefinition = z.infer<typeof statusDefinitionSchema>;
+export type RegistrationRecord = z.infer<typeof registrationRecordSchema>;
+export type OwnerClass = z.infer<typeof ownerClassSchema>;
+export type PlateCategory = z.infer<typeof plateCategorySchema>;
+export type RecognitionProfile = z.infer<typeof recognitionProfileSchema>;
+export type PreprocessingConfig = z.infer<typeof preprocessingConfigSchema>;
+export type RecognitionErrorCode = z.infer<typeof recognitionErrorCodeSchema>;
+export type RecognitionFailure = z.infer<typeof recognitionFailureSchema>;
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+export type InsertPurgeAudit = z.infer<typeof insertPurgeAuditSchema>;
+export type PurgeAudit = typeof purgeAudits.$inferSelect;
 
 // WebSocket message types
 export type WebSocketMessage = {
-  type: "PLATE_DETECTED" | "PLATE_VALIDATED" | "ERROR";
+  type: "PLATE_DETECTED" | "PLATE_VALIDATED" | "HOTLIST_ALERT" | "ERROR";
   data?: any;
   error?: string;
 };